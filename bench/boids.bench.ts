@@ -0,0 +1,88 @@
+#!/usr/bin/env bun
+/**
+ * 近傍探索の総当たりと空間グリッドの比較ベンチマーク。
+ *
+ * Usage: bun run bench
+ */
+import * as THREE from "three";
+import { applyBoidRules } from "../src/boids";
+import { DEFAULT_BOID_CONFIG, maxNeighborRadius } from "../src/boid-config";
+import { SpatialHashGrid } from "../src/spatial-hash";
+import { SeededRandom } from "../src/random";
+import { Fish } from "../src/types";
+
+const WIDTH = 1920;
+const HEIGHT = 1080;
+const FRAMES = 60;
+const FISH_COUNTS = [16, 256, 2048];
+
+// 画面中央にポインタがある状態
+const pointer = new THREE.Vector3(0, 0, 0);
+const random = new SeededRandom(42);
+
+const createFishes = (count: number): Fish[] =>
+  Array.from({ length: count }, (_, i) => {
+    const position = new THREE.Vector3(
+      random.spread(WIDTH),
+      random.spread(HEIGHT),
+      random.spread(200),
+    );
+    return {
+      id: i,
+      species: "goldfish",
+      position,
+      previousPosition: position.clone(),
+      velocity: new THREE.Vector3(
+        random.spread(2),
+        random.spread(2),
+        random.spread(0.5),
+      ),
+      color: new THREE.Color(),
+      appearance: { pattern: "solid", size: 1 },
+      opacity: 1,
+    };
+  });
+
+const bruteForceForces = (fishes: Fish[]): THREE.Vector3[] =>
+  fishes.map((fish) => applyBoidRules(fish, fishes, pointer));
+
+const grid = new SpatialHashGrid<Fish>(maxNeighborRadius(DEFAULT_BOID_CONFIG));
+const candidates: Fish[] = [];
+
+const gridForces = (fishes: Fish[]): THREE.Vector3[] => {
+  grid.rebuild(fishes);
+  return fishes.map((fish) =>
+    applyBoidRules(fish, grid.query(fish.position, candidates), pointer),
+  );
+};
+
+const measure = (fn: () => void): number => {
+  fn(); // ウォームアップ
+  const start = performance.now();
+  for (let frame = 0; frame < FRAMES; frame++) fn();
+  return (performance.now() - start) / FRAMES;
+};
+
+const results = FISH_COUNTS.map((count) => {
+  const fishes = createFishes(count);
+
+  // 両者の出力が一致することを確認
+  const expected = bruteForceForces(fishes);
+  const actual = gridForces(fishes);
+  const identical = expected.every((force, i) => force.equals(actual[i]));
+  if (!identical) {
+    throw new Error(`Grid output differs from brute force at ${count} fish`);
+  }
+
+  const bruteMs = measure(() => bruteForceForces(fishes));
+  const gridMs = measure(() => gridForces(fishes));
+
+  return {
+    Fish: count,
+    "Brute force (ms/frame)": bruteMs.toFixed(3),
+    "Grid (ms/frame)": gridMs.toFixed(3),
+    Speedup: `${(bruteMs / gridMs).toFixed(1)}x`,
+  };
+});
+
+console.table(results);
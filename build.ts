@@ -4,6 +4,7 @@ import plugin from "bun-plugin-tailwind";
 import { existsSync } from "fs";
 import { rm, cp } from "fs/promises";
 import path from "path";
+import { buildSceneWorker } from "./src/scene-worker-build";
 
 // Print help text if requested
 if (process.argv.includes("--help") || process.argv.includes("-h")) {
@@ -159,14 +160,26 @@ const result = await build({
   ...cliConfig, // Merge in any CLI-provided options
 });
 
+// The scene worker is not picked up from the HTML bundle, so build it as its own entrypoint
+const workerResult = await buildSceneWorker({
+  outdir,
+  minify: true,
+  sourcemap: "linked",
+  define: {
+    "process.env.NODE_ENV": JSON.stringify("production"),
+  },
+});
+
 // Print the results
 const end = performance.now();
 
-const outputTable = result.outputs.map((output) => ({
-  File: path.relative(process.cwd(), output.path),
-  Type: output.kind,
-  Size: formatFileSize(output.size),
-}));
+const outputTable = [...result.outputs, ...workerResult.outputs].map(
+  (output) => ({
+    File: path.relative(process.cwd(), output.path),
+    Type: output.kind,
+    Size: formatFileSize(output.size),
+  }),
+);
 
 console.table(outputTable);
 const buildTime = (end - start).toFixed(2);
@@ -1,24 +1,151 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import ThreeFishScene from "./components/ThreeFishScene";
 import WebGPUStatusIndicator from "./components/WebGPUStatusIndicator";
 import SocialLinks from "./components/SocialLinks";
+import BoidTuningPanel from "./components/BoidTuningPanel";
+import {
+  BoidConfig,
+  readBoidConfigFromUrl,
+  writeBoidConfigToUrl,
+} from "./boid-config";
+import { loadQuality, QualityLevel, saveQuality } from "./quality-governor";
+import {
+  loadPostEffects,
+  PostEffectToggles,
+  savePostEffects,
+} from "./post-processing";
+import {
+  backgroundStyle,
+  loadThemePreference,
+  resolveTheme,
+  saveThemePreference,
+  ThemeId,
+  ThemePreference,
+  THEMES,
+  watchThemePreference,
+} from "./theme";
+import { RendererBackendInfo } from "./renderer-setup";
+import {
+  RendererBackendContext,
+  RendererIncidentContext,
+} from "./renderer-backend-context";
+import { RendererIncident } from "./renderer-recovery";
+import { SceneDiagnostics } from "./diagnostics";
+import {
+  loadAnimationStopped,
+  prefersReducedMotion,
+  saveAnimationStopped,
+  watchReducedMotion,
+} from "./playback";
 
 function App() {
+  const [boidConfig, setBoidConfig] = useState<BoidConfig>(
+    readBoidConfigFromUrl,
+  );
+  const [qualityPin, setQualityPin] = useState<QualityLevel | null>(
+    () => loadQuality().pinned,
+  );
+  const [quality, setQuality] = useState<QualityLevel | null>(null);
+  const [postEffects, setPostEffects] =
+    useState<PostEffectToggles>(loadPostEffects);
+  const [themePreference, setThemePreference] =
+    useState<ThemePreference>(loadThemePreference);
+  const [themeId, setThemeId] = useState<ThemeId>(() =>
+    resolveTheme(themePreference),
+  );
+  const theme = THEMES[themeId];
+  const [backend, setBackend] = useState<RendererBackendInfo | null>(null);
+  const [incident, setIncident] = useState<RendererIncident | null>(null);
+  // シーンが毎フレーム書き込み、診断の HUD が読む
+  const [diagnostics] = useState(() => new SceneDiagnostics());
+  const [animationStopped, setAnimationStopped] =
+    useState<boolean>(loadAnimationStopped);
+  const [reducedMotion, setReducedMotion] =
+    useState<boolean>(prefersReducedMotion);
+
+  // 手動で固定した品質は次に開いたときも使う
+  useEffect(() => {
+    saveQuality({ ...loadQuality(), pinned: qualityPin });
+  }, [qualityPin]);
+
+  useEffect(() => {
+    savePostEffects(postEffects);
+  }, [postEffects]);
+
+  useEffect(() => {
+    saveAnimationStopped(animationStopped);
+  }, [animationStopped]);
+
+  // OS の動きを減らす設定に合わせて穏やかなモードにする
+  useEffect(() => watchReducedMotion(setReducedMotion), []);
+
+  // 自動なら時刻や OS の設定の変化に合わせて切り替える
+  useEffect(() => {
+    saveThemePreference(themePreference);
+    setThemeId(resolveTheme(themePreference));
+    return watchThemePreference(themePreference, setThemeId);
+  }, [themePreference]);
+
+  // 調整中の設定をURLハッシュに保存（リンクで共有できるように）
+  useEffect(() => {
+    writeBoidConfigToUrl(boidConfig);
+  }, [boidConfig]);
+
+  useEffect(() => {
+    const handleHashChange = () => setBoidConfig(readBoidConfigFromUrl());
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
   return (
-    <div className="min-h-screen bg-black text-white relative overflow-hidden">
-      <ThreeFishScene />
-      <WebGPUStatusIndicator />
-
-      {/* Main content */}
-      <div className="relative z-10 flex flex-col items-center justify-center min-h-screen p-8">
-        <div className="text-center space-y-8">
-          <h1 className="text-5xl font-bold mb-8 bg-gradient-to-r from-blue-400 via-purple-500 to-pink-500 bg-clip-text text-transparent">
-            JIJINBEI
-          </h1>
-          <SocialLinks />
+    <RendererBackendContext.Provider value={backend}>
+      <RendererIncidentContext.Provider value={incident}>
+        <div
+          className="min-h-screen text-white relative overflow-hidden"
+          style={{ background: backgroundStyle(theme) }}
+        >
+          <ThreeFishScene
+            config={boidConfig}
+            qualityPin={qualityPin}
+            onQualityChange={setQuality}
+            postEffects={postEffects}
+            themeId={themeId}
+            onBackendReady={setBackend}
+            onIncident={setIncident}
+            diagnostics={diagnostics}
+            animationStopped={animationStopped}
+            reducedMotion={reducedMotion}
+          />
+          <WebGPUStatusIndicator diagnostics={diagnostics} quality={quality} />
+          <BoidTuningPanel
+            config={boidConfig}
+            onChange={setBoidConfig}
+            quality={quality}
+            qualityPin={qualityPin}
+            onPinQuality={setQualityPin}
+            postEffects={postEffects}
+            onPostEffectsChange={setPostEffects}
+            themePreference={themePreference}
+            onThemePreferenceChange={setThemePreference}
+            animationStopped={animationStopped}
+            onAnimationStoppedChange={setAnimationStopped}
+          />
+
+          {/* Main content（何も無い所のタッチは下のシーンに通す） */}
+          <div className="relative z-10 flex flex-col items-center justify-center min-h-screen p-8 pointer-events-none">
+            <div className="text-center space-y-8 pointer-events-auto">
+              <h1
+                data-fish-obstacle
+                className={`text-5xl font-bold mb-8 bg-gradient-to-r ${theme.title} bg-clip-text text-transparent`}
+              >
+                JIJINBEI
+              </h1>
+              <SocialLinks />
+            </div>
+          </div>
         </div>
-      </div>
-    </div>
+      </RendererIncidentContext.Provider>
+    </RendererBackendContext.Provider>
   );
 }
 
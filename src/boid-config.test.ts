@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import {
+  BOID_PRESETS,
+  BoidConfig,
+  CPU_MAX_FISH_COUNT,
+  DEFAULT_BOID_CONFIG,
+  limitFishCount,
+  parseBoidConfig,
+  sanitizeBoidConfig,
+  serializeBoidConfig,
+  validateBoidConfig,
+} from "./boid-config";
+
+describe("boid config", () => {
+  test("presets are valid and survive a URL round trip", () => {
+    Object.values(BOID_PRESETS).forEach(({ config }) => {
+      expect(validateBoidConfig(config)).toEqual([]);
+      expect(parseBoidConfig(serializeBoidConfig(config))).toEqual(config);
+    });
+  });
+
+  test("serializes only values that differ from the defaults", () => {
+    expect(serializeBoidConfig(DEFAULT_BOID_CONFIG)).toBe("");
+    expect(serializeBoidConfig({ ...DEFAULT_BOID_CONFIG, maxSpeed: 4 })).toBe(
+      "maxSpeed=4",
+    );
+  });
+
+  test("clamps out-of-range and ignores malformed URL values", () => {
+    const config = parseBoidConfig(
+      "#maxSpeed=abc&minSpeed=50&fishCount=3.4&speciesCounts=shark:9000,kraken:3",
+    );
+
+    expect(config.maxSpeed).toBe(DEFAULT_BOID_CONFIG.maxSpeed);
+    expect(config.minSpeed).toBe(DEFAULT_BOID_CONFIG.maxSpeed);
+    expect(config.fishCount).toBe(3);
+    expect(config.speciesCounts.shark).toBe(512);
+    expect(Object.keys(config.speciesCounts)).not.toContain("kraken");
+  });
+
+  test("round-trips the boundary mode and ignores unknown modes", () => {
+    const wrap = { ...DEFAULT_BOID_CONFIG, boundaryMode: "wrap" as const };
+    expect(serializeBoidConfig(wrap)).toBe("boundaryMode=wrap");
+    expect(parseBoidConfig("boundaryMode=wrap").boundaryMode).toBe("wrap");
+    expect(parseBoidConfig("boundaryMode=teleport").boundaryMode).toBe(
+      "bounce",
+    );
+  });
+
+  test("reports invalid values", () => {
+    const errors = validateBoidConfig({
+      ...DEFAULT_BOID_CONFIG,
+      minSpeed: 6,
+      clusterCenters: [],
+      speciesCounts: { toString: 1 } as BoidConfig["speciesCounts"],
+    });
+    expect(errors).toContain("minSpeed must not exceed maxSpeed");
+    expect(errors).toContain("clusterCenters must not be empty");
+    expect(errors).toContain('speciesCounts has unknown species "toString"');
+  });
+
+  test("caps the goldfish count on backends without compute shaders", () => {
+    const config = parseBoidConfig("#fishCount=32768");
+    expect(config.fishCount).toBe(32768);
+    expect(limitFishCount(config, true)).toBe(config);
+    expect(limitFishCount(config, false).fishCount).toBe(CPU_MAX_FISH_COUNT);
+    expect(limitFishCount(DEFAULT_BOID_CONFIG, false)).toBe(
+      DEFAULT_BOID_CONFIG,
+    );
+  });
+
+  test("starts without predators", () => {
+    expect(DEFAULT_BOID_CONFIG.speciesCounts.shark).toBe(0);
+  });
+
+  test("sanitizing keeps missing values from the base config", () => {
+    const config = sanitizeBoidConfig({ cohesionWeight: 0.5 });
+    expect(config.cohesionWeight).toBe(0.5);
+    expect(config.separationRadius).toBe(DEFAULT_BOID_CONFIG.separationRadius);
+    expect(config.speciesCounts).toEqual(DEFAULT_BOID_CONFIG.speciesCounts);
+  });
+});
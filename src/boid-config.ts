@@ -0,0 +1,435 @@
+import { EXTRA_SPECIES_IDS, SpeciesId, isSpeciesId } from "./species";
+import { BoundaryMode, isBoundaryMode } from "./boundaries";
+
+export interface ClusterCenter {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface BoidConfig {
+  fishCount: number;
+  separationRadius: number;
+  separationWeight: number;
+  alignmentRadius: number;
+  alignmentWeight: number;
+  cohesionRadius: number;
+  cohesionWeight: number;
+  mouseAttractionRadius: number;
+  mouseAttractionWeight: number;
+  minSpeed: number;
+  maxSpeed: number;
+  jitter: number;
+  depthJitter: number;
+  damping: number;
+  obstacleMargin: number; // DOM要素の手前で避け始める距離
+  obstacleWeight: number;
+  currentWeight: number; // ドラッグで起こした水流に流される強さ
+  shockwaveWeight: number; // タップの衝撃波で押される強さ
+  boundaryMode: BoundaryMode;
+  boundaryMargin: number; // steer で端の手前から曲がり始める距離
+  boundaryWeight: number; // 端や画面外から押し戻す強さ
+  shootingStarsPerMinute: number; // 背景の星空を流れ星が横切る平均の回数
+  clusterCenters: ClusterCenter[];
+  speciesCounts: Partial<Record<SpeciesId, number>>; // 基本種以外の匹数
+}
+
+export type BoidNumericKey = Exclude<
+  keyof BoidConfig,
+  "clusterCenters" | "speciesCounts" | "boundaryMode"
+>;
+
+export interface BoidParameterRange {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// 各パラメータの許容範囲（検証とチューニングパネルで共有）
+export const BOID_PARAMETER_RANGES: Record<BoidNumericKey, BoidParameterRange> =
+  {
+    fishCount: { label: "Goldfish count", min: 0, max: 32768, step: 1 },
+    separationRadius: {
+      label: "Separation radius",
+      min: 0,
+      max: 200,
+      step: 1,
+    },
+    separationWeight: {
+      label: "Separation weight",
+      min: 0,
+      max: 5,
+      step: 0.01,
+    },
+    alignmentRadius: { label: "Alignment radius", min: 0, max: 200, step: 1 },
+    alignmentWeight: {
+      label: "Alignment weight",
+      min: 0,
+      max: 2,
+      step: 0.01,
+    },
+    cohesionRadius: { label: "Cohesion radius", min: 0, max: 200, step: 1 },
+    cohesionWeight: { label: "Cohesion weight", min: 0, max: 1, step: 0.005 },
+    mouseAttractionRadius: {
+      label: "Mouse radius",
+      min: 0,
+      max: 500,
+      step: 1,
+    },
+    mouseAttractionWeight: {
+      label: "Mouse weight",
+      min: 0,
+      max: 2,
+      step: 0.01,
+    },
+    minSpeed: { label: "Min speed", min: 0, max: 10, step: 0.1 },
+    maxSpeed: { label: "Max speed", min: 0.1, max: 20, step: 0.1 },
+    jitter: { label: "Jitter", min: 0, max: 0.5, step: 0.001 },
+    depthJitter: { label: "Depth jitter", min: 0, max: 0.5, step: 0.001 },
+    damping: { label: "Damping", min: 0.9, max: 1, step: 0.0005 },
+    obstacleMargin: {
+      label: "Obstacle margin",
+      min: 0,
+      max: 200,
+      step: 1,
+    },
+    obstacleWeight: {
+      label: "Obstacle weight",
+      min: 0,
+      max: 2,
+      step: 0.01,
+    },
+    currentWeight: { label: "Current weight", min: 0, max: 0.5, step: 0.005 },
+    shockwaveWeight: {
+      label: "Shockwave weight",
+      min: 0,
+      max: 5,
+      step: 0.05,
+    },
+    boundaryMargin: {
+      label: "Boundary margin",
+      min: 0,
+      max: 300,
+      step: 1,
+    },
+    boundaryWeight: {
+      label: "Boundary weight",
+      min: 0,
+      max: 1,
+      step: 0.01,
+    },
+    shootingStarsPerMinute: {
+      label: "Shooting stars / min",
+      min: 0,
+      max: 60,
+      step: 0.5,
+    },
+  };
+
+export const SPECIES_COUNT_RANGE: BoidParameterRange = {
+  label: "Count",
+  min: 0,
+  max: 512,
+  step: 1,
+};
+
+// コンピュートシェーダーが無い（CPU で動かす）ときの金魚の上限
+export const CPU_MAX_FISH_COUNT = 2048;
+
+// 動かすバックエンドで扱える金魚の数の範囲（CPU では数万匹を1フレームで計算できない）
+export const fishCountRange = (compute: boolean): BoidParameterRange =>
+  compute
+    ? BOID_PARAMETER_RANGES.fishCount
+    : { ...BOID_PARAMETER_RANGES.fishCount, max: CPU_MAX_FISH_COUNT };
+
+// URL で共有された大きな群れでも固まらないよう、バックエンドの上限で匹数を切る
+export const limitFishCount = (
+  config: BoidConfig,
+  compute: boolean,
+): BoidConfig => {
+  const { max } = fishCountRange(compute);
+  return config.fishCount > max ? { ...config, fishCount: max } : config;
+};
+
+export const BOID_NUMERIC_KEYS = Object.keys(
+  BOID_PARAMETER_RANGES,
+) as BoidNumericKey[];
+
+export const DEFAULT_BOID_CONFIG: BoidConfig = {
+  fishCount: 16,
+  separationRadius: 30, // より近くで分離
+  separationWeight: 1.2, // 分離をさらに強化
+  alignmentRadius: 60, // 中距離で方向を合わせる
+  alignmentWeight: 0.15, // 整列を弱める
+  cohesionRadius: 80, // やや遠くで集まる
+  cohesionWeight: 0.03, // 結束を弱める
+  mouseAttractionRadius: 150,
+  mouseAttractionWeight: 0.3,
+  minSpeed: 0.8,
+  maxSpeed: 5,
+  jitter: 0.015, // 群れを分散させるためのランダムな動き
+  depthJitter: 0.008,
+  damping: 0.999,
+  obstacleMargin: 40,
+  obstacleWeight: 0.4,
+  currentWeight: 0.04,
+  shockwaveWeight: 1.5,
+  boundaryMode: "bounce",
+  boundaryMargin: 100,
+  boundaryWeight: 0.3,
+  shootingStarsPerMinute: 2,
+  clusterCenters: [
+    { x: -150, y: -100, z: 0 }, // 左下クラスター
+    { x: 100, y: 50, z: 20 }, // 右上クラスター
+    { x: 0, y: -150, z: -30 }, // 中央下クラスター
+  ],
+  speciesCounts: { minnow: 0, shark: 0 },
+};
+
+export type BoidPresetName = "default" | "calm" | "tightSchool" | "chaotic";
+
+export const BOID_PRESETS: Record<
+  BoidPresetName,
+  { label: string; config: BoidConfig }
+> = {
+  default: { label: "Default", config: DEFAULT_BOID_CONFIG },
+  calm: {
+    label: "Calm",
+    config: {
+      ...DEFAULT_BOID_CONFIG,
+      separationWeight: 0.8,
+      alignmentWeight: 0.08,
+      cohesionWeight: 0.02,
+      mouseAttractionWeight: 0.15,
+      minSpeed: 0.4,
+      maxSpeed: 2,
+      jitter: 0.005,
+      depthJitter: 0.003,
+      damping: 0.995,
+      speciesCounts: { minnow: 0, shark: 0 },
+    },
+  },
+  tightSchool: {
+    label: "Tight school",
+    config: {
+      ...DEFAULT_BOID_CONFIG,
+      fishCount: 48,
+      separationRadius: 18,
+      separationWeight: 1,
+      alignmentRadius: 90,
+      alignmentWeight: 0.4,
+      cohesionRadius: 140,
+      cohesionWeight: 0.12,
+      jitter: 0.005,
+      depthJitter: 0.003,
+      clusterCenters: [{ x: 0, y: 0, z: 0 }],
+    },
+  },
+  chaotic: {
+    label: "Chaotic",
+    config: {
+      ...DEFAULT_BOID_CONFIG,
+      fishCount: 32,
+      separationRadius: 45,
+      separationWeight: 2,
+      alignmentWeight: 0.02,
+      cohesionWeight: 0.01,
+      mouseAttractionWeight: 0.6,
+      minSpeed: 1.5,
+      maxSpeed: 8,
+      jitter: 0.25,
+      depthJitter: 0.1,
+      damping: 1,
+      speciesCounts: { minnow: 24, shark: 3 },
+    },
+  },
+};
+
+// 近傍探索に必要な最大半径（空間グリッドのセルサイズに使う）
+export const maxNeighborRadius = (config: BoidConfig): number =>
+  Math.max(
+    config.separationRadius,
+    config.alignmentRadius,
+    config.cohesionRadius,
+    1,
+  );
+
+export const validateBoidConfig = (config: BoidConfig): string[] => {
+  const errors: string[] = [];
+
+  BOID_NUMERIC_KEYS.forEach((key) => {
+    const value = config[key];
+    const { min, max } = BOID_PARAMETER_RANGES[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${key} must be a finite number`);
+    } else if (value < min || value > max) {
+      errors.push(`${key} must be between ${min} and ${max}`);
+    }
+  });
+
+  if (!Number.isInteger(config.fishCount)) {
+    errors.push("fishCount must be an integer");
+  }
+  if (config.minSpeed > config.maxSpeed) {
+    errors.push("minSpeed must not exceed maxSpeed");
+  }
+  if (config.clusterCenters.length === 0) {
+    errors.push("clusterCenters must not be empty");
+  }
+  config.clusterCenters.forEach((center, i) => {
+    if (![center.x, center.y, center.z].every(Number.isFinite)) {
+      errors.push(`clusterCenters[${i}] must have finite coordinates`);
+    }
+  });
+  if (!isBoundaryMode(config.boundaryMode)) {
+    errors.push(`boundaryMode "${config.boundaryMode}" is not supported`);
+  }
+  Object.entries(config.speciesCounts).forEach(([id, count]) => {
+    const { min, max } = SPECIES_COUNT_RANGE;
+    if (!isSpeciesId(id)) {
+      errors.push(`speciesCounts has unknown species "${id}"`);
+    } else if (!Number.isInteger(count) || count! < min || count! > max) {
+      errors.push(
+        `speciesCounts.${id} must be an integer between ${min} and ${max}`,
+      );
+    }
+  });
+
+  return errors;
+};
+
+// 不正な値を範囲内に丸め、欠けている値はデフォルトで補う
+export const sanitizeBoidConfig = (
+  input: Partial<BoidConfig>,
+  base: BoidConfig = DEFAULT_BOID_CONFIG,
+): BoidConfig => {
+  const config: BoidConfig = {
+    ...base,
+    clusterCenters: base.clusterCenters.map((center) => ({ ...center })),
+    speciesCounts: { ...base.speciesCounts },
+  };
+
+  BOID_NUMERIC_KEYS.forEach((key) => {
+    const value = input[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) return;
+    const { min, max } = BOID_PARAMETER_RANGES[key];
+    config[key] = Math.min(max, Math.max(min, value));
+  });
+
+  config.fishCount = Math.round(config.fishCount);
+  if (config.minSpeed > config.maxSpeed) {
+    config.minSpeed = config.maxSpeed;
+  }
+
+  const centers = input.clusterCenters?.filter((center) =>
+    [center.x, center.y, center.z].every(Number.isFinite),
+  );
+  if (centers && centers.length > 0) {
+    config.clusterCenters = centers.map(({ x, y, z }) => ({ x, y, z }));
+  }
+
+  if (isBoundaryMode(input.boundaryMode)) {
+    config.boundaryMode = input.boundaryMode;
+  }
+
+  EXTRA_SPECIES_IDS.forEach((id) => {
+    const count = input.speciesCounts?.[id];
+    if (typeof count !== "number" || !Number.isFinite(count)) return;
+    const { min, max } = SPECIES_COUNT_RANGE;
+    config.speciesCounts[id] = Math.round(Math.min(max, Math.max(min, count)));
+  });
+
+  return config;
+};
+
+const serializeSpeciesCounts = (counts: BoidConfig["speciesCounts"]): string =>
+  EXTRA_SPECIES_IDS.map((id) => `${id}:${counts[id] ?? 0}`).join(",");
+
+const parseSpeciesCounts = (value: string): BoidConfig["speciesCounts"] => {
+  const counts: BoidConfig["speciesCounts"] = {};
+  value.split(",").forEach((part) => {
+    const [id, count] = part.split(":");
+    if (id && isSpeciesId(id)) counts[id] = Number(count);
+  });
+  return counts;
+};
+
+const serializeCenters = (centers: ClusterCenter[]): string =>
+  centers.map(({ x, y, z }) => `${x},${y},${z}`).join(";");
+
+const parseCenters = (value: string): ClusterCenter[] =>
+  value
+    .split(";")
+    .map((part) => part.split(",").map(Number))
+    .filter((coords) => coords.length === 3)
+    .map(([x, y, z]) => ({ x, y, z }));
+
+// デフォルトと異なる値だけを `key=value&...` 形式にする
+export const serializeBoidConfig = (config: BoidConfig): string => {
+  const params = new URLSearchParams();
+
+  BOID_NUMERIC_KEYS.forEach((key) => {
+    if (config[key] !== DEFAULT_BOID_CONFIG[key]) {
+      params.set(key, String(config[key]));
+    }
+  });
+
+  if (config.boundaryMode !== DEFAULT_BOID_CONFIG.boundaryMode) {
+    params.set("boundaryMode", config.boundaryMode);
+  }
+
+  const centers = serializeCenters(config.clusterCenters);
+  if (centers !== serializeCenters(DEFAULT_BOID_CONFIG.clusterCenters)) {
+    params.set("clusterCenters", centers);
+  }
+
+  const counts = serializeSpeciesCounts(config.speciesCounts);
+  if (counts !== serializeSpeciesCounts(DEFAULT_BOID_CONFIG.speciesCounts)) {
+    params.set("speciesCounts", counts);
+  }
+
+  return params.toString();
+};
+
+export const parseBoidConfig = (serialized: string): BoidConfig => {
+  const params = new URLSearchParams(serialized.replace(/^#/, ""));
+  const input: Partial<BoidConfig> = {};
+
+  BOID_NUMERIC_KEYS.forEach((key) => {
+    const value = params.get(key);
+    if (value !== null && value.trim() !== "") {
+      input[key] = Number(value);
+    }
+  });
+
+  const boundaryMode = params.get("boundaryMode");
+  if (isBoundaryMode(boundaryMode)) {
+    input.boundaryMode = boundaryMode;
+  }
+
+  const centers = params.get("clusterCenters");
+  if (centers) {
+    input.clusterCenters = parseCenters(centers);
+  }
+
+  const counts = params.get("speciesCounts");
+  if (counts) {
+    input.speciesCounts = parseSpeciesCounts(counts);
+  }
+
+  return sanitizeBoidConfig(input);
+};
+
+export const readBoidConfigFromUrl = (): BoidConfig =>
+  typeof window === "undefined"
+    ? DEFAULT_BOID_CONFIG
+    : parseBoidConfig(window.location.hash);
+
+// 履歴を増やさずにURLハッシュを書き換える
+export const writeBoidConfigToUrl = (config: BoidConfig): void => {
+  const hash = serializeBoidConfig(config);
+  const url = new URL(window.location.href);
+  url.hash = hash;
+  window.history.replaceState(null, "", url.href);
+};
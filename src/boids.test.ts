@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { applyBoidRules, avoidObstaclesForce } from "./boids";
+import { DEFAULT_BOID_CONFIG } from "./boid-config";
+import { makeFish } from "./test-fixtures";
+
+describe("applyBoidRules", () => {
+  test("returns zero force without neighbors or pointer", () => {
+    const fish = makeFish([0, 0, 0]);
+    const force = applyBoidRules(fish, [fish], null);
+    expect(force.length()).toBe(0);
+  });
+
+  test("separates from close neighbors and coheres toward them", () => {
+    const fish = makeFish([0, 0, 0]);
+    const neighbor = makeFish([10, 0, 0], [0, 0, 0], 1);
+    const force = applyBoidRules(fish, [fish, neighbor], null);
+
+    const { separationWeight, cohesionWeight } = DEFAULT_BOID_CONFIG;
+    expect(force.x).toBeCloseTo(-separationWeight + cohesionWeight);
+    expect(force.y).toBeCloseTo(0);
+  });
+
+  test("aligns with neighbors inside the alignment radius", () => {
+    const fish = makeFish([0, 0, 0]);
+    const neighbor = makeFish([50, 0, 0], [0, 2, 0], 1);
+    const force = applyBoidRules(fish, [fish, neighbor], null);
+
+    expect(force.x).toBeCloseTo(DEFAULT_BOID_CONFIG.cohesionWeight);
+    expect(force.y).toBeCloseTo(DEFAULT_BOID_CONFIG.alignmentWeight);
+  });
+
+  test("ignores neighbors outside every radius", () => {
+    const fish = makeFish([0, 0, 0]);
+    const neighbor = makeFish([100, 0, 0], [0, 2, 0], 1);
+    const force = applyBoidRules(fish, [fish, neighbor], null);
+    expect(force.length()).toBe(0);
+  });
+
+  test("is attracted to a pointer inside the attraction radius", () => {
+    const fish = makeFish([0, 0, 0]);
+
+    const near = applyBoidRules(fish, [], new THREE.Vector3(100, 0, 0));
+    expect(near.x).toBeCloseTo(DEFAULT_BOID_CONFIG.mouseAttractionWeight);
+
+    const far = applyBoidRules(fish, [], new THREE.Vector3(200, 0, 0));
+    expect(far.length()).toBe(0);
+  });
+
+  test("only schools with fish of the same species", () => {
+    const fish = makeFish([0, 0, 0]);
+    const other = {
+      ...makeFish([10, 0, 0], [0, 0, 0], 1),
+      species: "minnow" as const,
+    };
+    const force = applyBoidRules(fish, [fish, other], null);
+    expect(force.length()).toBe(0);
+  });
+
+  test("uses radii and weights from the given config", () => {
+    const fish = makeFish([0, 0, 0]);
+    const neighbor = makeFish([100, 0, 0], [0, 0, 0], 1);
+    const config = {
+      ...DEFAULT_BOID_CONFIG,
+      cohesionRadius: 150,
+      cohesionWeight: 0.5,
+    };
+    const force = applyBoidRules(fish, [fish, neighbor], null, config);
+    expect(force.x).toBeCloseTo(0.5);
+  });
+});
+
+describe("avoidObstaclesForce", () => {
+  const obstacle = { minX: -50, maxX: 50, minY: 0, maxY: 40 };
+
+  test("pushes away from an obstacle ahead, harder when closer", () => {
+    const near = makeFish([0, -20, 0], [0, 1, 0]);
+    const far = makeFish([0, -35, 0], [0, 1, 0], 1);
+
+    // 10ステップ先の予測位置で判定する（y = -10 と y = -25）
+    const nearForce = avoidObstaclesForce(near, [obstacle], 40, 1);
+    const farForce = avoidObstaclesForce(far, [obstacle], 40, 1);
+    expect(nearForce.y).toBeCloseTo(-0.75);
+    expect(farForce.y).toBeCloseTo(-0.375);
+    expect(nearForce.x).toBeCloseTo(0);
+  });
+
+  test("ignores obstacles beyond the margin", () => {
+    const fish = makeFish([0, -100, 0], [0, 1, 0]);
+    expect(avoidObstaclesForce(fish, [obstacle], 40, 1).length()).toBe(0);
+  });
+
+  test("pushes out through the nearest edge when inside", () => {
+    const fish = makeFish([45, 20, 0]);
+    const force = avoidObstaclesForce(fish, [obstacle], 40, 0.5);
+    expect(force.x).toBeCloseTo(0.5);
+    expect(force.y).toBeCloseTo(0);
+  });
+});
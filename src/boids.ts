@@ -0,0 +1,190 @@
+import * as THREE from "three";
+import { Fish } from "./types";
+import { BoidConfig, DEFAULT_BOID_CONFIG } from "./boid-config";
+import type { Obstacle } from "./obstacles";
+
+// ペアごとの割り当てを避けるための作業用ベクトル
+const diff = new THREE.Vector3();
+
+export const applyBoidRules = (
+  fish: Fish,
+  neighbors: Fish[],
+  pointer: THREE.Vector3 | null, // ワールド座標
+  config: BoidConfig = DEFAULT_BOID_CONFIG,
+): THREE.Vector3 => {
+  const separation = new THREE.Vector3();
+  const alignment = new THREE.Vector3();
+  const cohesion = new THREE.Vector3();
+  const mouseAttraction = new THREE.Vector3();
+
+  // 距離の二乗で比較（平方根計算を避ける）
+  const separationRadiusSq = config.separationRadius * config.separationRadius;
+  const alignmentRadiusSq = config.alignmentRadius * config.alignmentRadius;
+  const cohesionRadiusSq = config.cohesionRadius * config.cohesionRadius;
+
+  let separationCount = 0;
+  let alignmentCount = 0;
+  let cohesionCount = 0;
+
+  for (let i = 0; i < neighbors.length; i++) {
+    const neighbor = neighbors[i];
+    // 群れを作るのは同じ種どうしだけ
+    if (neighbor.id === fish.id || neighbor.species !== fish.species) continue;
+
+    diff.subVectors(fish.position, neighbor.position);
+    const distanceSquared = diff.lengthSq(); // 平方根計算を避ける
+
+    if (distanceSquared < separationRadiusSq && distanceSquared > 0) {
+      const distance = Math.sqrt(distanceSquared);
+      diff.normalize().divideScalar(distance);
+      separation.add(diff);
+      separationCount++;
+    }
+
+    if (distanceSquared < alignmentRadiusSq) {
+      alignment.add(neighbor.velocity);
+      alignmentCount++;
+    }
+
+    if (distanceSquared < cohesionRadiusSq) {
+      cohesion.add(neighbor.position);
+      cohesionCount++;
+    }
+  }
+
+  if (pointer) {
+    const mouseDistance = fish.position.distanceTo(pointer);
+
+    if (mouseDistance < config.mouseAttractionRadius && mouseDistance > 0) {
+      mouseAttraction
+        .subVectors(pointer, fish.position)
+        .normalize()
+        .multiplyScalar(config.mouseAttractionWeight);
+    }
+  }
+
+  if (separationCount > 0) {
+    separation
+      .divideScalar(separationCount)
+      .normalize()
+      .multiplyScalar(config.separationWeight);
+  }
+
+  if (alignmentCount > 0) {
+    alignment
+      .divideScalar(alignmentCount)
+      .normalize()
+      .multiplyScalar(config.alignmentWeight);
+  }
+
+  if (cohesionCount > 0) {
+    cohesion
+      .divideScalar(cohesionCount)
+      .sub(fish.position)
+      .normalize()
+      .multiplyScalar(config.cohesionWeight);
+  }
+
+  return new THREE.Vector3()
+    .add(separation)
+    .add(alignment)
+    .add(cohesion)
+    .add(mouseAttraction);
+};
+
+// 半径内で最も近い相手を探す（捕食者・獲物は少数なので線形探索）
+export const findNearest = (
+  fish: Fish,
+  others: Fish[],
+  radius: number,
+): Fish | null => {
+  let nearest: Fish | null = null;
+  let nearestDistanceSq = radius * radius;
+
+  for (let i = 0; i < others.length; i++) {
+    const other = others[i];
+    if (other.id === fish.id) continue;
+    const distanceSq = fish.position.distanceToSquared(other.position);
+    if (distanceSq < nearestDistanceSq) {
+      nearest = other;
+      nearestDistanceSq = distanceSq;
+    }
+  }
+
+  return nearest;
+};
+
+// 捕食者から逃げる力（近いほど強い）
+export const fleeForce = (
+  fish: Fish,
+  predator: Fish,
+  radius: number,
+  weight: number,
+): THREE.Vector3 => {
+  const away = new THREE.Vector3().subVectors(fish.position, predator.position);
+  const distance = away.length();
+  if (distance === 0 || distance >= radius) return away.set(0, 0, 0);
+  return away.normalize().multiplyScalar(weight * (1 - distance / radius));
+};
+
+// 獲物に向かう力
+export const chaseForce = (
+  fish: Fish,
+  prey: Fish,
+  weight: number,
+): THREE.Vector3 => {
+  const toward = new THREE.Vector3().subVectors(prey.position, fish.position);
+  if (toward.lengthSq() === 0) return toward;
+  return toward.normalize().multiplyScalar(weight);
+};
+
+// 障害物の判定に使う先読みステップ数（手前から曲がり始めるため）
+export const OBSTACLE_LOOK_AHEAD_STEPS = 10;
+
+/**
+ * 画面上のDOM要素（障害物）を避ける力。
+ * 少し先の予測位置が障害物の margin 以内に入ると最も近い点から離れる向きに押し、
+ * 近いほど強くする。内側に入り込んだ場合は最も近い辺から外へ出す。
+ */
+export const avoidObstaclesForce = (
+  fish: Fish,
+  obstacles: Obstacle[],
+  margin: number,
+  weight: number,
+): THREE.Vector3 => {
+  const force = new THREE.Vector3();
+  if (weight === 0) return force;
+
+  const px = fish.position.x + fish.velocity.x * OBSTACLE_LOOK_AHEAD_STEPS;
+  const py = fish.position.y + fish.velocity.y * OBSTACLE_LOOK_AHEAD_STEPS;
+
+  for (let i = 0; i < obstacles.length; i++) {
+    const { minX, maxX, minY, maxY } = obstacles[i];
+
+    let dx = px - Math.max(minX, Math.min(maxX, px));
+    let dy = py - Math.max(minY, Math.min(maxY, py));
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance >= margin && distance > 0) continue;
+
+    let strength = 1;
+    if (distance > 0) {
+      dx /= distance;
+      dy /= distance;
+      strength = 1 - distance / margin;
+    } else {
+      // 内側：最も近い辺の外向きへ
+      const toLeft = px - minX;
+      const toRight = maxX - px;
+      const toBottom = py - minY;
+      const toTop = maxY - py;
+      const nearest = Math.min(toLeft, toRight, toBottom, toTop);
+      dx = nearest === toLeft ? -1 : nearest === toRight ? 1 : 0;
+      dy = dx !== 0 ? 0 : nearest === toBottom ? -1 : 1;
+    }
+
+    force.x += dx * strength * weight;
+    force.y += dy * strength * weight;
+  }
+
+  return force;
+};
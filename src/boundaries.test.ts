@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  isStranded,
+  layoutClusterCenters,
+  steerFromBounds,
+  wrapAroundBounds,
+} from "./boundaries";
+import { boundsFromViewport, stepSimulation } from "./simulation";
+import { DEFAULT_BOID_CONFIG } from "./boid-config";
+import { random } from "./random";
+import { makeFish } from "./test-fixtures";
+
+const bounds = boundsFromViewport({ width: 800, height: 600 });
+
+const soloConfig = { ...DEFAULT_BOID_CONFIG, fishCount: 0, speciesCounts: {} };
+
+beforeEach(() => {
+  random.reseed(11);
+});
+
+describe("steerFromBounds", () => {
+  test("does nothing away from the edges", () => {
+    const force = steerFromBounds(
+      makeFish([0, 0, 0], [0, 0, 0]),
+      bounds,
+      80,
+      1,
+    );
+    expect(force.length()).toBe(0);
+  });
+
+  test("turns back harder the closer a fish gets to an edge", () => {
+    const near = steerFromBounds(
+      makeFish([380, 0, 0], [0, 0, 0]),
+      bounds,
+      80,
+      1,
+    );
+    const nearer = steerFromBounds(
+      makeFish([-395, 0, 0], [0, 0, 0]),
+      bounds,
+      80,
+      1,
+    );
+    expect(near.x).toBeCloseTo(-0.75);
+    expect(nearer.x).toBeCloseTo(75 / 80);
+    expect(near.y).toBe(0);
+  });
+
+  test("caps the pull on fish far outside", () => {
+    const force = steerFromBounds(
+      makeFish([0, 2000, 0], [0, 0, 0]),
+      bounds,
+      80,
+      0.5,
+    );
+    expect(force.y).toBeCloseTo(-1);
+  });
+});
+
+describe("wrapAroundBounds", () => {
+  test("moves fish that left the screen to the opposite side", () => {
+    const fish = makeFish([450, 10, 0], [2, 0, 0]);
+    expect(wrapAroundBounds(fish, bounds)).toBe(true);
+    expect(fish.position.x).toBeCloseTo(450 - 880);
+    expect(fish.previousPosition.equals(fish.position)).toBe(true);
+    expect(fish.velocity.x).toBe(2);
+  });
+
+  test("leaves fish near the edge alone until they are out of sight", () => {
+    const fish = makeFish([410, 0, 0], [2, 0, 0]);
+    expect(wrapAroundBounds(fish, bounds)).toBe(false);
+    expect(fish.position.x).toBe(410);
+  });
+});
+
+describe("layoutClusterCenters", () => {
+  test("scales cluster centers with the viewport", () => {
+    const [center] = layoutClusterCenters(
+      [{ x: 320, y: -180, z: 500 }],
+      boundsFromViewport({ width: 640, height: 360 }),
+    );
+    expect(center).toEqual({ x: 160, y: -90, z: 100 });
+  });
+});
+
+describe("boundary modes in the simulation", () => {
+  test("wrapped fish fade back in", () => {
+    const config = { ...soloConfig, boundaryMode: "wrap" as const };
+    const fish = makeFish([438, 0, 0], [4, 0, 0]);
+
+    stepSimulation([fish], { bounds, pointer: null, config });
+    expect(fish.position.x).toBeLessThan(0);
+    expect(fish.opacity).toBe(0);
+
+    for (let i = 0; i < 40; i++) {
+      stepSimulation([fish], { bounds, pointer: null, config });
+    }
+    expect(fish.opacity).toBe(1);
+  });
+
+  test("soft steering keeps fish from reaching the edge", () => {
+    const config = { ...soloConfig, boundaryMode: "steer" as const };
+    const fish = makeFish([300, 0, 0], [3, 0, 0]);
+
+    for (let i = 0; i < 200; i++) {
+      stepSimulation([fish], { bounds, pointer: null, config });
+      expect(fish.position.x).toBeLessThan(bounds.halfWidth);
+    }
+  });
+
+  test("fish stranded by a smaller viewport swim back instead of jumping", () => {
+    const fish = makeFish([700, 0, 0], [1, 0, 0]);
+    expect(isStranded(fish, bounds, "bounce")).toBe(true);
+
+    let previousX = fish.position.x;
+    for (let i = 0; i < 300 && isStranded(fish, bounds, "bounce"); i++) {
+      stepSimulation([fish], { bounds, pointer: null, config: soloConfig });
+      expect(Math.abs(fish.position.x - previousX)).toBeLessThanOrEqual(
+        DEFAULT_BOID_CONFIG.maxSpeed,
+      );
+      previousX = fish.position.x;
+    }
+    expect(isStranded(fish, bounds, "bounce")).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+import * as THREE from "three";
+import { Fish } from "./types";
+import type { ClusterCenter } from "./boid-config";
+import type { WorldBounds } from "./simulation";
+
+/**
+ * 画面端での振る舞い。
+ * - bounce: 端で跳ね返る
+ * - steer: 端に近づくと手前から向きを変える
+ * - wrap: 反対側から現れる（現れた直後はフェードイン）
+ */
+export type BoundaryMode = "bounce" | "steer" | "wrap";
+
+export const BOUNDARY_MODES: Record<BoundaryMode, string> = {
+  bounce: "Bounce",
+  steer: "Steer",
+  wrap: "Wrap around",
+};
+
+export const isBoundaryMode = (value: unknown): value is BoundaryMode =>
+  typeof value === "string" && value in BOUNDARY_MODES;
+
+// 画面外にどれだけ出たら反対側へ移すか（魚の体が見えなくなってから）
+export const WRAP_MARGIN = 40;
+
+// 画面外から戻す力の上限（weight に対する倍率）
+export const MAX_RETURN_STRENGTH = 2;
+
+// クラスター中心の座標はこの画面サイズを基準に書かれている
+const REFERENCE_BOUNDS = { halfWidth: 640, halfHeight: 360 };
+
+export const isInsideBounds = (
+  position: THREE.Vector3,
+  { halfWidth, halfHeight, halfDepth }: WorldBounds,
+  margin: number = 0,
+): boolean =>
+  Math.abs(position.x) <= halfWidth + margin &&
+  Math.abs(position.y) <= halfHeight + margin &&
+  Math.abs(position.z) <= halfDepth;
+
+/**
+ * 画面が縮んで外に取り残されたか。
+ * wrap では端を越えてから反対側へ移るまでの間も画面外にいるので、その分は除く。
+ */
+export const isStranded = (
+  fish: Fish,
+  bounds: WorldBounds,
+  mode: BoundaryMode,
+): boolean =>
+  !isInsideBounds(fish.position, bounds, mode === "wrap" ? WRAP_MARGIN : 0);
+
+// 範囲外に出たら位置を戻し、その軸の速度を反転・減衰させる
+export const bounceOffBounds = (fish: Fish, bounds: WorldBounds): void => {
+  const { halfWidth, halfHeight, halfDepth } = bounds;
+
+  if (fish.position.x < -halfWidth || fish.position.x > halfWidth) {
+    fish.velocity.x *= -0.8;
+    fish.position.x = Math.max(
+      -halfWidth,
+      Math.min(halfWidth, fish.position.x),
+    );
+  }
+  if (fish.position.y < -halfHeight || fish.position.y > halfHeight) {
+    fish.velocity.y *= -0.8;
+    fish.position.y = Math.max(
+      -halfHeight,
+      Math.min(halfHeight, fish.position.y),
+    );
+  }
+  if (fish.position.z < -halfDepth || fish.position.z > halfDepth) {
+    fish.velocity.z *= -0.8;
+    fish.position.z = Math.max(
+      -halfDepth,
+      Math.min(halfDepth, fish.position.z),
+    );
+  }
+};
+
+// 端から margin 以内に入ると内側へ押し戻す（外に出ているほど強い）
+const steerAxis = (
+  value: number,
+  half: number,
+  margin: number,
+  weight: number,
+): number => {
+  const inset = Math.min(margin, half);
+  const overshoot = Math.abs(value) - (half - inset);
+  if (overshoot <= 0) return 0;
+  const strength = Math.min(
+    MAX_RETURN_STRENGTH,
+    inset > 0 ? overshoot / inset : MAX_RETURN_STRENGTH,
+  );
+  return -Math.sign(value) * strength * weight;
+};
+
+export const steerFromBounds = (
+  fish: Fish,
+  { halfWidth, halfHeight, halfDepth }: WorldBounds,
+  margin: number,
+  weight: number,
+): THREE.Vector3 =>
+  new THREE.Vector3(
+    steerAxis(fish.position.x, halfWidth, margin, weight),
+    steerAxis(fish.position.y, halfHeight, margin, weight),
+    steerAxis(fish.position.z, halfDepth, margin / 2, weight),
+  );
+
+/**
+ * 画面の外まで泳ぎ切った魚を反対側に移す（奥行きは跳ね返す）。
+ * 移した場合は true を返す。補間で画面を横切らないよう前ステップの位置も揃える。
+ */
+export const wrapAroundBounds = (fish: Fish, bounds: WorldBounds): boolean => {
+  const halfWidth = bounds.halfWidth + WRAP_MARGIN;
+  const halfHeight = bounds.halfHeight + WRAP_MARGIN;
+  let wrapped = false;
+
+  if (Math.abs(fish.position.x) > halfWidth) {
+    fish.position.x -= Math.sign(fish.position.x) * halfWidth * 2;
+    wrapped = true;
+  }
+  if (Math.abs(fish.position.y) > halfHeight) {
+    fish.position.y -= Math.sign(fish.position.y) * halfHeight * 2;
+    wrapped = true;
+  }
+  if (Math.abs(fish.position.z) > bounds.halfDepth) {
+    fish.velocity.z *= -0.8;
+    fish.position.z = Math.sign(fish.position.z) * bounds.halfDepth;
+  }
+
+  if (wrapped) fish.previousPosition.copy(fish.position);
+  return wrapped;
+};
+
+// 基準の画面サイズで書かれたクラスター中心を、今の画面サイズに合わせて配置し直す
+export const layoutClusterCenters = (
+  centers: ClusterCenter[],
+  bounds: WorldBounds,
+): ClusterCenter[] => {
+  const scaleX = bounds.halfWidth / REFERENCE_BOUNDS.halfWidth;
+  const scaleY = bounds.halfHeight / REFERENCE_BOUNDS.halfHeight;
+  return centers.map(({ x, y, z }) => ({
+    x: x * scaleX,
+    y: y * scaleY,
+    z: Math.max(-bounds.halfDepth, Math.min(bounds.halfDepth, z)),
+  }));
+};
@@ -0,0 +1,325 @@
+import React, { useState } from "react";
+import {
+  BoidConfig,
+  BoidNumericKey,
+  BoidPresetName,
+  BOID_NUMERIC_KEYS,
+  BOID_PARAMETER_RANGES,
+  BOID_PRESETS,
+  DEFAULT_BOID_CONFIG,
+  fishCountRange,
+  sanitizeBoidConfig,
+  serializeBoidConfig,
+  SPECIES_COUNT_RANGE,
+  validateBoidConfig,
+} from "../boid-config";
+import { EXTRA_SPECIES_IDS, SpeciesId, SPECIES } from "../species";
+import { BoundaryMode, BOUNDARY_MODES, isBoundaryMode } from "../boundaries";
+import {
+  isQualityLevel,
+  QUALITY_LEVELS,
+  QUALITY_PRESETS,
+  QualityLevel,
+} from "../quality-governor";
+import {
+  POST_EFFECT_LABELS,
+  POST_EFFECTS,
+  PostEffectToggles,
+} from "../post-processing";
+import {
+  isThemePreference,
+  THEME_PREFERENCE_LABELS,
+  ThemePreference,
+} from "../theme";
+import { useRendererBackend } from "../renderer-backend-context";
+
+interface BoidTuningPanelProps {
+  config: BoidConfig;
+  onChange: (config: BoidConfig) => void;
+  quality: QualityLevel | null; // いま使っている品質の段階
+  qualityPin: QualityLevel | null;
+  onPinQuality: (level: QualityLevel | null) => void;
+  postEffects: PostEffectToggles;
+  onPostEffectsChange: (effects: PostEffectToggles) => void;
+  themePreference: ThemePreference;
+  onThemePreferenceChange: (preference: ThemePreference) => void;
+  animationStopped: boolean;
+  onAnimationStoppedChange: (stopped: boolean) => void;
+}
+
+const findActivePreset = (config: BoidConfig): BoidPresetName | "" => {
+  const serialized = serializeBoidConfig(config);
+  const match = (Object.keys(BOID_PRESETS) as BoidPresetName[]).find(
+    (name) => serializeBoidConfig(BOID_PRESETS[name].config) === serialized,
+  );
+  return match ?? "";
+};
+
+const BoidTuningPanel = ({
+  config,
+  onChange,
+  quality,
+  qualityPin,
+  onPinQuality,
+  postEffects,
+  onPostEffectsChange,
+  themePreference,
+  onThemePreferenceChange,
+  animationStopped,
+  onAnimationStoppedChange,
+}: BoidTuningPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  // コンピュートシェーダーが使えるまでは CPU の上限で匹数を選ばせる
+  const compute = useRendererBackend()?.capabilities.compute ?? false;
+
+  const updateParameter = (key: BoidNumericKey, value: number) => {
+    const candidate = { ...config, [key]: value };
+    // 範囲外や min > max は警告を出した上で丸めて適用
+    setErrors(validateBoidConfig(candidate));
+    onChange(sanitizeBoidConfig(candidate));
+  };
+
+  const updateSpeciesCount = (id: SpeciesId, count: number) => {
+    onChange(
+      sanitizeBoidConfig({
+        ...config,
+        speciesCounts: { ...config.speciesCounts, [id]: count },
+      }),
+    );
+  };
+
+  const applyPreset = (name: BoidPresetName) => {
+    setErrors([]);
+    onChange(sanitizeBoidConfig(BOID_PRESETS[name].config));
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-20 flex flex-col items-end gap-2 text-sm">
+      {isOpen && (
+        <div className="w-72 max-h-[70vh] overflow-y-auto touch-pan-y bg-black/50 backdrop-blur-sm border border-gray-600 rounded-lg p-3 space-y-3">
+          <label className="flex items-center justify-between gap-2">
+            <span>Preset</span>
+            <select
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+              value={findActivePreset(config)}
+              onChange={(e) => applyPreset(e.target.value as BoidPresetName)}
+            >
+              <option value="" disabled>
+                Custom
+              </option>
+              {(Object.keys(BOID_PRESETS) as BoidPresetName[]).map((name) => (
+                <option key={name} value={name}>
+                  {BOID_PRESETS[name].label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Theme</span>
+            <select
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+              value={themePreference}
+              onChange={(e) => {
+                if (isThemePreference(e.target.value)) {
+                  onThemePreferenceChange(e.target.value);
+                }
+              }}
+            >
+              {(Object.keys(THEME_PREFERENCE_LABELS) as ThemePreference[]).map(
+                (preference) => (
+                  <option key={preference} value={preference}>
+                    {THEME_PREFERENCE_LABELS[preference]}
+                  </option>
+                ),
+              )}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Quality</span>
+            <select
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+              value={qualityPin ?? "auto"}
+              onChange={(e) =>
+                onPinQuality(
+                  isQualityLevel(e.target.value) ? e.target.value : null,
+                )
+              }
+            >
+              <option value="auto">
+                Auto{quality && ` (${QUALITY_PRESETS[quality].label})`}
+              </option>
+              {QUALITY_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {QUALITY_PRESETS[level].label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="space-y-1">
+            <div className="text-gray-300">Effects</div>
+            {POST_EFFECTS.map((effect) => {
+              // いまの品質の段階では掛からない効果は薄く表示
+              const allowed =
+                !quality ||
+                QUALITY_PRESETS[quality].settings.postEffects.includes(effect);
+              return (
+                <label
+                  key={effect}
+                  className={`flex items-center gap-2 ${allowed ? "" : "text-gray-500"}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={postEffects[effect]}
+                    onChange={(e) =>
+                      onPostEffectsChange({
+                        ...postEffects,
+                        [effect]: e.target.checked,
+                      })
+                    }
+                  />
+                  <span>{POST_EFFECT_LABELS[effect]}</span>
+                </label>
+              );
+            })}
+          </div>
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Edges</span>
+            <select
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+              value={config.boundaryMode}
+              onChange={(e) => {
+                if (isBoundaryMode(e.target.value)) {
+                  onChange(
+                    sanitizeBoidConfig({
+                      ...config,
+                      boundaryMode: e.target.value,
+                    }),
+                  );
+                }
+              }}
+            >
+              {(Object.keys(BOUNDARY_MODES) as BoundaryMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {BOUNDARY_MODES[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {BOID_NUMERIC_KEYS.map((key) => {
+            const { label, min, max, step } =
+              key === "fishCount"
+                ? fishCountRange(compute)
+                : BOID_PARAMETER_RANGES[key];
+            return (
+              <label key={key} className="block">
+                <div className="flex justify-between text-gray-300">
+                  <span>{label}</span>
+                  <span>{config[key]}</span>
+                </div>
+                <input
+                  type="range"
+                  className="w-full"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={config[key]}
+                  onChange={(e) => updateParameter(key, Number(e.target.value))}
+                />
+              </label>
+            );
+          })}
+
+          {EXTRA_SPECIES_IDS.map((id) => {
+            const { min, max, step } = SPECIES_COUNT_RANGE;
+            const count = config.speciesCounts[id] ?? 0;
+            return (
+              <label key={id} className="block">
+                <div className="flex justify-between text-gray-300">
+                  <span>
+                    {SPECIES[id].label}
+                    {SPECIES[id].role === "predator" && " (predator)"}
+                  </span>
+                  <span>{count}</span>
+                </div>
+                <input
+                  type="range"
+                  className="w-full"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={count}
+                  onChange={(e) =>
+                    updateSpeciesCount(id, Number(e.target.value))
+                  }
+                />
+              </label>
+            );
+          })}
+
+          {errors.length > 0 && (
+            <ul className="text-yellow-400 text-xs space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              className="flex-1 px-3 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600"
+              onClick={copyLink}
+            >
+              {copied ? "Copied!" : "Copy link"}
+            </button>
+            <button
+              className="flex-1 px-3 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600"
+              onClick={() => {
+                setErrors([]);
+                onChange(DEFAULT_BOID_CONFIG);
+              }}
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {/* 開かなくても押せるよう、アニメーションの停止はパネルの外に置く */}
+        <button
+          className="bg-black/50 backdrop-blur-sm border border-gray-600 rounded-lg px-3 py-2 hover:border-gray-500"
+          onClick={() => onAnimationStoppedChange(!animationStopped)}
+          aria-pressed={animationStopped}
+        >
+          {animationStopped ? "▶️ Play" : "⏸️ Pause"}
+        </button>
+        <button
+          className="bg-black/50 backdrop-blur-sm border border-gray-600 rounded-lg px-3 py-2 hover:border-gray-500"
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}
+        >
+          🐟 {isOpen ? "Close" : "Tune"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BoidTuningPanel;
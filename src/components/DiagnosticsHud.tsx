@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from "react";
+import {
+  diagnosticsReport,
+  FrameSummary,
+  HeapUsage,
+  readHeapUsage,
+  SceneCounts,
+  SceneDiagnostics,
+} from "../diagnostics";
+import { QualityLevel } from "../quality-governor";
+import {
+  useRendererBackend,
+  useRendererIncident,
+} from "../renderer-backend-context";
+
+interface DiagnosticsHudProps {
+  diagnostics: SceneDiagnostics;
+  quality: QualityLevel | null;
+}
+
+interface HudSnapshot {
+  summary: FrameSummary;
+  frameTimes: number[];
+  counts: SceneCounts;
+  heap: HeapUsage | null;
+}
+
+const REFRESH_MS = 250;
+const GRAPH_WIDTH = 240;
+const GRAPH_HEIGHT = 48;
+const TARGET_FRAME_MS = 1000 / 60;
+
+const takeSnapshot = (diagnostics: SceneDiagnostics): HudSnapshot => ({
+  summary: diagnostics.frames.summary(),
+  frameTimes: diagnostics.frames.frameTimes,
+  counts: { ...diagnostics.counts },
+  heap: readHeapUsage(),
+});
+
+// フレーム時間の折れ線（点線は 60fps の線）
+const FrameTimeGraph = ({ frameTimes }: { frameTimes: number[] }) => {
+  const maxMs = Math.max(TARGET_FRAME_MS * 2, ...frameTimes);
+  const y = (ms: number) => GRAPH_HEIGHT - (ms / maxMs) * GRAPH_HEIGHT;
+  const step = GRAPH_WIDTH / Math.max(1, frameTimes.length - 1);
+  const points = frameTimes
+    .map((ms, index) => `${(index * step).toFixed(1)},${y(ms).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <svg
+      width={GRAPH_WIDTH}
+      height={GRAPH_HEIGHT}
+      className="bg-gray-900/60 rounded"
+      aria-label="Frame time graph"
+    >
+      <line
+        x1={0}
+        x2={GRAPH_WIDTH}
+        y1={y(TARGET_FRAME_MS)}
+        y2={y(TARGET_FRAME_MS)}
+        className="stroke-gray-500"
+        strokeDasharray="3 3"
+      />
+      <polyline
+        points={points}
+        fill="none"
+        className="stroke-green-400"
+        strokeWidth={1.5}
+      />
+    </svg>
+  );
+};
+
+const Row = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-400">{label}</span>
+    <span className="font-mono text-right">{value}</span>
+  </div>
+);
+
+const DiagnosticsHud = ({ diagnostics, quality }: DiagnosticsHudProps) => {
+  const backend = useRendererBackend();
+  const incident = useRendererIncident();
+  const [snapshot, setSnapshot] = useState(() => takeSnapshot(diagnostics));
+  const [copied, setCopied] = useState(false);
+
+  // 開いている間だけ数値を読み直す
+  useEffect(() => {
+    const timer = setInterval(
+      () => setSnapshot(takeSnapshot(diagnostics)),
+      REFRESH_MS,
+    );
+    return () => clearInterval(timer);
+  }, [diagnostics]);
+
+  const copyDiagnostics = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        diagnosticsReport({ diagnostics, backend, incident, quality }),
+      );
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy diagnostics:", error);
+    }
+  };
+
+  const { summary, frameTimes, counts, heap } = snapshot;
+  const capabilities = backend?.capabilities;
+
+  return (
+    <div className="w-64 bg-black/50 backdrop-blur-sm border border-gray-600 rounded-lg p-3 space-y-2 text-xs">
+      <div className="flex justify-between items-baseline">
+        <span className="text-lg font-mono">{summary.fps.toFixed(0)} fps</span>
+        <span className="font-mono text-gray-400">
+          {summary.frameMs.toFixed(1)} ms
+        </span>
+      </div>
+      <FrameTimeGraph frameTimes={frameTimes} />
+
+      <div className="space-y-0.5">
+        <Row
+          label="Simulation"
+          value={`${summary.simulationMs.toFixed(2)} ms`}
+        />
+        <Row label="Render" value={`${summary.renderMs.toFixed(2)} ms`} />
+        <Row label="Fish" value={counts.fish} />
+        <Row label="Particles" value={counts.particles} />
+        <Row label="Draw calls" value={counts.drawCalls} />
+        <Row label="Triangles" value={counts.triangles.toLocaleString()} />
+        {quality && <Row label="Quality" value={quality} />}
+        {heap && (
+          <Row label="JS heap" value={`${heap.usedMB} / ${heap.limitMB} MB`} />
+        )}
+      </div>
+
+      {backend && (
+        <div className="space-y-0.5 border-t border-gray-700 pt-2">
+          <Row label="Backend" value={backend.kind} />
+          {capabilities?.vendor && (
+            <Row label="Vendor" value={capabilities.vendor} />
+          )}
+          {capabilities?.architecture && (
+            <Row label="Architecture" value={capabilities.architecture} />
+          )}
+          {capabilities?.gpu && <Row label="GPU" value={capabilities.gpu} />}
+          <p className="text-gray-400 break-words">{backend.reason}</p>
+          {incident && (
+            <p className="text-gray-400 break-words">{incident.reason}</p>
+          )}
+        </div>
+      )}
+
+      <button
+        className="w-full px-3 py-1 bg-gray-800 hover:bg-gray-700 rounded border border-gray-600"
+        onClick={copyDiagnostics}
+      >
+        {copied ? "Copied!" : "Copy diagnostics"}
+      </button>
+    </div>
+  );
+};
+
+export default DiagnosticsHud;
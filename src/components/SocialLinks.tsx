@@ -4,6 +4,7 @@ const SocialLinks = () => {
   return (
     <div className="flex flex-col sm:flex-row gap-6 justify-center items-center">
       <a
+        data-fish-obstacle
         href="https://discord.com/users/00027322902642809"
         className="flex items-center gap-2 px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors duration-200 border border-gray-600 hover:border-gray-500"
         target="_blank"
@@ -16,6 +17,7 @@ const SocialLinks = () => {
       </a>
 
       <a
+        data-fish-obstacle
         href="https://github.com/jijinbei"
         className="flex items-center gap-2 px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors duration-200 border border-gray-600 hover:border-gray-500"
         target="_blank"
@@ -28,6 +30,7 @@ const SocialLinks = () => {
       </a>
 
       <a
+        data-fish-obstacle
         href="https://x.com/Hallucigeni"
         className="flex items-center gap-2 px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors duration-200 border border-gray-600 hover:border-gray-500"
         target="_blank"
@@ -40,6 +43,7 @@ const SocialLinks = () => {
       </a>
 
       <a
+        data-fish-obstacle
         href="https://www.quark.hiroshima-u.ac.jp/member/24nishizaki.html"
         className="flex items-center gap-2 px-6 py-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors duration-200 border border-gray-600 hover:border-gray-500"
         target="_blank"
@@ -1,156 +1,251 @@
-import React, { useEffect, useRef, useCallback } from "react";
-import * as THREE from "three";
-import { Fish, Star, Particle } from "../types";
-import { initializeStars, drawStars } from "../star-animation";
+import React, { useEffect, useRef } from "react";
 import {
-  loadFishModel,
-  initializeFish,
-  updateFishAnimation,
-} from "../fish-animation";
-import { initializeRenderer, setupScene } from "../renderer-setup";
-import { WebGPUParticleSystem } from "../webgpu-particle-system";
-
-const ThreeFishScene = () => {
+  FishScene,
+  FishSceneEvents,
+  FishSceneOptions,
+  SceneController,
+  SceneViewport,
+} from "../fish-scene";
+import {
+  getRendererOverride,
+  RendererBackendInfo,
+  watchDevicePixelRatio,
+} from "../renderer-setup";
+import { generateSeed, getSeedFromUrl } from "../random";
+import { BoidConfig } from "../boid-config";
+import { DomObstacleTracker, Obstacle } from "../obstacles";
+import { PointerGestures } from "../pointer-gestures";
+import { loadQuality, QualityLevel, saveQuality } from "../quality-governor";
+import { PostEffectToggles } from "../post-processing";
+import { ThemeId } from "../theme";
+import { SceneDiagnostics } from "../diagnostics";
+import { watchBattery, watchVisibility } from "../playback";
+import { RendererIncident } from "../renderer-recovery";
+import {
+  getSceneThreadOverride,
+  pickSceneThread,
+  supportsWorkerScene,
+  WorkerSceneClient,
+} from "../worker-scene-client";
+
+interface ThreeFishSceneProps {
+  config: BoidConfig;
+  qualityPin: QualityLevel | null; // null なら自動で調整
+  onQualityChange?: (level: QualityLevel) => void;
+  postEffects: PostEffectToggles; // 品質の段階が許すものだけ掛かる
+  themeId: ThemeId;
+  onBackendReady?: (backend: RendererBackendInfo) => void;
+  onIncident?: (incident: RendererIncident) => void; // レンダラーを失ったときと作り直したとき
+  diagnostics?: SceneDiagnostics; // 毎フレームの時間と描画数を書き込む
+  animationStopped: boolean; // 利用者がアニメーションを止めた
+  reducedMotion: boolean; // 動きを減らす設定なら穏やかに動かす
+}
+
+const currentViewport = (): SceneViewport => ({
+  width: window.innerWidth,
+  height: window.innerHeight,
+  devicePixelRatio: window.devicePixelRatio,
+});
+
+/**
+ * 魚のシーンを置く場所。OffscreenCanvas が使えればシーンをワーカーで動かし、
+ * 使えなければ（またはワーカーで始められなければ）メインスレッドで動かす。
+ * 画面の大きさ・ポインタ・障害物・見えているかはここで DOM から拾ってシーンに渡す。
+ */
+const ThreeFishScene = ({
+  config,
+  qualityPin,
+  onQualityChange,
+  postEffects,
+  themeId,
+  onBackendReady,
+  onIncident,
+  diagnostics,
+  animationStopped,
+  reducedMotion,
+}: ThreeFishSceneProps) => {
   const mountRef = useRef<HTMLDivElement>(null);
-  const sceneRef = useRef<THREE.Scene | undefined>(undefined);
-  const rendererRef = useRef<THREE.WebGLRenderer | any | undefined>(undefined);
-  const cameraRef = useRef<THREE.OrthographicCamera | undefined>(undefined);
-  const animationRef = useRef<number | undefined>(undefined);
-  const mouseRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-  const fishesRef = useRef<Fish[]>([]);
-  const fishModelRef = useRef<THREE.Group | undefined>(undefined);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const starsRef = useRef<Star[]>([]);
-  const particleSystemRef = useRef<WebGPUParticleSystem | undefined>(undefined);
-
-  const animate = useCallback(() => {
-    if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return;
-
-    drawStars(canvasRef.current, starsRef.current);
-
-    if (particleSystemRef.current) {
-      updateFishAnimation(
-        fishesRef.current,
-        mouseRef.current,
-        particleSystemRef.current,
-      );
-    }
-
-    if (particleSystemRef.current) {
-      particleSystemRef.current.update();
-    }
+  const controllerRef = useRef<SceneController | undefined>(undefined);
+  const configRef = useRef<BoidConfig>(config);
+  const qualityPinRef = useRef<QualityLevel | null>(qualityPin);
+  const postEffectsRef = useRef<PostEffectToggles>(postEffects);
+  const themeIdRef = useRef<ThemeId>(themeId);
+  const stoppedRef = useRef(animationStopped);
+  const reducedMotionRef = useRef(reducedMotion);
+  const visibleRef = useRef(true);
+  const lowPowerRef = useRef(false);
+  const obstaclesRef = useRef<Obstacle[]>([]);
+
+  const onQualityChangeRef = useRef(onQualityChange);
+  const onBackendReadyRef = useRef(onBackendReady);
+  const onIncidentRef = useRef(onIncident);
+  const diagnosticsRef = useRef(diagnostics);
+
+  onQualityChangeRef.current = onQualityChange;
+  onBackendReadyRef.current = onBackendReady;
+  onIncidentRef.current = onIncident;
+  diagnosticsRef.current = diagnostics;
+
+  // パネルからの設定変更をシーンに反映
+  useEffect(() => {
+    configRef.current = config;
+    controllerRef.current?.setConfig(config);
+  }, [config]);
 
-    rendererRef.current.render(sceneRef.current, cameraRef.current);
-    animationRef.current = requestAnimationFrame(animate);
-  }, []);
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+    controllerRef.current?.setReducedMotion(reducedMotion);
+  }, [reducedMotion]);
 
-  const initializeComponents = useCallback(async () => {
-    if (!mountRef.current) return;
-
-    // シーンとカメラのセットアップ
-    const { scene, camera } = setupScene();
-    sceneRef.current = scene;
-    cameraRef.current = camera;
-
-    // レンダラー初期化
-    const renderer = await initializeRenderer();
-    rendererRef.current = renderer;
-    mountRef.current.appendChild(renderer.domElement);
-
-    // 星空キャンバスの作成
-    const canvas = document.createElement("canvas");
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-    canvas.style.position = "absolute";
-    canvas.style.top = "0";
-    canvas.style.left = "0";
-    canvas.style.pointerEvents = "none";
-    canvas.style.zIndex = "0";
-    mountRef.current.appendChild(canvas);
-    canvasRef.current = canvas;
-
-    // 星とモデルの初期化
-    starsRef.current = initializeStars();
-
-    // WebGPUパーティクルシステムの初期化
-    particleSystemRef.current = new WebGPUParticleSystem(renderer);
-    particleSystemRef.current.initialize(scene);
-
-    const fishModel = await loadFishModel();
-    if (fishModel) {
-      fishModelRef.current = fishModel;
-      fishesRef.current = initializeFish(fishModel, scene);
-    }
+  useEffect(() => {
+    stoppedRef.current = animationStopped;
+    controllerRef.current?.setStopped(animationStopped);
+  }, [animationStopped]);
 
-    animationRef.current = requestAnimationFrame(animate);
-  }, [animate]);
+  useEffect(() => {
+    postEffectsRef.current = postEffects;
+    controllerRef.current?.setPostEffects(postEffects);
+  }, [postEffects]);
 
-  const setupEventListeners = useCallback(() => {
-    const handleResize = () => {
-      const width = window.innerWidth;
-      const height = window.innerHeight;
+  useEffect(() => {
+    themeIdRef.current = themeId;
+    controllerRef.current?.setTheme(themeId);
+  }, [themeId]);
 
-      if (cameraRef.current) {
-        cameraRef.current.left = width / -2;
-        cameraRef.current.right = width / 2;
-        cameraRef.current.top = height / 2;
-        cameraRef.current.bottom = height / -2;
-        cameraRef.current.updateProjectionMatrix();
-      }
+  useEffect(() => {
+    qualityPinRef.current = qualityPin;
+    controllerRef.current?.setQualityPin(qualityPin);
+  }, [qualityPin]);
 
-      if (rendererRef.current) {
-        rendererRef.current.setSize(width, height);
-      }
+  useEffect(() => {
+    const mount = mountRef.current;
+    if (!mount) return;
+
+    // 乱数シードの決定（?seed=42 で再現可能）。メインスレッドに戻しても同じ群れにする
+    const seed = getSeedFromUrl() ?? generateSeed();
+    console.log("🎲 Random seed:", seed);
+
+    // いまの props から始める（ワーカーから戻すときもその時点の値を使う）
+    const sceneOptions = (): FishSceneOptions => ({
+      seed,
+      preferred: getRendererOverride(),
+      // 前回落ち着いた段階から始める
+      initialQuality: loadQuality().level ?? "high",
+      qualityPin: qualityPinRef.current,
+      config: configRef.current,
+      postEffects: postEffectsRef.current,
+      themeId: themeIdRef.current,
+      reducedMotion: reducedMotionRef.current,
+      stopped: stoppedRef.current,
+      viewport: currentViewport(),
+    });
+
+    const events: FishSceneEvents = {
+      onQualityChange: (level, pinned) => {
+        if (!pinned) saveQuality({ ...loadQuality(), level });
+        onQualityChangeRef.current?.(level);
+      },
+      onBackendReady: (backend) => onBackendReadyRef.current?.(backend),
+      onIncident: (incident) => onIncidentRef.current?.(incident),
+      diagnostics: {
+        recordFrame: (timing, counts) =>
+          diagnosticsRef.current?.recordFrame(timing, counts),
+      },
+    };
 
-      if (canvasRef.current) {
-        canvasRef.current.width = width;
-        canvasRef.current.height = height;
-      }
+    // options に入らない、DOM から拾った状態を渡し直す
+    const use = (controller: SceneController) => {
+      controllerRef.current = controller;
+      controller.setVisible(visibleRef.current);
+      controller.setLowPower(lowPowerRef.current);
+      controller.setObstacles(obstaclesRef.current);
     };
 
-    const handleMouseMove = (e: MouseEvent) => {
-      mouseRef.current = { x: e.clientX, y: e.clientY };
+    const startOnMainThread = () => {
+      const scene = new FishScene(sceneOptions(), events, {
+        // レンダラーにキャンバスを作らせる
+        createCanvas: async () => undefined,
+        showCanvas: (canvas) => {
+          if (canvas instanceof HTMLCanvasElement) mount.appendChild(canvas);
+        },
+        removeCanvas: (canvas) => {
+          if (canvas instanceof HTMLCanvasElement) canvas.remove();
+        },
+      });
+      use(scene);
+      scene.start();
     };
 
+    const thread = pickSceneThread(
+      getSceneThreadOverride(),
+      supportsWorkerScene(),
+    );
+    if (thread === "worker") {
+      try {
+        use(
+          new WorkerSceneClient(
+            mount,
+            sceneOptions(),
+            events,
+            startOnMainThread,
+          ),
+        );
+        console.log("🧵 Running the scene in a worker");
+      } catch (error) {
+        console.warn("⚠️ Could not start the scene worker:", error);
+        startOnMainThread();
+      }
+    } else {
+      startOnMainThread();
+    }
+
+    const handleResize = () => controllerRef.current?.resize(currentViewport());
     window.addEventListener("resize", handleResize);
-    document.addEventListener("mousemove", handleMouseMove);
+    const unwatchPixelRatio = watchDevicePixelRatio(handleResize);
+
+    // ホバーで引き寄せ、ドラッグで水流、タップで衝撃波ときらめき
+    const gestures = new PointerGestures(document, {
+      onHover: (point) => controllerRef.current?.hover(point),
+      onDrag: (point, delta) => controllerRef.current?.drag(point, delta),
+      onTap: (point) => controllerRef.current?.tap(point),
+    });
+    gestures.attach();
+
+    // タイトルやリンクのボタンを障害物として追跡
+    const obstacleTracker = new DomObstacleTracker(document, (obstacles) => {
+      obstaclesRef.current = obstacles;
+      controllerRef.current?.setObstacles(obstacles);
+    });
+    obstacleTracker.start();
+
+    // タブが裏に回ったり画面外に出たりしたら止める
+    const unwatchVisibility = watchVisibility(mount, (visible) => {
+      visibleRef.current = visible;
+      controllerRef.current?.setVisible(visible);
+    });
+    // 電池が少ないときはフレームレートを落とす
+    const unwatchBattery = watchBattery((lowPower) => {
+      lowPowerRef.current = lowPower;
+      controllerRef.current?.setLowPower(lowPower);
+    });
 
     return () => {
       window.removeEventListener("resize", handleResize);
-      document.removeEventListener("mousemove", handleMouseMove);
+      unwatchPixelRatio();
+      gestures.detach();
+      obstacleTracker.dispose();
+      unwatchVisibility();
+      unwatchBattery();
+      controllerRef.current?.dispose();
+      controllerRef.current = undefined;
     };
   }, []);
 
-  useEffect(() => {
-    const cleanup = setupEventListeners();
-    initializeComponents();
-
-    return () => {
-      cleanup();
-
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-
-      if (mountRef.current && rendererRef.current?.domElement) {
-        mountRef.current.removeChild(rendererRef.current.domElement);
-      }
-      if (mountRef.current && canvasRef.current) {
-        mountRef.current.removeChild(canvasRef.current);
-      }
-
-      if (particleSystemRef.current) {
-        particleSystemRef.current.dispose();
-      }
-
-      rendererRef.current?.dispose();
-    };
-  }, [initializeComponents, setupEventListeners]);
-
+  // ドラッグとタップを受ける面。スクロールやピンチで拡大する操作はここでだけ止める
   return (
     <div
       ref={mountRef}
-      className="absolute inset-0 pointer-events-none"
+      className="absolute inset-0 touch-none"
       style={{ zIndex: 1 }}
     />
   );
@@ -1,22 +1,93 @@
-import React, { useState, useEffect } from "react";
-import { checkWebGPUSupport } from "../webgpu-utils";
+import React, { useEffect, useState } from "react";
+import {
+  useRendererBackend,
+  useRendererIncident,
+} from "../renderer-backend-context";
+import type { RendererIncident } from "../renderer-recovery";
+import type { BackendKind, RendererBackendInfo } from "../renderer-setup";
+import { SceneDiagnostics } from "../diagnostics";
+import { QualityLevel } from "../quality-governor";
+import DiagnosticsHud from "./DiagnosticsHud";
 
-const WebGPUStatusIndicator = () => {
-  const [webgpuStatus, setWebgpuStatus] = useState<string>("Checking...");
+interface WebGPUStatusIndicatorProps {
+  diagnostics: SceneDiagnostics;
+  quality: QualityLevel | null;
+}
 
+const HUD_KEY = "d";
+
+// 入力欄で文字を打っているときはショートカットにしない
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName));
+
+const BACKEND_LABELS: Record<BackendKind, string> = {
+  webgpu: "WebGPU",
+  webgl: "WebGL",
+};
+
+// レンダラーを失ってからの様子を短く表す
+const incidentLabel = (
+  { lost, status, count }: RendererIncident,
+  backend: RendererBackendInfo | null,
+) => {
+  if (status === "recovering")
+    return `♻️ Recovering ${BACKEND_LABELS[lost]}...`;
+  if (status === "failed" || !backend) return "❌ Renderer lost";
+  return backend.kind === lost
+    ? `♻️ ${BACKEND_LABELS[lost]} Recovered ×${count}`
+    : `⚙️ WebGL Fallback (WebGPU lost ×${count})`;
+};
+
+const WebGPUStatusIndicator = ({
+  diagnostics,
+  quality,
+}: WebGPUStatusIndicatorProps) => {
+  const backend = useRendererBackend();
+  const incident = useRendererIncident();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // D キーでも診断の HUD を開け閉めする
   useEffect(() => {
-    checkWebGPUSupport().then((support) => {
-      if (support.supported) {
-        setWebgpuStatus("🚀 WebGPU Active");
-      } else {
-        setWebgpuStatus("⚙️ WebGL Fallback");
-      }
-    });
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== HUD_KEY || isTyping(event.target)) return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      setIsOpen((open) => !open);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
+  const label = incident
+    ? incidentLabel(incident, backend)
+    : !backend
+      ? "Checking..."
+      : backend.kind === "webgpu"
+        ? "🚀 WebGPU Active"
+        : "⚙️ WebGL Fallback";
+
   return (
-    <div className="fixed top-4 right-4 z-20 bg-black/50 backdrop-blur-sm border border-gray-600 rounded-lg px-3 py-2 text-sm">
-      {webgpuStatus}
+    <div className="fixed top-4 right-4 z-20 flex flex-col items-end gap-2 text-sm">
+      <button
+        className={`bg-black/50 backdrop-blur-sm border rounded-lg px-3 py-2 hover:border-gray-500 ${
+          incident?.status === "failed" ? "border-red-500" : "border-gray-600"
+        }`}
+        title={
+          backend
+            ? [incident?.reason, backend.reason, backend.capabilities.gpu]
+                .filter(Boolean)
+                .join("\n")
+            : undefined
+        }
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        aria-keyshortcuts={HUD_KEY.toUpperCase()}
+      >
+        {label}
+        {backend?.forced && <span className="text-gray-400"> (forced)</span>}
+      </button>
+      {isOpen && <DiagnosticsHud diagnostics={diagnostics} quality={quality} />}
     </div>
   );
 };
@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import {
+  diagnosticsReport,
+  DiagnosticsRelay,
+  FrameStats,
+  readHeapUsage,
+  SceneDiagnostics,
+} from "./diagnostics";
+
+const frame = (frameMs: number) => ({
+  frameMs,
+  simulationMs: frameMs / 4,
+  renderMs: frameMs / 2,
+});
+
+describe("FrameStats", () => {
+  test("averages the recorded frames", () => {
+    const stats = new FrameStats();
+    expect(stats.summary().fps).toBe(0);
+    stats.record(frame(10));
+    stats.record(frame(30));
+    expect(stats.summary()).toEqual({
+      fps: 50,
+      frameMs: 20,
+      simulationMs: 5,
+      renderMs: 10,
+    });
+  });
+
+  test("keeps only the latest frames, oldest first", () => {
+    const stats = new FrameStats(3);
+    [1, 2, 3, 4, 5].forEach((ms) => stats.record(frame(ms)));
+    expect(stats.frameTimes).toEqual([3, 4, 5]);
+    expect(stats.summary().frameMs).toBe(4);
+  });
+});
+
+describe("DiagnosticsRelay", () => {
+  const counts = { fish: 12, particles: 40, drawCalls: 6, triangles: 900 };
+
+  test("batches frames until flushed", () => {
+    const relay = new DiagnosticsRelay();
+    expect(relay.flush()).toBeNull();
+    relay.recordFrame(frame(16), counts);
+    relay.recordFrame(frame(20), { ...counts, fish: 10 });
+    expect(relay.flush()).toEqual({
+      timings: [frame(16), frame(20)],
+      counts: { ...counts, fish: 10 },
+    });
+    expect(relay.flush()).toBeNull();
+  });
+
+  test("replays into SceneDiagnostics like frames recorded locally", () => {
+    const relay = new DiagnosticsRelay();
+    const diagnostics = new SceneDiagnostics();
+    relay.recordFrame(frame(10), counts);
+    relay.recordFrame(frame(30), counts);
+    const batch = relay.flush()!;
+    batch.timings.forEach((timing) =>
+      diagnostics.recordFrame(timing, batch.counts),
+    );
+    expect(diagnostics.frames.summary().frameMs).toBe(20);
+    expect(diagnostics.counts).toEqual(counts);
+  });
+});
+
+describe("readHeapUsage", () => {
+  test("reports the heap in megabytes where the browser exposes it", () => {
+    expect(
+      readHeapUsage({
+        memory: {
+          usedJSHeapSize: 50 * 1024 * 1024,
+          totalJSHeapSize: 64 * 1024 * 1024,
+          jsHeapSizeLimit: 4096 * 1024 * 1024,
+        },
+      } as unknown as Performance),
+    ).toEqual({ usedMB: 50, totalMB: 64, limitMB: 4096 });
+    expect(readHeapUsage({} as Performance)).toBeNull();
+  });
+});
+
+describe("diagnosticsReport", () => {
+  test("produces JSON with the frame summary and counts", () => {
+    const diagnostics = new SceneDiagnostics();
+    diagnostics.recordFrame(frame(16), {
+      fish: 120,
+      particles: 300,
+      drawCalls: 12,
+      triangles: 4000,
+    });
+    const report = JSON.parse(
+      diagnosticsReport({
+        diagnostics,
+        backend: null,
+        incident: null,
+        quality: "high",
+      }),
+    );
+    expect(report.frame).toEqual({
+      fps: 62.5,
+      frameMs: 16,
+      simulationMs: 4,
+      renderMs: 8,
+    });
+    expect(report.counts).toEqual({
+      fish: 120,
+      particles: 300,
+      drawCalls: 12,
+      triangles: 4000,
+    });
+    expect(report.quality).toBe("high");
+    expect(report.backend).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+import type { QualityLevel } from "./quality-governor";
+import type { RendererIncident } from "./renderer-recovery";
+import type { RendererBackendInfo, SceneRenderer } from "./renderer-setup";
+
+/**
+ * 性能と環境の診断情報。シーンが毎フレーム書き込み、
+ * HUD が開いている間だけ読みに行く（React の state は毎フレーム更新しない）。
+ */
+
+export interface FrameTiming {
+  frameMs: number; // 前のフレームからの時間
+  simulationMs: number; // シミュレーションのステップにかかった CPU 時間
+  renderMs: number; // 描画の命令を出すのにかかった CPU 時間
+}
+
+export interface FrameSummary extends FrameTiming {
+  fps: number;
+}
+
+// 直近のフレーム時間を輪状のバッファに溜める
+export class FrameStats {
+  private readonly timings: FrameTiming[] = [];
+  private next = 0;
+
+  constructor(readonly capacity: number = 120) {}
+
+  record(timing: FrameTiming): void {
+    if (this.timings.length < this.capacity) {
+      this.timings.push({ ...timing });
+    } else {
+      Object.assign(this.timings[this.next], timing);
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  // 古い順のフレーム時間（グラフ用）
+  get frameTimes(): number[] {
+    const ordered =
+      this.timings.length < this.capacity
+        ? this.timings
+        : [
+            ...this.timings.slice(this.next),
+            ...this.timings.slice(0, this.next),
+          ];
+    return ordered.map(({ frameMs }) => frameMs);
+  }
+
+  // 溜まっているフレームの平均
+  summary(): FrameSummary {
+    const count = this.timings.length;
+    const total = { frameMs: 0, simulationMs: 0, renderMs: 0 };
+    this.timings.forEach((timing) => {
+      total.frameMs += timing.frameMs;
+      total.simulationMs += timing.simulationMs;
+      total.renderMs += timing.renderMs;
+    });
+    const average = (sum: number) => (count > 0 ? sum / count : 0);
+    const frameMs = average(total.frameMs);
+    return {
+      fps: frameMs > 0 ? 1000 / frameMs : 0,
+      frameMs,
+      simulationMs: average(total.simulationMs),
+      renderMs: average(total.renderMs),
+    };
+  }
+}
+
+export interface SceneCounts {
+  fish: number;
+  particles: number;
+  drawCalls: number; // 後処理のパスも含めた1フレーム分
+  triangles: number;
+}
+
+// シーンがフレームごとに書き込む先
+export interface DiagnosticsSink {
+  recordFrame(timing: FrameTiming, counts: SceneCounts): void;
+}
+
+export class SceneDiagnostics implements DiagnosticsSink {
+  readonly frames = new FrameStats();
+  readonly counts: SceneCounts = {
+    fish: 0,
+    particles: 0,
+    drawCalls: 0,
+    triangles: 0,
+  };
+
+  recordFrame(timing: FrameTiming, counts: SceneCounts): void {
+    this.frames.record(timing);
+    Object.assign(this.counts, counts);
+  }
+}
+
+export interface FrameBatch {
+  timings: FrameTiming[];
+  counts: SceneCounts;
+}
+
+// ワーカーで書き込まれたフレームを溜め、まとめてメインスレッドに送るためのもの
+export class DiagnosticsRelay implements DiagnosticsSink {
+  private timings: FrameTiming[] = [];
+  private counts: SceneCounts | null = null;
+
+  recordFrame(timing: FrameTiming, counts: SceneCounts): void {
+    this.timings.push({ ...timing });
+    this.counts = { ...counts };
+  }
+
+  // 前回から溜まった分を取り出す（無ければ null）
+  flush(): FrameBatch | null {
+    if (!this.counts || this.timings.length === 0) return null;
+    const batch = { timings: this.timings, counts: this.counts };
+    this.timings = [];
+    return batch;
+  }
+}
+
+// レンダラーの info から1フレーム分の描画数を読む（info.autoReset を切って毎フレーム reset する前提）
+export const renderStats = (
+  renderer: SceneRenderer,
+): Pick<SceneCounts, "drawCalls" | "triangles"> => {
+  const { render } = renderer.info;
+  return {
+    drawCalls: "drawCalls" in render ? render.drawCalls : render.calls,
+    triangles: render.triangles,
+  };
+};
+
+export interface HeapUsage {
+  usedMB: number;
+  totalMB: number;
+  limitMB: number;
+}
+
+// performance.memory は Chromium 系にしか無い
+type PerformanceWithMemory = Performance & {
+  memory?: {
+    usedJSHeapSize: number;
+    totalJSHeapSize: number;
+    jsHeapSizeLimit: number;
+  };
+};
+
+const toMB = (bytes: number) => Math.round((bytes / 1024 / 1024) * 10) / 10;
+
+export const readHeapUsage = (
+  performance: PerformanceWithMemory | undefined = globalThis.performance,
+): HeapUsage | null => {
+  const memory = performance?.memory;
+  if (!memory) return null;
+  return {
+    usedMB: toMB(memory.usedJSHeapSize),
+    totalMB: toMB(memory.totalJSHeapSize),
+    limitMB: toMB(memory.jsHeapSizeLimit),
+  };
+};
+
+export interface DiagnosticsContext {
+  diagnostics: SceneDiagnostics;
+  backend: RendererBackendInfo | null;
+  incident: RendererIncident | null;
+  quality: QualityLevel | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// 不具合の報告に貼る JSON（レンダラーのオブジェクトは含めない）
+export const diagnosticsReport = ({
+  diagnostics,
+  backend,
+  incident,
+  quality,
+}: DiagnosticsContext): string => {
+  const { fps, frameMs, simulationMs, renderMs } = diagnostics.frames.summary();
+  return JSON.stringify(
+    {
+      timestamp: new Date().toISOString(),
+      url: globalThis.location?.href ?? null,
+      userAgent: globalThis.navigator?.userAgent ?? null,
+      viewport: globalThis.innerWidth
+        ? {
+            width: globalThis.innerWidth,
+            height: globalThis.innerHeight,
+            devicePixelRatio: globalThis.devicePixelRatio,
+          }
+        : null,
+      frame: {
+        fps: round(fps),
+        frameMs: round(frameMs),
+        simulationMs: round(simulationMs),
+        renderMs: round(renderMs),
+      },
+      counts: diagnostics.counts,
+      quality,
+      backend: backend && {
+        kind: backend.kind,
+        reason: backend.reason,
+        forced: backend.forced,
+        capabilities: backend.capabilities,
+      },
+      incident,
+      heap: readHeapUsage(),
+    },
+    null,
+    2,
+  );
+};
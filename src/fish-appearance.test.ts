@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import {
+  patternColors,
+  patternShade,
+  randomAppearance,
+  SpeciesAppearance,
+} from "./fish-appearance";
+import { random } from "./random";
+
+const speciesAppearance: SpeciesAppearance = {
+  palette: [new THREE.Color(1, 0.5, 0), new THREE.Color(0, 0.5, 1)],
+  lightnessJitter: 0,
+  patterns: ["stripes"],
+  sizeVariance: 0.2,
+};
+
+beforeEach(() => {
+  random.reseed(3);
+});
+
+describe("randomAppearance", () => {
+  test("picks colors from the palette and sizes within the variance", () => {
+    for (let i = 0; i < 50; i++) {
+      const { color, appearance } = randomAppearance(speciesAppearance);
+      expect(
+        speciesAppearance.palette.some(
+          (entry) => entry.getHexString() === color.getHexString(),
+        ),
+      ).toBe(true);
+      expect(appearance.pattern).toBe("stripes");
+      expect(appearance.size).toBeGreaterThanOrEqual(0.8);
+      expect(appearance.size).toBeLessThanOrEqual(1.2);
+    }
+  });
+
+  test("does not share color instances with the palette", () => {
+    const { color } = randomAppearance(speciesAppearance);
+    expect(speciesAppearance.palette).not.toContain(color);
+  });
+});
+
+describe("patternShade", () => {
+  test("solid fish are evenly lit", () => {
+    expect(patternShade("solid", 0.3, 0.7)).toBe(1);
+  });
+
+  test("stripes alternate from head to tail", () => {
+    expect(patternShade("stripes", 0.05, 0.5)).toBe(1);
+    expect(patternShade("stripes", 0.18, 0.5)).toBeLessThan(1);
+    expect(patternShade("stripes", 0.3, 0.5)).toBe(1);
+  });
+
+  test("gradients darken toward the tail", () => {
+    expect(patternShade("gradient", 0, 1)).toBe(1);
+    expect(patternShade("gradient", 1, 1)).toBeLessThan(
+      patternShade("gradient", 0.5, 1),
+    );
+  });
+});
+
+describe("patternColors", () => {
+  test("bakes the pattern into per-vertex shades", () => {
+    const geometry = new THREE.BoxGeometry(10, 2, 2, 8, 1, 1);
+    const colors = patternColors(geometry, "gradient");
+    const position = geometry.getAttribute("position");
+    expect(colors.count).toBe(position.count);
+
+    for (let i = 0; i < position.count; i++) {
+      if (position.getX(i) === 5) expect(colors.getX(i)).toBe(1);
+      if (position.getX(i) === -5) expect(colors.getX(i)).toBeLessThan(1);
+    }
+  });
+});
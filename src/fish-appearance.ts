@@ -0,0 +1,94 @@
+import * as THREE from "three";
+import { random } from "./random";
+
+/**
+ * 魚ごとの見た目（色・模様・大きさ）。
+ * 模様は頂点カラーの濃淡として持ち、魚の色（Fish.color）と掛け合わせて描く。
+ */
+
+export type FishPattern = "solid" | "stripes" | "gradient";
+
+export interface FishAppearance {
+  pattern: FishPattern;
+  size: number; // 種の基本スケールに掛ける倍率
+}
+
+// 種ごとの色と模様の候補
+export interface SpeciesAppearance {
+  palette: THREE.Color[];
+  lightnessJitter: number; // 同じ色でも少しずつ明るさを変える
+  patterns: FishPattern[];
+  sizeVariance: number; // 大きさのばらつき（±）
+}
+
+const STRIPE_COUNT = 4;
+const STRIPE_SHADE = 0.45; // 縞の暗い部分の明るさ
+const GRADIENT_TAIL_SHADE = 0.4; // グラデーションの尾側の明るさ
+
+const hsl = { h: 0, s: 0, l: 0 };
+
+// 種の候補から色・模様・大きさを選ぶ
+export const randomAppearance = (
+  appearance: SpeciesAppearance,
+): { color: THREE.Color; appearance: FishAppearance } => {
+  const color = random.pick(appearance.palette).clone();
+  color.getHSL(hsl);
+  color.setHSL(
+    hsl.h,
+    hsl.s,
+    Math.min(1, Math.max(0, hsl.l + random.spread(appearance.lightnessJitter))),
+  );
+
+  return {
+    color,
+    appearance: {
+      pattern: random.pick(appearance.patterns),
+      size: 1 + random.spread(appearance.sizeVariance * 2),
+    },
+  };
+};
+
+/**
+ * 模様の濃淡（0〜1）。
+ * t は頭(0)から尾(1)、v は腹(0)から背(1)までの位置。
+ */
+export const patternShade = (
+  pattern: FishPattern,
+  t: number,
+  v: number,
+): number => {
+  switch (pattern) {
+    case "stripes":
+      return Math.floor(t * STRIPE_COUNT * 2) % 2 === 1 ? STRIPE_SHADE : 1;
+    case "gradient":
+      // 背中側ほど尾に向かって暗くなる
+      return 1 - (1 - GRADIENT_TAIL_SHADE) * t * (0.5 + v * 0.5);
+    case "solid":
+      return 1;
+  }
+};
+
+// 模様を頂点カラーとして焼き込む（+X が頭、+Y が背）
+export const patternColors = (
+  geometry: THREE.BufferGeometry,
+  pattern: FishPattern,
+): THREE.BufferAttribute => {
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const { min, max } = geometry.boundingBox!;
+  const length = max.x - min.x || 1;
+  const height = max.y - min.y || 1;
+
+  const position = geometry.getAttribute("position");
+  const colors = new Float32Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    const shade = patternShade(
+      pattern,
+      (max.x - position.getX(i)) / length,
+      (position.getY(i) - min.y) / height,
+    );
+    colors[i * 3] = shade;
+    colors[i * 3 + 1] = shade;
+    colors[i * 3 + 2] = shade;
+  }
+  return new THREE.BufferAttribute(colors, 3);
+};
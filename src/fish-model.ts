@@ -0,0 +1,66 @@
+import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import fishModelUrl from "./fish.glb";
+import { getSpecies, SpeciesId, SPECIES_IDS } from "./species";
+
+export const loadFishModel = async (
+  url: string = fishModelUrl,
+): Promise<THREE.Group | null> => {
+  const loader = new GLTFLoader();
+  try {
+    const gltf = await loader.loadAsync(url);
+    const fishModel = gltf.scene;
+    fishModel.scale.set(100, 100, 100);
+    // 泳ぎのアニメーションに使うのでクリップを残しておく
+    fishModel.animations = gltf.animations;
+    return fishModel;
+  } catch (error) {
+    console.error("Error loading fish model:", error);
+    return null;
+  }
+};
+
+// 種ごとのモデルを読み込む（同じURLは1回だけ、失敗した種は基本モデルで代用）
+export const loadSpeciesModels = async (): Promise<Map<
+  SpeciesId,
+  THREE.Group
+> | null> => {
+  const baseModel = await loadFishModel();
+  if (!baseModel) return null;
+
+  const modelsByUrl = new Map<string, THREE.Group | null>([
+    [fishModelUrl, baseModel],
+  ]);
+  const models = new Map<SpeciesId, THREE.Group>();
+
+  for (const id of SPECIES_IDS) {
+    const url = getSpecies(id).modelUrl ?? fishModelUrl;
+    if (!modelsByUrl.has(url)) {
+      modelsByUrl.set(url, await loadFishModel(url));
+    }
+    models.set(id, modelsByUrl.get(url) ?? baseModel);
+  }
+
+  return models;
+};
+
+// 読み込んだモデルのジオメトリ・マテリアル・テクスチャを解放する
+export const disposeFishModels = (
+  models: Map<SpeciesId, THREE.Group>,
+): void => {
+  new Set(models.values()).forEach((model) =>
+    model.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) return;
+      object.geometry.dispose();
+      const materials = Array.isArray(object.material)
+        ? object.material
+        : [object.material];
+      materials.forEach((material) => {
+        Object.values(material).forEach((value) => {
+          if (value instanceof THREE.Texture) value.dispose();
+        });
+        material.dispose();
+      });
+    }),
+  );
+};
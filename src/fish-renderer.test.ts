@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { FishRenderer } from "./fish-renderer";
+import { createFishSchool } from "./simulation";
+import { DEFAULT_BOID_CONFIG } from "./boid-config";
+import { random } from "./random";
+import { SpeciesId, SPECIES_IDS } from "./species";
+
+const createModels = () => {
+  const model = new THREE.Group();
+  model.add(
+    new THREE.Mesh(
+      new THREE.BoxGeometry(10, 2, 2, 4, 1, 1),
+      new THREE.MeshStandardMaterial(),
+    ),
+  );
+  return new Map<SpeciesId, THREE.Group>(SPECIES_IDS.map((id) => [id, model]));
+};
+
+const instanceCount = (scene: THREE.Scene) =>
+  scene.children
+    .filter(
+      (child): child is THREE.InstancedMesh =>
+        child instanceof THREE.InstancedMesh,
+    )
+    .reduce((sum, mesh) => sum + (mesh.visible ? mesh.count : 0), 0);
+
+beforeEach(() => {
+  random.reseed(5);
+});
+
+describe("FishRenderer", () => {
+  test("draws every fish as an instance", () => {
+    const scene = new THREE.Scene();
+    const renderer = new FishRenderer(createModels(), scene);
+    const fishes = createFishSchool({ ...DEFAULT_BOID_CONFIG, fishCount: 40 });
+
+    renderer.sync(fishes, 1);
+    expect(instanceCount(scene)).toBe(fishes.length);
+  });
+
+  test("keeps the number of draws bounded as the school grows", () => {
+    const scene = new THREE.Scene();
+    const renderer = new FishRenderer(createModels(), scene);
+
+    renderer.sync(
+      createFishSchool({ ...DEFAULT_BOID_CONFIG, fishCount: 1000 }),
+      1,
+    );
+    const manyFishDraws = renderer.drawCount;
+
+    // 種×模様×サブメッシュ×ポーズ の数を超えない
+    expect(manyFishDraws).toBeLessThanOrEqual(7 * 24);
+    expect(manyFishDraws).toBeLessThan(100);
+  });
+
+  test("tints instances with each fish's color", () => {
+    const scene = new THREE.Scene();
+    const renderer = new FishRenderer(createModels(), scene);
+    const fishes = createFishSchool({
+      ...DEFAULT_BOID_CONFIG,
+      fishCount: 1,
+      speciesCounts: {},
+    });
+    renderer.sync(fishes, 1);
+
+    const mesh = scene.children.find(
+      (child): child is THREE.InstancedMesh =>
+        child instanceof THREE.InstancedMesh && child.visible,
+    )!;
+    const color = new THREE.Color();
+    mesh.getColorAt(0, color);
+    expect(color.r).toBeCloseTo(fishes[0].color.r);
+    expect(color.g).toBeCloseTo(fishes[0].color.g);
+    expect(color.b).toBeCloseTo(fishes[0].color.b);
+  });
+
+  test("fades new fish in from the theme's fade color", () => {
+    const scene = new THREE.Scene();
+    const renderer = new FishRenderer(createModels(), scene);
+    const fishes = createFishSchool({
+      ...DEFAULT_BOID_CONFIG,
+      fishCount: 1,
+      speciesCounts: {},
+    });
+    const fade = new THREE.Color(0.2, 0.5, 0.7);
+    renderer.setFadeColor(fade);
+    fishes[0].opacity = 0;
+    renderer.sync(fishes, 1);
+
+    const mesh = scene.children.find(
+      (child): child is THREE.InstancedMesh =>
+        child instanceof THREE.InstancedMesh && child.visible,
+    )!;
+    const color = new THREE.Color();
+    mesh.getColorAt(0, color);
+    expect(color.r).toBeCloseTo(fade.r);
+    expect(color.g).toBeCloseTo(fade.g);
+    expect(color.b).toBeCloseTo(fade.b);
+  });
+
+  test("removes and frees everything it created on dispose", () => {
+    const scene = new THREE.Scene();
+    const renderer = new FishRenderer(createModels(), scene);
+    renderer.sync(createFishSchool(), 1);
+
+    const meshes = scene.children.filter(
+      (child): child is THREE.InstancedMesh =>
+        child instanceof THREE.InstancedMesh,
+    );
+    let disposed = 0;
+    meshes.forEach((mesh) =>
+      mesh.addEventListener("dispose", () => disposed++),
+    );
+
+    renderer.dispose();
+    expect(scene.children).toHaveLength(0);
+    expect(disposed).toBe(meshes.length);
+  });
+});
@@ -0,0 +1,322 @@
+import * as THREE from "three";
+import { Fish } from "./types";
+import { getSpecies, SpeciesId } from "./species";
+import {
+  advanceSwimPhase,
+  bakeSwimParts,
+  bankingRoll,
+  headingChange,
+  SwimPart,
+  swimPhaseOffset,
+  swimPoseIndex,
+} from "./swim-animation";
+import { FishPattern, patternColors } from "./fish-appearance";
+
+// 魚1匹分の描画状態
+interface FishState {
+  phase: number; // 泳ぎの周期の位相（0〜1）
+  heading: THREE.Vector3; // 前フレームの進行方向（旋回の検出用）
+  roll: number;
+  orientation: THREE.Quaternion; // 止まっている間は最後の向きを保つ
+}
+
+// 種と模様が同じ魚をまとめて描く、サブメッシュごと・ポーズごとのインスタンスメッシュ
+interface FishBatch {
+  capacity: number;
+  parts: {
+    part: SwimPart;
+    material: THREE.Material | THREE.Material[];
+    geometries: THREE.BufferGeometry[]; // ポーズごと
+    meshes: THREE.InstancedMesh[]; // ポーズごと
+  }[];
+}
+
+const MIN_CAPACITY = 16;
+
+const direction = new THREE.Vector3();
+const lookTarget = new THREE.Vector3();
+const placement = new THREE.Object3D();
+const instanceMatrix = new THREE.Matrix4();
+const instanceColor = new THREE.Color();
+
+/**
+ * シミュレーションの魚の状態をインスタンス描画に反映するアダプタ。
+ * 種・模様・サブメッシュ・泳ぎのポーズごとに InstancedMesh を1つ持ち、
+ * 毎フレーム各魚の行列と色を今のポーズのメッシュに書き込む。
+ * 描画回数は匹数に依存しない（WebGPU・WebGL どちらのレンダラーでも同じ）。
+ */
+export class FishRenderer {
+  private readonly models: Map<SpeciesId, THREE.Group>;
+  private readonly scene: THREE.Scene;
+  private swimParts = new Map<SpeciesId, SwimPart[]>();
+  private materials = new Map<
+    SpeciesId,
+    (THREE.Material | THREE.Material[])[]
+  >();
+  private batches = new Map<string, FishBatch>();
+  private states = new Map<number, FishState>();
+  private syncedFishes: Fish[] | null = null;
+  private readonly fadeColor = new THREE.Color(0, 0, 0);
+
+  constructor(models: Map<SpeciesId, THREE.Group>, scene: THREE.Scene) {
+    this.models = models;
+    this.scene = scene;
+  }
+
+  // 描画に使っているインスタンスメッシュの数（匹数によらず一定）
+  get drawCount(): number {
+    let count = 0;
+    this.batches.forEach((batch) =>
+      batch.parts.forEach(({ meshes }) =>
+        meshes.forEach((mesh) => {
+          if (mesh.visible) count++;
+        }),
+      ),
+    );
+    return count;
+  }
+
+  // フェードインし始めの魚の色（テーマの背景に合わせる）
+  setFadeColor(color: THREE.Color): void {
+    this.fadeColor.copy(color);
+  }
+
+  // 前ステップと現ステップの間を alpha で補間してメッシュに反映する
+  sync(fishes: Fish[], alpha: number, deltaSeconds: number = 1 / 60): void {
+    this.prepare(fishes);
+
+    this.batches.forEach((batch) =>
+      batch.parts.forEach(({ meshes }) =>
+        meshes.forEach((mesh) => (mesh.count = 0)),
+      ),
+    );
+
+    fishes.forEach((fish) => {
+      const batch = this.batches.get(batchKey(fish));
+      if (!batch) return;
+      const state = this.stateFor(fish);
+
+      // 位置の補間
+      placement.position.lerpVectors(
+        fish.previousPosition,
+        fish.position,
+        alpha,
+      );
+
+      // 魚の向き調整
+      const speed = fish.velocity.length();
+      if (speed > 0.01) {
+        direction.copy(fish.velocity).divideScalar(speed);
+        lookTarget.copy(placement.position).add(direction);
+        placement.lookAt(lookTarget);
+        placement.rotateY(-Math.PI / 2);
+
+        // 急に曲がるときは内側に傾ける
+        const turnRate =
+          deltaSeconds > 0
+            ? headingChange(state.heading, direction) / deltaSeconds
+            : 0;
+        state.roll = bankingRoll(state.roll, turnRate, deltaSeconds);
+        state.heading.copy(direction);
+        placement.rotateX(state.roll);
+        state.orientation.copy(placement.quaternion);
+      } else {
+        placement.quaternion.copy(state.orientation);
+      }
+
+      placement.scale.setScalar(
+        getSpecies(fish.species).scale * fish.appearance.size,
+      );
+      placement.updateMatrix();
+
+      // 速いほど速く大きく尾を振る
+      state.phase = advanceSwimPhase(state.phase, speed, deltaSeconds);
+      const pose = swimPoseIndex(state.phase, speed);
+
+      // 背景の色から魚の色に近づけてフェードインを表す
+      instanceColor.lerpColors(this.fadeColor, fish.color, fish.opacity);
+
+      batch.parts.forEach(({ part, meshes }) => {
+        const mesh = meshes[pose];
+        instanceMatrix.multiplyMatrices(placement.matrix, part.matrix);
+        mesh.setMatrixAt(mesh.count, instanceMatrix);
+        mesh.setColorAt(mesh.count, instanceColor);
+        mesh.count++;
+      });
+    });
+
+    this.batches.forEach((batch) =>
+      batch.parts.forEach(({ meshes }) =>
+        meshes.forEach((mesh) => {
+          mesh.visible = mesh.count > 0;
+          if (!mesh.visible) return;
+          mesh.instanceMatrix.needsUpdate = true;
+          mesh.instanceColor!.needsUpdate = true;
+        }),
+      ),
+    );
+  }
+
+  // インスタンスバッファ・ポーズのジオメトリ・複製したマテリアルを解放する
+  dispose(): void {
+    this.batches.forEach((batch) =>
+      batch.parts.forEach(({ geometries, meshes }) => {
+        meshes.forEach((mesh) => {
+          this.scene.remove(mesh);
+          mesh.dispose();
+        });
+        geometries.forEach((geometry) => geometry.dispose());
+      }),
+    );
+    this.batches.clear();
+
+    this.materials.forEach((materials) =>
+      materials.forEach((material) =>
+        (Array.isArray(material) ? material : [material]).forEach((m) =>
+          m.dispose(),
+        ),
+      ),
+    );
+    this.materials.clear();
+    this.swimParts.clear();
+    this.states.clear();
+    this.syncedFishes = null;
+  }
+
+  private stateFor(fish: Fish): FishState {
+    let state = this.states.get(fish.id);
+    if (!state) {
+      state = {
+        phase: swimPhaseOffset(fish.id),
+        heading: fish.velocity.clone().normalize(),
+        roll: 0,
+        orientation: new THREE.Quaternion(),
+      };
+      this.states.set(fish.id, state);
+    }
+    return state;
+  }
+
+  // 群れの配列が差し替わったとき（匹数の変化）だけ、状態の掃除とバッファの確保をする
+  private prepare(fishes: Fish[]): void {
+    if (fishes === this.syncedFishes) return;
+    this.syncedFishes = fishes;
+
+    const ids = new Set(fishes.map((fish) => fish.id));
+    this.states.forEach((_, id) => {
+      if (!ids.has(id)) this.states.delete(id);
+    });
+
+    const counts = new Map<string, { fish: Fish; count: number }>();
+    fishes.forEach((fish) => {
+      const key = batchKey(fish);
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { fish, count: 1 });
+    });
+
+    counts.forEach(({ fish, count }, key) => {
+      const batch =
+        this.batches.get(key) ??
+        this.createBatch(fish.species, fish.appearance.pattern);
+      if (!batch) return;
+      this.batches.set(key, batch);
+      if (count > batch.capacity) this.grow(batch, count);
+    });
+  }
+
+  private createBatch(
+    speciesId: SpeciesId,
+    pattern: FishPattern,
+  ): FishBatch | null {
+    const parts = this.partsFor(speciesId);
+    if (!parts) return null;
+    const materials = this.materials.get(speciesId)!;
+
+    const batch: FishBatch = {
+      capacity: 0,
+      parts: parts.map((part, index) => {
+        // 模様の頂点カラーはポーズ間で共有し、位置だけポーズごとに差し替える
+        const colors = patternColors(part.geometry, pattern);
+        const geometries = part.poses.map((pose) => {
+          const geometry = new THREE.BufferGeometry();
+          geometry.setIndex(part.geometry.getIndex());
+          Object.entries(part.geometry.attributes).forEach(([name, value]) =>
+            geometry.setAttribute(name, value),
+          );
+          geometry.setAttribute("position", pose);
+          geometry.setAttribute("color", colors);
+          geometry.groups = part.geometry.groups;
+          return geometry;
+        });
+        return { part, material: materials[index], geometries, meshes: [] };
+      }),
+    };
+
+    this.grow(batch, MIN_CAPACITY);
+    return batch;
+  }
+
+  // 足りなくなったら2倍ずつ大きいインスタンスメッシュに作り直す
+  private grow(batch: FishBatch, required: number): void {
+    let capacity = Math.max(batch.capacity, MIN_CAPACITY);
+    while (capacity < required) capacity *= 2;
+    if (capacity === batch.capacity) return;
+    batch.capacity = capacity;
+
+    batch.parts.forEach((entry) => {
+      entry.meshes.forEach((mesh) => {
+        this.scene.remove(mesh);
+        mesh.dispose();
+      });
+      entry.meshes = entry.geometries.map((geometry) => {
+        const mesh = new THREE.InstancedMesh(
+          geometry,
+          entry.material,
+          capacity,
+        );
+        mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+        mesh.instanceColor = new THREE.InstancedBufferAttribute(
+          new Float32Array(capacity * 3),
+          3,
+        );
+        mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+        // インスタンスが毎フレーム動くので境界球によるカリングはしない
+        mesh.frustumCulled = false;
+        mesh.count = 0;
+        mesh.visible = false;
+        this.scene.add(mesh);
+        return mesh;
+      });
+    });
+  }
+
+  // 種のモデルからポーズを焼き込み、色を頂点カラーとインスタンス色で付けるマテリアルを用意する
+  private partsFor(speciesId: SpeciesId): SwimPart[] | null {
+    const existing = this.swimParts.get(speciesId);
+    if (existing) return existing;
+
+    const model = this.models.get(speciesId);
+    if (!model) return null;
+
+    const parts = bakeSwimParts(model);
+    const enableVertexColors = (source: THREE.Material): THREE.Material => {
+      const material = source.clone();
+      material.vertexColors = true;
+      return material;
+    };
+    this.materials.set(
+      speciesId,
+      parts.map(({ material }) =>
+        Array.isArray(material)
+          ? material.map(enableVertexColors)
+          : enableVertexColors(material),
+      ),
+    );
+    this.swimParts.set(speciesId, parts);
+    return parts;
+  }
+}
+
+const batchKey = (fish: Fish): string =>
+  `${fish.species}:${fish.appearance.pattern}`;
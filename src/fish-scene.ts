@@ -0,0 +1,696 @@
+import * as THREE from "three";
+import { Fish } from "./types";
+import { Starfield } from "./starfield";
+import { loadSpeciesModels, disposeFishModels } from "./fish-model";
+import { FishRenderer } from "./fish-renderer";
+import { SpeciesId } from "./species";
+import {
+  boundsFromViewport,
+  createFishSchool,
+  resizeFishSchool,
+  screenToWorld,
+  stepSimulation,
+  Viewport,
+} from "./simulation";
+import { GPUBoidSimulation } from "./gpu-boids";
+import { supportsCompute } from "./gpu-compute";
+import {
+  applyLighting,
+  BackendKind,
+  describeBackend,
+  initializeRenderer,
+  RendererBackend,
+  RendererBackendInfo,
+  SceneCanvas,
+  SceneLights,
+  SceneRenderer,
+  setRendererSize,
+  setupScene,
+} from "./renderer-setup";
+import { WebGPUParticleSystem } from "./webgpu-particle-system";
+import { GOLD_TRAIL, SPARKLE_BURST } from "./particle-emitter";
+import { SimulationClock } from "./simulation-clock";
+import { random } from "./random";
+import { BoidConfig, limitFishCount } from "./boid-config";
+import { Obstacle } from "./obstacles";
+import { WaterCurrents } from "./water-currents";
+import { ScreenPoint } from "./pointer-gestures";
+import {
+  pixelRatioFor,
+  QualityGovernor,
+  QualityLevel,
+  scaleFishCounts,
+} from "./quality-governor";
+import { PostEffectPipeline, PostEffectToggles } from "./post-processing";
+import { createBackgroundTexture, fadeColor, ThemeId, THEMES } from "./theme";
+import { DiagnosticsSink, renderStats } from "./diagnostics";
+import { calmBoidConfig, FrameThrottle, LOW_POWER_FPS } from "./playback";
+import {
+  RendererIncident,
+  RendererRecovery,
+  watchRendererLoss,
+} from "./renderer-recovery";
+
+/**
+ * 魚のシーン本体（シミュレーション・描画・レンダラーの作り直し）。
+ * DOM には触らないので、メインスレッドでもワーカーでも同じものを動かせる。
+ * 画面の大きさ・ポインタ・障害物・見えているかは動かす側から渡す。
+ */
+
+export interface SceneViewport extends Viewport {
+  devicePixelRatio: number;
+}
+
+// 始めるときに渡す設定（ワーカーにもそのまま送れる値だけ）
+export interface FishSceneOptions {
+  seed: number;
+  preferred: BackendKind | null; // ?renderer= の指定
+  initialQuality: QualityLevel;
+  qualityPin: QualityLevel | null;
+  config: BoidConfig;
+  postEffects: PostEffectToggles;
+  themeId: ThemeId;
+  reducedMotion: boolean;
+  stopped: boolean;
+  viewport: SceneViewport;
+}
+
+// シーンから動かす側への知らせ
+export interface FishSceneEvents {
+  onQualityChange(level: QualityLevel, pinned: boolean): void;
+  onBackendReady(backend: RendererBackendInfo): void;
+  onIncident(incident: RendererIncident): void;
+  diagnostics?: DiagnosticsSink;
+}
+
+/**
+ * レンダラーの描き先を用意する側。
+ * 同じキャンバスでは WebGPU と WebGL を切り替えられないので、作り直すたびに新しく用意する。
+ */
+export interface SceneSurface {
+  createCanvas(): Promise<SceneCanvas | undefined>; // undefined ならレンダラーが作る
+  showCanvas(canvas: SceneCanvas): void;
+  removeCanvas(canvas: SceneCanvas): void;
+}
+
+// メインスレッドのシーンとワーカーのシーンに共通する操作
+export interface SceneController {
+  setConfig(config: BoidConfig): void;
+  setPostEffects(effects: PostEffectToggles): void;
+  setTheme(themeId: ThemeId): void;
+  setQualityPin(level: QualityLevel | null): void;
+  setReducedMotion(reduced: boolean): void;
+  setStopped(stopped: boolean): void;
+  setVisible(visible: boolean): void;
+  setLowPower(lowPower: boolean): void;
+  resize(viewport: SceneViewport): void;
+  hover(point: ScreenPoint): void;
+  drag(point: ScreenPoint, delta: ScreenPoint): void;
+  tap(point: ScreenPoint): void;
+  setObstacles(obstacles: Obstacle[]): void;
+  dispose(): void;
+}
+
+export class FishScene implements SceneController {
+  private readonly scene: THREE.Scene;
+  private readonly camera: THREE.OrthographicCamera;
+  private readonly lights: SceneLights;
+  private readonly governor: QualityGovernor;
+  private readonly starfield: Starfield;
+  private readonly clock = new SimulationClock();
+  private readonly currents = new WaterCurrents();
+  private readonly throttle = new FrameThrottle();
+  private readonly recovery = new RendererRecovery();
+  private readonly pointerWorld = new THREE.Vector3();
+
+  private backend: RendererBackend | undefined;
+  private renderer: SceneRenderer | undefined;
+  private unwatchLoss: (() => void) | undefined;
+  private postProcessing: PostEffectPipeline | undefined;
+  private particleSystem: WebGPUParticleSystem | undefined;
+  private fishRenderer: FishRenderer | undefined;
+  private gpuBoids: GPUBoidSimulation | undefined;
+  private fishModels: Map<SpeciesId, THREE.Group> | null = null;
+  private background: THREE.Texture | undefined;
+
+  private fishes: Fish[] = [];
+  private viewport: SceneViewport;
+  private baseConfig: BoidConfig;
+  private config: BoidConfig; // 穏やかなモードなら遅くしたもの
+  private postEffects: PostEffectToggles;
+  private themeId: ThemeId;
+  private reducedMotion: boolean;
+  private stopped: boolean;
+  private visible = true; // タブが表に出ていて画面内にある
+  private pointer: ScreenPoint = { x: 0, y: 0 };
+  private obstacles: Obstacle[] = [];
+  private animationFrame: number | undefined;
+  private lastFrameTime: number | null = null;
+  private lossCount = 0;
+  private rebuilding = false; // アンチエイリアスを変えるためにレンダラーを作り直している
+  private disposed = false;
+
+  constructor(
+    private readonly options: FishSceneOptions,
+    private readonly events: FishSceneEvents,
+    private readonly surface: SceneSurface,
+  ) {
+    this.viewport = options.viewport;
+    this.baseConfig = options.config;
+    this.reducedMotion = options.reducedMotion;
+    this.config = this.effectiveConfig();
+    this.postEffects = options.postEffects;
+    this.themeId = options.themeId;
+    this.stopped = options.stopped;
+
+    // 乱数シードの決定（?seed=42 で再現可能）
+    random.reseed(options.seed);
+
+    // シーンとカメラのセットアップ
+    const { scene, camera, lights } = setupScene(this.viewport);
+    this.scene = scene;
+    this.camera = camera;
+    this.lights = lights;
+
+    // 前回落ち着いた段階から始める
+    this.governor = new QualityGovernor({
+      initialLevel: options.initialQuality,
+      pinned: options.qualityPin,
+      onChange: (level) => {
+        this.applyQuality();
+        this.events.onQualityChange(level, this.governor.pinned !== null);
+      },
+    });
+
+    // 星空は魚の奥の層としてシーンに置く
+    this.starfield = new Starfield(this.viewport);
+    this.starfield.setCalm(this.reducedMotion);
+    this.scene.add(this.starfield.object);
+  }
+
+  async start(): Promise<void> {
+    this.events.onQualityChange(
+      this.governor.level,
+      this.governor.pinned !== null,
+    );
+
+    // レンダラー初期化
+    const backend = await this.createBackend(this.options.preferred);
+    if (this.disposed) return this.releaseBackend(backend);
+    this.attachRenderer(backend);
+
+    const fishModels = await loadSpeciesModels();
+    if (this.disposed) {
+      if (fishModels) disposeFishModels(fishModels);
+      return;
+    }
+    this.fishModels = fishModels;
+    if (fishModels) {
+      this.attachFishRenderer();
+      this.fishes = createFishSchool(
+        this.schoolConfig(),
+        boundsFromViewport(this.viewport),
+      );
+    }
+
+    this.startLoop();
+    this.renderStill();
+  }
+
+  // パネルからの設定変更をアニメーションループに反映
+  setConfig(config: BoidConfig): void {
+    this.baseConfig = config;
+    this.config = this.effectiveConfig();
+    this.resizeSchool();
+  }
+
+  setPostEffects(effects: PostEffectToggles): void {
+    this.postEffects = effects;
+    this.postProcessing?.setEffects(effects, this.governor.settings);
+  }
+
+  setTheme(themeId: ThemeId): void {
+    this.themeId = themeId;
+    this.applyTheme();
+    this.renderStill();
+  }
+
+  // 手動で固定した品質を反映（null なら自動に戻す）
+  setQualityPin(level: QualityLevel | null): void {
+    this.governor.pin(level);
+  }
+
+  // 穏やかなモードでは魚を遅くし、軌跡・きらめき・星の瞬きを止める
+  setReducedMotion(reduced: boolean): void {
+    this.reducedMotion = reduced;
+    this.starfield.setCalm(reduced);
+    this.setConfig(this.baseConfig);
+  }
+
+  // 利用者がアニメーションを止めたら再開するまで描かない
+  setStopped(stopped: boolean): void {
+    this.stopped = stopped;
+    if (stopped) this.stopLoop();
+    else this.startLoop();
+  }
+
+  // タブが裏に回ったり画面外に出たりしたら止める
+  setVisible(visible: boolean): void {
+    this.visible = visible;
+    if (visible) this.startLoop();
+    else this.stopLoop();
+  }
+
+  // 電池が少ないときはフレームレートを落とす
+  setLowPower(lowPower: boolean): void {
+    this.throttle.setMaxFps(lowPower ? LOW_POWER_FPS : null);
+  }
+
+  resize(viewport: SceneViewport): void {
+    this.viewport = viewport;
+    const { width, height } = viewport;
+    this.camera.left = width / -2;
+    this.camera.right = width / 2;
+    this.camera.top = height / 2;
+    this.camera.bottom = height / -2;
+    this.camera.updateProjectionMatrix();
+
+    if (this.renderer) setRendererSize(this.renderer, viewport);
+    this.applyPixelRatio();
+
+    // クラスター中心はこれから生まれる魚から新しい画面に合わせて置く。
+    // 今いる魚は動かさず、画面の外に残ったものは境界と群れの操舵で泳いで戻る
+    this.starfield.resize(viewport);
+    this.renderStill();
+  }
+
+  // ホバーで引き寄せ、ドラッグで水流、タップで衝撃波ときらめき
+  hover(point: ScreenPoint): void {
+    this.pointer = point;
+  }
+
+  drag(point: ScreenPoint, delta: ScreenPoint): void {
+    this.currents.addCurrent(
+      screenToWorld(point, this.viewport),
+      new THREE.Vector3(delta.x, -delta.y, 0),
+    );
+  }
+
+  tap(point: ScreenPoint): void {
+    const origin = screenToWorld(point, this.viewport);
+    this.currents.addShockwave(origin);
+    if (!this.reducedMotion) {
+      this.particleSystem?.emit(SPARKLE_BURST, { position: origin });
+    }
+  }
+
+  // タイトルやリンクのボタン（画面の矩形をワールド座標にしたもの）
+  setObstacles(obstacles: Obstacle[]): void {
+    this.obstacles = obstacles;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.detachRenderer();
+    this.starfield.dispose();
+    this.background?.dispose();
+    if (this.fishModels) disposeFishModels(this.fishModels);
+    this.fishModels = null;
+  }
+
+  private effectiveConfig(): BoidConfig {
+    return this.reducedMotion
+      ? calmBoidConfig(this.baseConfig)
+      : this.baseConfig;
+  }
+
+  private createBackend(preferred: BackendKind | null) {
+    const { settings } = this.governor;
+    return this.surface.createCanvas().then((canvas) =>
+      initializeRenderer({
+        antialias: settings.antialias,
+        pixelRatio: pixelRatioFor(settings, this.viewport.devicePixelRatio),
+        preferred,
+        viewport: this.viewport,
+        canvas,
+      }),
+    );
+  }
+
+  private releaseBackend(backend: RendererBackend): void {
+    backend.renderer.dispose();
+    if (backend.kind === "webgpu") backend.device.destroy();
+  }
+
+  // GPU で泳いでいるときは今の状態を読み戻してから群れを変える（古い状態を載せ直さない）
+  private updateSchool(update: () => void): void {
+    if (this.gpuBoids) this.gpuBoids.readBack(this.fishes).then(update);
+    else update();
+  }
+
+  // 品質に合わせて減らした匹数に群れを合わせる
+  private resizeSchool(): void {
+    if (!this.fishRenderer && !this.gpuBoids) return;
+    this.updateSchool(() => {
+      this.fishes = resizeFishSchool(
+        this.fishes,
+        this.schoolConfig(),
+        boundsFromViewport(this.viewport),
+      );
+    });
+  }
+
+  // 品質とバックエンドに合わせて匹数を減らした設定（クラスターの割り振りもこの匹数で決まる）
+  private schoolConfig(): BoidConfig {
+    return scaleFishCounts(
+      limitFishCount(this.config, this.gpuBoids !== undefined),
+      this.governor.settings.fishScale,
+    );
+  }
+
+  // 画面の devicePixelRatio と品質から描画の解像度を決める
+  private applyPixelRatio(): void {
+    this.renderer?.setPixelRatio(
+      pixelRatioFor(this.governor.settings, this.viewport.devicePixelRatio),
+    );
+    // 後処理の描画先もピクセル比に合わせて作り直す
+    this.postProcessing?.setSize(this.viewport);
+  }
+
+  // 品質の段階をレンダラー・パーティクル・群れに反映する
+  private applyQuality(): void {
+    const { settings } = this.governor;
+    this.applyPixelRatio();
+    this.particleSystem?.setParticleLimit(settings.particleCap);
+    this.postProcessing?.setEffects(this.postEffects, settings);
+    this.resizeSchool();
+    this.rebuildForAntialias();
+  }
+
+  /**
+   * アンチエイリアスはレンダラーを作るときにしか選べないので、段階で変わったら作り直す。
+   * GPU で泳いでいる群れは先に読み戻し、作り直した後もそのまま続ける。
+   * 作り直している間にまた段階が変わったら、終わってから合わせ直す。
+   */
+  private async rebuildForAntialias(): Promise<void> {
+    const previous = this.backend;
+    if (!previous || this.rebuilding) return;
+    if (previous.antialias === this.governor.settings.antialias) return;
+
+    this.rebuilding = true;
+    try {
+      await this.gpuBoids?.readBack(this.fishes);
+      // WebGL で動いていたら WebGPU を試し直さない
+      let backend = await this.createBackend(
+        previous.kind === "webgl" ? "webgl" : this.options.preferred,
+      );
+      // 待っている間に捨てられたか、失って作り直されていたら使わない
+      if (this.disposed || this.backend !== previous) {
+        return this.releaseBackend(backend);
+      }
+      if (backend.kind === previous.kind) {
+        backend = {
+          ...backend,
+          reason: previous.reason,
+          forced: previous.forced,
+        };
+      }
+      this.detachRenderer();
+      this.attachRenderer(backend);
+      this.resizeSchool();
+      this.startLoop();
+      this.renderStill();
+    } catch (error) {
+      console.warn("Renderer rebuild failed:", error);
+      return;
+    } finally {
+      this.rebuilding = false;
+    }
+    this.rebuildForAntialias();
+  }
+
+  // テーマの背景・照明・星・パーティクルの色・水中の光をシーンに反映する
+  private applyTheme(): void {
+    const theme = THEMES[this.themeId];
+    this.background?.dispose();
+    this.background = createBackgroundTexture(theme);
+    this.scene.background = this.background;
+    applyLighting(this.lights, theme);
+    this.starfield.setAppearance(theme.stars);
+    this.particleSystem?.setPalette(GOLD_TRAIL, theme.particles.trail ?? null);
+    this.particleSystem?.setPalette(
+      SPARKLE_BURST,
+      theme.particles.sparkle ?? null,
+    );
+    this.postProcessing?.setCaustics(theme.caustics);
+    this.applyFishFade();
+  }
+
+  // 魚は黒ではなく背景の色からフェードインさせる（明るいテーマで黒い影にならないように）
+  private applyFishFade(): void {
+    const color = fadeColor(THEMES[this.themeId]);
+    this.fishRenderer?.setFadeColor(color);
+    this.gpuBoids?.setFadeColor(color);
+  }
+
+  // alpha でステップ間を補間して描く（frameSeconds だけ泳ぐ動きを進める）
+  private renderFrame(alpha: number, frameSeconds: number, time: number) {
+    this.starfield.render(alpha);
+    if (this.gpuBoids) {
+      this.gpuBoids.render(alpha, frameSeconds);
+    } else {
+      this.fishRenderer?.sync(this.fishes, alpha, frameSeconds);
+    }
+    this.particleSystem?.render(alpha);
+    this.postProcessing?.render(time / 1000);
+  }
+
+  private animate = (time: number): void => {
+    const renderer = this.renderer;
+    if (!renderer) {
+      this.animationFrame = undefined;
+      return;
+    }
+    // 省電力のときは上限のフレームレートまでフレームを飛ばす
+    if (!this.throttle.shouldRender(time)) {
+      this.animationFrame = requestAnimationFrame(this.animate);
+      return;
+    }
+
+    // フレーム時間を見て品質を上げ下げする（わざと落としている間は見ない）
+    const frameMs = this.lastFrameTime === null ? 0 : time - this.lastFrameTime;
+    if (this.lastFrameTime !== null && !this.throttle.limited) {
+      this.governor.sample(frameMs);
+    }
+    this.lastFrameTime = time;
+    const simulationStart = performance.now();
+
+    const bounds = boundsFromViewport(this.viewport);
+    const pointer = screenToWorld(
+      this.pointer,
+      this.viewport,
+      this.pointerWorld,
+    );
+
+    // 固定タイムステップでシミュレーションを進める
+    const gpuBoids = this.gpuBoids;
+    gpuBoids?.load(this.fishes);
+    // 穏やかなモードでは軌跡を出さない
+    const trailEmitter = this.reducedMotion ? undefined : this.particleSystem;
+    const steps = this.clock.advance(time);
+    // 星空のずれは画面中央を 0、右上を (1, 1) としたポインタ位置で決める
+    const parallax = {
+      x: pointer.x / bounds.halfWidth,
+      y: pointer.y / bounds.halfHeight,
+    };
+    for (let step = 0; step < steps; step++) {
+      this.starfield.step(parallax, this.config.shootingStarsPerMinute);
+
+      const input = {
+        bounds,
+        pointer,
+        config: this.config,
+        obstacles: this.obstacles,
+        currents: this.currents,
+      };
+      if (gpuBoids) {
+        // 軌跡も GPU 上の位置から出す（読み戻さない）
+        gpuBoids.step(input);
+        if (trailEmitter) gpuBoids.emitTrails(trailEmitter);
+      } else {
+        stepSimulation(this.fishes, { ...input, trailEmitter });
+      }
+      this.particleSystem?.update(this.currents);
+      this.currents.step();
+    }
+
+    // ステップ間を補間して描画
+    const renderStart = performance.now();
+    renderer.info.reset();
+    this.renderFrame(this.clock.alpha, this.clock.frameSeconds, time);
+
+    if (frameMs > 0) {
+      this.events.diagnostics?.recordFrame(
+        {
+          frameMs,
+          simulationMs: renderStart - simulationStart,
+          renderMs: performance.now() - renderStart,
+        },
+        {
+          fish: this.fishes.length,
+          particles: this.particleSystem?.getActiveParticleCount() ?? 0,
+          ...renderStats(renderer),
+        },
+      );
+    }
+    this.animationFrame = requestAnimationFrame(this.animate);
+  };
+
+  // 止めていなくて画面に見えていればループを回し始める（止まっていた間の時間は進めない）
+  private startLoop(): void {
+    if (this.animationFrame !== undefined || !this.renderer) return;
+    if (this.stopped || !this.visible) return;
+    this.clock.reset();
+    this.throttle.reset();
+    this.lastFrameTime = null;
+    this.animationFrame = requestAnimationFrame(this.animate);
+  }
+
+  private stopLoop(): void {
+    if (this.animationFrame !== undefined) {
+      cancelAnimationFrame(this.animationFrame);
+    }
+    this.animationFrame = undefined;
+  }
+
+  // 止めている間（最初から止めていたときやサイズ・テーマが変わったとき）は、いまの状態のまま1枚だけ描く
+  private renderStill(): void {
+    if (this.animationFrame !== undefined || !this.renderer) return;
+    this.gpuBoids?.load(this.fishes);
+    this.renderFrame(this.clock.alpha, 0, performance.now());
+  }
+
+  // 魚の描画をいまのレンダラーで用意する（WebGPU なら群れの計算もコンピュートシェーダーで行う）
+  private attachFishRenderer(): void {
+    const { renderer, fishModels } = this;
+    if (!renderer || !fishModels) return;
+    if (supportsCompute(renderer)) {
+      this.gpuBoids = new GPUBoidSimulation(renderer, fishModels, this.scene);
+    } else {
+      this.fishRenderer = new FishRenderer(fishModels, this.scene);
+    }
+    this.applyFishFade();
+  }
+
+  // レンダラーに結びついたもの（キャンバス・後処理・パーティクル・魚の描画）を用意する。
+  // シーン・星空・魚のモデルと群れの状態はレンダラーを作り直しても使い続ける
+  private attachRenderer(backend: RendererBackend): void {
+    const { settings } = this.governor;
+    const { renderer } = backend;
+    this.backend = backend;
+    this.renderer = renderer;
+    // 後処理のパスも合わせた1フレーム分の描画数を数えるため、リセットは animate で行う
+    renderer.info.autoReset = false;
+    this.surface.showCanvas(renderer.domElement);
+
+    // 後処理はレンダラーに合わせて WebGPU 版か WebGL 版を使う
+    this.postProcessing = new PostEffectPipeline(
+      renderer,
+      this.scene,
+      this.camera,
+      this.viewport,
+    );
+    this.postProcessing.setEffects(this.postEffects, settings);
+
+    // WebGPUパーティクルシステムの初期化
+    this.particleSystem = new WebGPUParticleSystem(renderer);
+    this.particleSystem.initialize(this.scene);
+    this.particleSystem.setParticleLimit(settings.particleCap);
+    this.applyTheme();
+
+    this.attachFishRenderer();
+
+    this.unwatchLoss = watchRendererLoss(backend, (reason) =>
+      this.recoverRenderer(backend.kind, reason),
+    );
+    this.events.onBackendReady(describeBackend(backend));
+  }
+
+  // attachRenderer で用意したものを捨て、レンダラーとデバイスを解放する
+  private detachRenderer(): void {
+    this.unwatchLoss?.();
+    this.unwatchLoss = undefined;
+    this.stopLoop();
+
+    this.postProcessing?.dispose();
+    this.postProcessing = undefined;
+    this.particleSystem?.dispose();
+    this.particleSystem = undefined;
+    this.fishRenderer?.dispose();
+    this.fishRenderer = undefined;
+    this.gpuBoids?.dispose();
+    this.gpuBoids = undefined;
+
+    const backend = this.backend;
+    this.backend = undefined;
+    this.renderer = undefined;
+    if (!backend) return;
+    this.surface.removeCanvas(backend.renderer.domElement);
+    this.releaseBackend(backend);
+  }
+
+  /**
+   * GPU デバイスや WebGL コンテキストを失ったら、ループを止めて
+   * initializeRenderer からレンダラーを作り直す。
+   * 失い続けたら WebGPU をやめて WebGL にし、それでも駄目ならあきらめる。
+   */
+  private async recoverRenderer(lost: BackendKind, reason: string) {
+    this.detachRenderer();
+    const count = ++this.lossCount;
+    const report = (status: RendererIncident["status"]) =>
+      this.events.onIncident({ lost, reason, status, count });
+
+    let failed = lost;
+    for (;;) {
+      const plan = this.recovery.plan(
+        failed,
+        this.options.preferred,
+        Date.now(),
+      );
+      if (!plan) {
+        console.error("❌ Giving up on recovering the renderer:", reason);
+        report("failed");
+        return;
+      }
+      console.warn(`♻️ Renderer lost (${reason}), rebuilding…`);
+      report("recovering");
+      await new Promise((resolve) => setTimeout(resolve, plan.delayMs));
+      if (this.disposed) return;
+
+      try {
+        let backend = await this.createBackend(plan.preferred);
+        if (this.disposed) return this.releaseBackend(backend);
+        // 指定されたからではなく失い続けたから WebGL にした
+        if (this.recovery.fellBack && backend.kind === "webgl") {
+          backend = {
+            ...backend,
+            forced: false,
+            reason: "Fell back to WebGL after losing the WebGPU device",
+          };
+        }
+        this.attachRenderer(backend);
+      } catch (error) {
+        failed = plan.preferred ?? lost;
+        console.warn("Renderer rebuild failed:", error);
+        continue;
+      }
+
+      // 群れの状態からそのまま続ける（WebGL に替わったら CPU で扱える匹数に減らす）
+      report("recovered");
+      this.resizeSchool();
+      this.startLoop();
+      this.renderStill();
+      return;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import {
+  GRID_MAX_COLUMNS,
+  GRID_MAX_ROWS,
+  gridLayout,
+  packSpeciesParameters,
+  SPECIES_PARAMETER_KEYS,
+  SPECIES_PARAMETER_STRIDE,
+} from "./gpu-boids";
+import { supportsCompute } from "./gpu-compute";
+import { DEFAULT_BOID_CONFIG } from "./boid-config";
+import { getSpecies, resolveSpeciesConfig, SPECIES_IDS } from "./species";
+import { WRAP_MARGIN } from "./boundaries";
+
+const parameter = (
+  packed: Float32Array,
+  speciesIndex: number,
+  key: (typeof SPECIES_PARAMETER_KEYS)[number],
+) =>
+  packed[
+    speciesIndex * SPECIES_PARAMETER_STRIDE +
+      SPECIES_PARAMETER_KEYS.indexOf(key)
+  ];
+
+describe("packSpeciesParameters", () => {
+  test("packs each species' resolved config in order", () => {
+    const packed = packSpeciesParameters(DEFAULT_BOID_CONFIG);
+    expect(packed.length).toBe(SPECIES_IDS.length * SPECIES_PARAMETER_STRIDE);
+
+    SPECIES_IDS.forEach((id, index) => {
+      const config = resolveSpeciesConfig(getSpecies(id), DEFAULT_BOID_CONFIG);
+      expect(parameter(packed, index, "maxSpeed")).toBeCloseTo(config.maxSpeed);
+      expect(parameter(packed, index, "separationRadius")).toBeCloseTo(
+        config.separationRadius,
+      );
+    });
+  });
+
+  test("only gives prey a flee radius and predators a chase radius", () => {
+    const packed = packSpeciesParameters(DEFAULT_BOID_CONFIG);
+    SPECIES_IDS.forEach((id, index) => {
+      const species = getSpecies(id);
+      expect(parameter(packed, index, "fleeRadius")).toBe(
+        species.predatorResponse?.fleeRadius ?? 0,
+      );
+      expect(parameter(packed, index, "chaseRadius")).toBe(
+        species.hunting?.chaseRadius ?? 0,
+      );
+    });
+  });
+});
+
+describe("gridLayout", () => {
+  const bounds = { halfWidth: 640, halfHeight: 360, halfDepth: 100 };
+
+  test("covers the screen and the wrap margin", () => {
+    const grid = gridLayout(bounds, 50);
+    expect(grid.originX).toBe(-(bounds.halfWidth + WRAP_MARGIN));
+    expect(grid.originY).toBe(-(bounds.halfHeight + WRAP_MARGIN));
+    expect(grid.columns * grid.cellSize).toBeGreaterThanOrEqual(
+      (bounds.halfWidth + WRAP_MARGIN) * 2,
+    );
+    expect(grid.rows * grid.cellSize).toBeGreaterThanOrEqual(
+      (bounds.halfHeight + WRAP_MARGIN) * 2,
+    );
+  });
+
+  test("never makes cells smaller than the neighbor radius", () => {
+    expect(gridLayout(bounds, 120).cellSize).toBeGreaterThanOrEqual(120);
+  });
+
+  test("caps the number of cells on large screens", () => {
+    const grid = gridLayout(
+      { halfWidth: 8000, halfHeight: 6000, halfDepth: 100 },
+      1,
+    );
+    expect(grid.columns).toBeLessThanOrEqual(GRID_MAX_COLUMNS);
+    expect(grid.rows).toBeLessThanOrEqual(GRID_MAX_ROWS);
+  });
+});
+
+describe("supportsCompute", () => {
+  test("falls back to the CPU for non-WebGPU renderers", () => {
+    expect(supportsCompute({})).toBe(false);
+    expect(supportsCompute(undefined)).toBe(false);
+  });
+});
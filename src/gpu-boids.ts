@@ -0,0 +1,1380 @@
+import * as THREE from "three";
+import {
+  ComputeNode,
+  MeshStandardNodeMaterial,
+  Node,
+  NodeMaterial,
+  WebGPURenderer,
+} from "three/webgpu";
+import {
+  Fn,
+  If,
+  Loop,
+  Return,
+  abs,
+  atan,
+  atomicAdd,
+  atomicLoad,
+  atomicStore,
+  attribute,
+  bool,
+  clamp,
+  cos,
+  cross,
+  dot,
+  exp,
+  float,
+  floor,
+  fract,
+  hash,
+  instanceIndex,
+  instancedArray,
+  int,
+  length,
+  materialColor,
+  max,
+  min,
+  mix,
+  normalGeometry,
+  normalLocal,
+  round,
+  select,
+  sign,
+  sin,
+  sqrt,
+  uint,
+  uniform,
+  varying,
+  vec2,
+  vec3,
+  vec4,
+  vertexIndex,
+  type ShaderNodeObject,
+} from "three/tsl";
+import { Fish } from "./types";
+import {
+  BoidConfig,
+  BoidNumericKey,
+  DEFAULT_BOID_CONFIG,
+  maxNeighborRadius,
+} from "./boid-config";
+import {
+  getSpecies,
+  panicConfig,
+  resolveSpeciesConfig,
+  SpeciesId,
+  SPECIES_IDS,
+} from "./species";
+import { BoundaryMode, MAX_RETURN_STRENGTH, WRAP_MARGIN } from "./boundaries";
+import { OBSTACLE_LOOK_AHEAD_STEPS } from "./boids";
+import {
+  FADE_IN_STEPS,
+  SimulationInput,
+  TRAIL_MIN_SPEED,
+  WorldBounds,
+} from "./simulation";
+import type { ParticleSourceBuffers } from "./gpu-particles";
+import type { EmitterConfig } from "./particle-emitter";
+import { FishPattern, patternColors } from "./fish-appearance";
+import {
+  AMPLITUDE_PER_SPEED,
+  bakeSwimParts,
+  BANK_PER_TURN_RATE,
+  BANK_SMOOTHING,
+  FREQUENCY_PER_SPEED,
+  MAX_AMPLITUDE,
+  MAX_BANK,
+  MIN_AMPLITUDE,
+  MIN_FREQUENCY,
+  SWIM_AMPLITUDE_LEVELS,
+  SWIM_POSE_COUNT,
+  SWIM_POSE_FRAMES,
+  swimPhaseOffset,
+} from "./swim-animation";
+import { random } from "./random";
+import {
+  ComputePass,
+  currentFlowAt,
+  MAX_CURRENTS,
+  ShaderNode,
+  StorageBuffer,
+  UintUniform,
+  uintUniform,
+} from "./gpu-compute";
+
+/**
+ * WebGPU のコンピュートシェーダーで動かす群れ。
+ * stepSimulation（CPU）と同じ規則と設定で、魚の状態をストレージバッファに置いたまま
+ * 近傍探索・力の計算・移動を行い、描画もそのバッファから直接インスタンスを組み立てる。
+ *
+ * CPU との違い:
+ * - 全員が前ステップの状態を見て同時に動く（CPU は1匹ずつ順に動かす）
+ * - 軌跡は CPU が出す魚と数だけを決め、位置と速度は GPU 上で魚のバッファから読む
+ * - CPU 側の魚は匹数や配置を変える前だけ非同期に読み戻す
+ */
+
+// 近傍探索の格子（xy平面）の大きさの上限
+export const GRID_MAX_COLUMNS = 64;
+export const GRID_MAX_ROWS = 64;
+const GRID_MAX_CELLS = GRID_MAX_COLUMNS * GRID_MAX_ROWS;
+
+// 障害物・水流・衝撃波は1つのバッファに並べる（1ステージで使えるストレージバッファは既定で8個まで）
+const MAX_OBSTACLES = 64;
+const MAX_SHOCKWAVES = 32;
+const CURRENT_OFFSET = MAX_OBSTACLES;
+const SHOCKWAVE_OFFSET = CURRENT_OFFSET + MAX_CURRENTS;
+const ENVIRONMENT_SIZE = SHOCKWAVE_OFFSET + MAX_SHOCKWAVES;
+const MIN_CAPACITY = 1024;
+
+const BOUNDARY_MODE_INDEX: Record<BoundaryMode, number> = {
+  bounce: 0,
+  steer: 1,
+  wrap: 2,
+};
+
+const PATTERN_INDEX: Record<FishPattern, number> = {
+  solid: 0,
+  stripes: 1,
+  gradient: 2,
+};
+
+// GPU に渡す種ごとの設定（この順に float で並べる）
+const BOID_PARAMETER_KEYS = [
+  "separationRadius",
+  "separationWeight",
+  "alignmentRadius",
+  "alignmentWeight",
+  "cohesionRadius",
+  "cohesionWeight",
+  "mouseAttractionRadius",
+  "mouseAttractionWeight",
+  "minSpeed",
+  "maxSpeed",
+  "jitter",
+  "depthJitter",
+  "damping",
+  "obstacleMargin",
+  "obstacleWeight",
+  "currentWeight",
+  "shockwaveWeight",
+  "boundaryMargin",
+  "boundaryWeight",
+] as const satisfies readonly BoidNumericKey[];
+
+export const SPECIES_PARAMETER_KEYS = [
+  ...BOID_PARAMETER_KEYS,
+  "panicAlignmentWeight",
+  "panicCohesionWeight",
+  "fleeRadius",
+  "fleeWeight",
+  "chaseRadius",
+  "chaseWeight",
+] as const;
+
+type SpeciesParameterKey = (typeof SPECIES_PARAMETER_KEYS)[number];
+
+export const SPECIES_PARAMETER_STRIDE = SPECIES_PARAMETER_KEYS.length;
+
+// 種の上書き・捕食者が近いときの設定・逃げる/追う強さを種ごとに並べる（無い種は 0）
+export const packSpeciesParameters = (
+  config: BoidConfig,
+  target: Float32Array = new Float32Array(
+    SPECIES_IDS.length * SPECIES_PARAMETER_STRIDE,
+  ),
+): Float32Array => {
+  SPECIES_IDS.forEach((id, speciesIndex) => {
+    const species = getSpecies(id);
+    const speciesConfig = resolveSpeciesConfig(species, config);
+    const panic = species.predatorResponse
+      ? panicConfig(speciesConfig, species.predatorResponse)
+      : speciesConfig;
+    const behavior: Record<
+      Exclude<SpeciesParameterKey, BoidNumericKey>,
+      number
+    > = {
+      panicAlignmentWeight: panic.alignmentWeight,
+      panicCohesionWeight: panic.cohesionWeight,
+      fleeRadius: species.predatorResponse?.fleeRadius ?? 0,
+      fleeWeight: species.predatorResponse?.fleeWeight ?? 0,
+      chaseRadius: species.hunting?.chaseRadius ?? 0,
+      chaseWeight: species.hunting?.chaseWeight ?? 0,
+    };
+
+    SPECIES_PARAMETER_KEYS.forEach((key, offset) => {
+      target[speciesIndex * SPECIES_PARAMETER_STRIDE + offset] =
+        key in behavior
+          ? behavior[key as keyof typeof behavior]
+          : speciesConfig[key as BoidNumericKey];
+    });
+  });
+  return target;
+};
+
+export interface GridLayout {
+  originX: number;
+  originY: number;
+  cellSize: number;
+  columns: number;
+  rows: number;
+}
+
+/**
+ * 画面とワープの余白を覆う近傍探索の格子。
+ * セルは近傍半径以上にして隣接セルだけを見れば足りるようにし、数は上限に収める。
+ * 格子の外にいる魚は端のセルに入れる。
+ */
+export const gridLayout = (
+  { halfWidth, halfHeight }: WorldBounds,
+  neighborRadius: number,
+): GridLayout => {
+  const width = (halfWidth + WRAP_MARGIN) * 2;
+  const height = (halfHeight + WRAP_MARGIN) * 2;
+  const cellSize = Math.max(
+    neighborRadius,
+    width / GRID_MAX_COLUMNS,
+    height / GRID_MAX_ROWS,
+    1,
+  );
+  return {
+    originX: -width / 2,
+    originY: -height / 2,
+    cellSize,
+    columns: Math.min(
+      GRID_MAX_COLUMNS,
+      Math.max(1, Math.ceil(width / cellSize)),
+    ),
+    rows: Math.min(GRID_MAX_ROWS, Math.max(1, Math.ceil(height / cellSize))),
+  };
+};
+
+// 長さ 0 のときは 0 のまま（THREE.Vector3.normalize と同じ）
+const normalizeOrZero = (vector: ShaderNode) =>
+  vector.div(max(length(vector), 1e-8));
+
+// 端から margin 以内に入ると内側へ押し戻す（boundaries.ts の steerAxis と同じ）
+const steerAxis = (
+  value: ShaderNode,
+  half: ShaderNode,
+  margin: ShaderNode,
+  weight: ShaderNode,
+) => {
+  const inset = min(margin, half);
+  const overshoot = abs(value).sub(half.sub(inset));
+  const strength = select(
+    inset.greaterThan(0),
+    min(MAX_RETURN_STRENGTH, overshoot.div(max(inset, 1e-8))),
+    float(MAX_RETURN_STRENGTH),
+  );
+  return select(
+    overshoot.greaterThan(0),
+    sign(value).negate().mul(strength).mul(weight),
+    float(0),
+  );
+};
+
+const heading = new THREE.Vector3();
+
+// 魚の状態（容量ぶん確保し、匹数が増えたら作り直す）
+interface FishBuffers {
+  capacity: number;
+  positions: StorageBuffer; // xyz と不透明度
+  previousPositions: StorageBuffer; // 描画補間用の前ステップ位置
+  velocities: StorageBuffer;
+  nextVelocities: StorageBuffer; // 全員の力を計算し終えるまでの置き場
+  phases: StorageBuffer; // 泳ぎの周期の位相（0〜1）
+  headings: StorageBuffer; // 前フレームの進行方向（xyz）と傾き（w）
+  poseIndices: StorageBuffer; // 描くポーズの番号（swimPoseIndex）
+  colors: StorageBuffer; // rgb と大きさ
+  species: StorageBuffer; // SPECIES_IDS の番号
+  patterns: StorageBuffer;
+  cells: StorageBuffer; // 魚ごとのセル番号
+  sortedIndices: StorageBuffer; // セル順に並べた魚の番号
+}
+
+interface SpeciesRange {
+  start: UintUniform;
+  end: UintUniform;
+}
+
+// GPU 上の魚から軌跡を出すもの（WebGPUParticleSystem）
+export interface GPUTrailEmitter {
+  spawnParticlesFromGpuFish(
+    source: ParticleSourceBuffers,
+    fishIndex: number,
+    fishColor: THREE.Color,
+    emitter?: EmitterConfig,
+    minFishSpeed?: number,
+  ): void;
+}
+
+export class GPUBoidSimulation {
+  private readonly renderer: WebGPURenderer;
+  private readonly models: Map<SpeciesId, THREE.Group>;
+  private readonly scene: THREE.Scene;
+
+  // 格子（セルごとの匹数・書き込み位置・開始位置）
+  private readonly cellCounts = instancedArray(
+    GRID_MAX_CELLS,
+    "uint",
+  ).toAtomic();
+  private readonly cellCursors = instancedArray(
+    GRID_MAX_CELLS,
+    "uint",
+  ).toAtomic();
+  private readonly cellStarts = instancedArray(GRID_MAX_CELLS + 1, "uint");
+
+  private readonly speciesParameters = instancedArray(
+    SPECIES_IDS.length * SPECIES_PARAMETER_STRIDE,
+    "float",
+  );
+  // 障害物 (minX, maxX, minY, maxY)・水流・衝撃波の順
+  private readonly environment = instancedArray(ENVIRONMENT_SIZE, "vec4");
+
+  private readonly fishCount = uintUniform();
+  private readonly bounds = uniform(new THREE.Vector3());
+  private readonly boundaryMode = uintUniform();
+  private readonly pointer = uniform(new THREE.Vector3());
+  private readonly hasPointer = uniform(0);
+  private readonly gridOrigin = uniform(new THREE.Vector2());
+  private readonly cellSize = uniform(1);
+  private readonly columns = uintUniform();
+  private readonly rows = uintUniform();
+  private readonly obstacleCount = uintUniform();
+  private readonly currentCount = uintUniform();
+  private readonly shockwaveCount = uintUniform();
+  private readonly flowRadius = uniform(1);
+  private readonly maxFlowSpeed = uniform(0);
+  private readonly shockwaveThickness = uniform(1);
+  private readonly stepSeed = uintUniform();
+  private readonly alpha = uniform(0);
+  private readonly deltaSeconds = uniform(0);
+  private readonly fadeColor = uniform(new THREE.Color(0, 0, 0));
+  private readonly ranges = new Map<SpeciesId, SpeciesRange>(
+    SPECIES_IDS.map((id) => [id, { start: uintUniform(), end: uintUniform() }]),
+  );
+
+  private buffers: FishBuffers | null = null;
+  private stepPasses: ComputePass[] = [];
+  private animatePass: ComputePass | null = null;
+  private meshes = new Map<SpeciesId, THREE.Mesh[]>();
+  private geometries: THREE.BufferGeometry[] = [];
+  private materials: NodeMaterial[] = [];
+  private source: Fish[] | null = null;
+  private order: Fish[] = []; // GPU 上の並び（種ごとに連続）
+  private pendingReadBack: Promise<void> | null = null;
+
+  constructor(
+    renderer: WebGPURenderer,
+    models: Map<SpeciesId, THREE.Group>,
+    scene: THREE.Scene,
+  ) {
+    this.renderer = renderer;
+    this.models = models;
+    this.scene = scene;
+    // 同じシードなら揺らぎも同じになるよう共有の乱数から始める
+    this.stepSeed.value = random.int(0x100000000);
+  }
+
+  // フェードインし始めの魚の色（テーマの背景に合わせる）
+  setFadeColor(color: THREE.Color): void {
+    this.fadeColor.value.copy(color);
+  }
+
+  // GPU 上で泳いでいる魚の数
+  get count(): number {
+    return this.order.length;
+  }
+
+  /**
+   * 群れを GPU に載せる。配列が差し替わったとき（匹数の変化）だけ書き込み、
+   * 容量が足りなければバッファとメッシュを作り直す。
+   */
+  load(fishes: Fish[]): void {
+    if (fishes === this.source) return;
+    this.source = fishes;
+    this.order = SPECIES_IDS.flatMap((id) =>
+      fishes.filter((fish) => fish.species === id),
+    );
+
+    if (!this.buffers || this.order.length > this.buffers.capacity) {
+      let capacity = Math.max(this.buffers?.capacity ?? 0, MIN_CAPACITY);
+      while (capacity < this.order.length) capacity *= 2;
+      this.build(capacity);
+    }
+    const buffers = this.buffers!;
+
+    const positions = buffers.positions.value.array as Float32Array;
+    const previousPositions = buffers.previousPositions.value
+      .array as Float32Array;
+    const velocities = buffers.velocities.value.array as Float32Array;
+    const phases = buffers.phases.value.array as Float32Array;
+    const headings = buffers.headings.value.array as Float32Array;
+    const colors = buffers.colors.value.array as Float32Array;
+    const species = buffers.species.value.array as Uint32Array;
+    const patterns = buffers.patterns.value.array as Uint32Array;
+
+    this.order.forEach((fish, index) => {
+      positions.set(
+        [fish.position.x, fish.position.y, fish.position.z, fish.opacity],
+        index * 4,
+      );
+      previousPositions.set(
+        [
+          fish.previousPosition.x,
+          fish.previousPosition.y,
+          fish.previousPosition.z,
+          0,
+        ],
+        index * 4,
+      );
+      velocities.set(
+        [fish.velocity.x, fish.velocity.y, fish.velocity.z, 0],
+        index * 4,
+      );
+      phases[index] = swimPhaseOffset(fish.id);
+      heading.copy(fish.velocity).normalize();
+      headings.set([heading.x, heading.y, heading.z, 0], index * 4);
+      colors.set(
+        [fish.color.r, fish.color.g, fish.color.b, fish.appearance.size],
+        index * 4,
+      );
+      species[index] = SPECIES_IDS.indexOf(fish.species);
+      patterns[index] = PATTERN_INDEX[fish.appearance.pattern];
+    });
+    [
+      buffers.positions,
+      buffers.previousPositions,
+      buffers.velocities,
+      buffers.phases,
+      buffers.headings,
+      buffers.colors,
+      buffers.species,
+      buffers.patterns,
+    ].forEach((buffer) => (buffer.value.needsUpdate = true));
+
+    let start = 0;
+    SPECIES_IDS.forEach((id) => {
+      const count = this.order.filter((fish) => fish.species === id).length;
+      const range = this.ranges.get(id)!;
+      range.start.value = start;
+      range.end.value = start + count;
+      this.meshes.get(id)?.forEach((mesh) => {
+        mesh.count = count;
+        mesh.visible = count > 0;
+      });
+      start += count;
+    });
+    this.fishCount.value = this.order.length;
+  }
+
+  // 固定タイムステップ1回分の更新（stepSimulation と同じ入力を受け取る）
+  step({
+    bounds,
+    pointer,
+    config = DEFAULT_BOID_CONFIG,
+    obstacles = [],
+    currents,
+  }: SimulationInput): void {
+    if (!this.buffers || this.order.length === 0) return;
+
+    packSpeciesParameters(
+      config,
+      this.speciesParameters.value.array as Float32Array,
+    );
+    this.speciesParameters.value.needsUpdate = true;
+
+    const neighborRadius = Math.max(
+      ...SPECIES_IDS.map((id) =>
+        maxNeighborRadius(resolveSpeciesConfig(getSpecies(id), config)),
+      ),
+    );
+    const grid = gridLayout(bounds, neighborRadius);
+    this.gridOrigin.value.set(grid.originX, grid.originY);
+    this.cellSize.value = grid.cellSize;
+    this.columns.value = grid.columns;
+    this.rows.value = grid.rows;
+
+    this.bounds.value.set(
+      bounds.halfWidth,
+      bounds.halfHeight,
+      bounds.halfDepth,
+    );
+    this.boundaryMode.value = BOUNDARY_MODE_INDEX[config.boundaryMode];
+    this.hasPointer.value = pointer ? 1 : 0;
+    if (pointer) this.pointer.value.copy(pointer);
+
+    const environment = this.environment.value.array as Float32Array;
+    const obstacleCount = Math.min(obstacles.length, MAX_OBSTACLES);
+    for (let i = 0; i < obstacleCount; i++) {
+      const { minX, maxX, minY, maxY } = obstacles[i];
+      environment.set([minX, maxX, minY, maxY], i * 4);
+    }
+    this.obstacleCount.value = obstacleCount;
+
+    if (currents && !currents.isCalm) {
+      const { currentCount, shockwaveCount } = currents.packInto(
+        environment.subarray(CURRENT_OFFSET * 4, SHOCKWAVE_OFFSET * 4),
+        environment.subarray(SHOCKWAVE_OFFSET * 4),
+      );
+      this.currentCount.value = currentCount;
+      this.shockwaveCount.value = shockwaveCount;
+      this.flowRadius.value = currents.radius;
+      this.maxFlowSpeed.value = currents.maxFlowSpeed;
+      this.shockwaveThickness.value = currents.shockwaveThickness;
+    } else {
+      this.currentCount.value = 0;
+      this.shockwaveCount.value = 0;
+    }
+    if (
+      obstacleCount > 0 ||
+      this.currentCount.value + this.shockwaveCount.value > 0
+    ) {
+      this.environment.value.needsUpdate = true;
+    }
+
+    // 魚ごと・軸ごとに別の乱数になるよう、ステップごとに種をずらす
+    this.stepSeed.value =
+      (this.stepSeed.value + this.buffers.capacity * 3) >>> 0;
+
+    this.renderer.compute(this.stepPasses);
+  }
+
+  /**
+   * step の後に呼び、軌跡を出す種の魚から確率的に選んで軌跡を出す（emitTrail と同じ割合）。
+   * 選ぶのは番号だけで、速さの判定と位置・速度は GPU 上で行うので読み戻さない。
+   */
+  emitTrails(trailEmitter: GPUTrailEmitter): void {
+    const buffers = this.buffers;
+    if (!buffers) return;
+    SPECIES_IDS.forEach((id) => {
+      const { trail } = getSpecies(id);
+      const range = this.ranges.get(id)!;
+      const start = range.start.value;
+      const count = range.end.value - start;
+      if (!trail || count === 0) return;
+
+      // 出す匹数の期待値を確率的に丸める
+      const emitting = Math.floor(count * trail.spawnChance + random.next());
+      for (let i = 0; i < emitting; i++) {
+        const index = start + random.int(count);
+        trailEmitter.spawnParticlesFromGpuFish(
+          buffers,
+          index,
+          this.order[index].color,
+          trail.emitter,
+          TRAIL_MIN_SPEED,
+        );
+      }
+    });
+  }
+
+  // 前ステップと現ステップの間を alpha で補間して描き、泳ぎの位相を進める
+  render(alpha: number, deltaSeconds: number = 1 / 60): void {
+    if (!this.animatePass || this.order.length === 0) return;
+    this.alpha.value = alpha;
+    this.deltaSeconds.value = deltaSeconds;
+    this.renderer.compute(this.animatePass);
+  }
+
+  /**
+   * GPU の位置・前ステップの位置・速度を CPU 側の魚に非同期で写す。
+   * 群れの匹数や配置を変える前だけ呼ぶ（毎フレーム読み戻すとパイプラインが詰まる）。
+   * 前の読み戻しが終わっていなければそれを待つ。fishes がまだ載っていなければ
+   * CPU 側のほうが新しいので読み戻さない。
+   */
+  readBack(fishes: Fish[]): Promise<void> {
+    const buffers = this.buffers;
+    if (!buffers || fishes !== this.source || this.order.length === 0) {
+      return Promise.resolve();
+    }
+    if (this.pendingReadBack) return this.pendingReadBack;
+    const order = this.order;
+
+    this.pendingReadBack = Promise.all([
+      this.renderer.getArrayBufferAsync(buffers.positions.value),
+      this.renderer.getArrayBufferAsync(buffers.previousPositions.value),
+      this.renderer.getArrayBufferAsync(buffers.velocities.value),
+    ])
+      .then(([positionData, previousData, velocityData]) => {
+        // 読み戻しの間に群れが差し替わっていたら捨てる
+        if (order !== this.order) return;
+        const positions = new Float32Array(positionData);
+        const previousPositions = new Float32Array(previousData);
+        const velocities = new Float32Array(velocityData);
+        order.forEach((fish, index) => {
+          fish.position.fromArray(positions, index * 4);
+          fish.previousPosition.fromArray(previousPositions, index * 4);
+          fish.velocity.fromArray(velocities, index * 4);
+          fish.opacity = positions[index * 4 + 3];
+        });
+      })
+      .catch((error) => console.warn("GPU boid readback failed:", error))
+      .finally(() => {
+        this.pendingReadBack = null;
+      });
+    return this.pendingReadBack;
+  }
+
+  dispose(): void {
+    this.releaseBuffers();
+    this.source = null;
+    this.order = [];
+  }
+
+  private releaseBuffers(): void {
+    this.meshes.forEach((meshes) =>
+      meshes.forEach((mesh) => this.scene.remove(mesh)),
+    );
+    this.meshes.clear();
+    this.geometries.forEach((geometry) => geometry.dispose());
+    this.geometries = [];
+    this.materials.forEach((material) => material.dispose());
+    this.materials = [];
+    this.stepPasses.forEach((pass) => pass.dispose());
+    this.stepPasses = [];
+    this.animatePass?.dispose();
+    this.animatePass = null;
+    this.buffers = null;
+  }
+
+  private build(capacity: number): void {
+    this.releaseBuffers();
+    const buffers: FishBuffers = {
+      capacity,
+      positions: instancedArray(capacity, "vec4"),
+      previousPositions: instancedArray(capacity, "vec4"),
+      velocities: instancedArray(capacity, "vec4"),
+      nextVelocities: instancedArray(capacity, "vec4"),
+      phases: instancedArray(capacity, "float"),
+      headings: instancedArray(capacity, "vec4"),
+      poseIndices: instancedArray(capacity, "uint"),
+      colors: instancedArray(capacity, "vec4"),
+      species: instancedArray(capacity, "uint"),
+      patterns: instancedArray(capacity, "uint"),
+      cells: instancedArray(capacity, "uint"),
+      sortedIndices: instancedArray(capacity, "uint"),
+    };
+    this.buffers = buffers;
+
+    this.stepPasses = [
+      this.clearGridPass(),
+      this.countCellsPass(buffers),
+      this.cellStartsPass(),
+      this.sortByCellPass(buffers),
+      this.forcesPass(buffers),
+      this.integratePass(buffers),
+    ];
+    this.animatePass = this.swimPass(buffers);
+
+    SPECIES_IDS.forEach((id) => {
+      const model = this.models.get(id);
+      if (model) this.meshes.set(id, this.createMeshes(id, model, buffers));
+    });
+  }
+
+  private clearGridPass(): ComputePass {
+    return Fn(() => {
+      atomicStore(this.cellCounts.element(instanceIndex), uint(0));
+    })().compute(GRID_MAX_CELLS);
+  }
+
+  // 格子の外にいる魚は端のセルに入れる
+  private cellOf(position: ShaderNode) {
+    const column = clamp(
+      int(floor(position.x.sub(this.gridOrigin.x).div(this.cellSize))),
+      int(0),
+      int(this.columns).sub(1),
+    ).toVar();
+    const row = clamp(
+      int(floor(position.y.sub(this.gridOrigin.y).div(this.cellSize))),
+      int(0),
+      int(this.rows).sub(1),
+    ).toVar();
+    return { column, row };
+  }
+
+  private countCellsPass({ capacity, positions, cells }: FishBuffers) {
+    return Fn(() => {
+      If(instanceIndex.greaterThanEqual(this.fishCount), () => {
+        Return();
+      });
+      const { column, row } = this.cellOf(positions.element(instanceIndex).xyz);
+      const cell = uint(row.mul(int(this.columns)).add(column)).toVar();
+      cells.element(instanceIndex).assign(cell);
+      atomicAdd(this.cellCounts.element(cell), uint(1));
+    })().compute(capacity);
+  }
+
+  // セルごとの開始位置を累積和で求める（セル数は少ないので1スレッドで足りる）
+  private cellStartsPass() {
+    return Fn(() => {
+      If(instanceIndex.greaterThan(uint(0)), () => {
+        Return();
+      });
+      const cellCount = this.columns.mul(this.rows);
+      const total = uint(0).toVar();
+      Loop(
+        { start: uint(0), end: cellCount, type: "uint", condition: "<" },
+        ({ i }) => {
+          this.cellStarts.element(i).assign(total);
+          atomicStore(this.cellCursors.element(i), total);
+          total.addAssign(atomicLoad(this.cellCounts.element(i)));
+        },
+      );
+      this.cellStarts.element(cellCount).assign(total);
+    })().compute(1);
+  }
+
+  private sortByCellPass({ capacity, cells, sortedIndices }: FishBuffers) {
+    return Fn(() => {
+      If(instanceIndex.greaterThanEqual(this.fishCount), () => {
+        Return();
+      });
+      const slot = atomicAdd(
+        this.cellCursors.element(cells.element(instanceIndex)),
+        uint(1),
+      );
+      sortedIndices.element(slot).assign(instanceIndex);
+    })().compute(capacity);
+  }
+
+  // 画面が縮んで外に取り残されたか（boundaries.ts の isStranded と同じ）
+  private isStranded(position: ShaderNode) {
+    const margin = select(
+      this.boundaryMode.equal(BOUNDARY_MODE_INDEX.wrap),
+      float(WRAP_MARGIN),
+      float(0),
+    );
+    return abs(position.x)
+      .greaterThan(this.bounds.x.add(margin))
+      .or(abs(position.y).greaterThan(this.bounds.y.add(margin)))
+      .or(abs(position.z).greaterThan(this.bounds.z));
+  }
+
+  // 範囲内で最も近い相手を探す（boids.ts の findNearest と同じ）
+  private findNearest(
+    buffers: FishBuffers,
+    position: ShaderNode,
+    radius: ShaderNode,
+    ranges: SpeciesRange[],
+  ) {
+    const nearestDistanceSq = radius.mul(radius).toVar();
+    const nearest = vec3(0).toVar();
+    const found = bool(false).toVar();
+    // 逃げる・追う相手がいない種（半径 0）は探さない
+    If(radius.greaterThan(0), () => {
+      ranges.forEach(({ start, end }) => {
+        Loop({ start, end, type: "uint", condition: "<" }, ({ i }) => {
+          const other = buffers.positions.element(i).xyz;
+          const offset = other.sub(position);
+          const distanceSq = dot(offset, offset);
+          If(
+            distanceSq
+              .lessThan(nearestDistanceSq)
+              .and(uint(i).notEqual(instanceIndex)),
+            () => {
+              nearestDistanceSq.assign(distanceSq);
+              nearest.assign(other);
+              found.assign(bool(true));
+            },
+          );
+        });
+      });
+    });
+    return { nearest, found };
+  }
+
+  private rangesWithRole(role: "prey" | "predator"): SpeciesRange[] {
+    return SPECIES_IDS.filter((id) => getSpecies(id).role === role).map((id) =>
+      this.ranges.get(id)!,
+    );
+  }
+
+  // 群れの規則・捕食・障害物・水流・画面端の力を合わせて次の速度を求める
+  private forcesPass(buffers: FishBuffers) {
+    const { capacity, positions, velocities, nextVelocities, species } =
+      buffers;
+
+    return Fn(() => {
+      If(instanceIndex.greaterThanEqual(this.fishCount), () => {
+        Return();
+      });
+      const index = instanceIndex;
+      const position = positions.element(index).xyz.toVar();
+      const velocity = velocities.element(index).xyz.toVar();
+      const speciesIndex = species.element(index).toVar();
+      const param = (key: SpeciesParameterKey) =>
+        this.speciesParameters
+          .element(
+            speciesIndex
+              .mul(SPECIES_PARAMETER_STRIDE)
+              .add(SPECIES_PARAMETER_KEYS.indexOf(key)),
+          )
+          .toVar();
+
+      // 近くに捕食者がいれば逃げながら群れを密にする
+      const fleeRadius = param("fleeRadius");
+      const threat = this.findNearest(
+        buffers,
+        position,
+        fleeRadius,
+        this.rangesWithRole("predator"),
+      );
+
+      const separationRadius = param("separationRadius");
+      const alignmentRadius = param("alignmentRadius");
+      const cohesionRadius = param("cohesionRadius");
+      const separationRadiusSq = separationRadius.mul(separationRadius);
+      const alignmentRadiusSq = alignmentRadius.mul(alignmentRadius);
+      const cohesionRadiusSq = cohesionRadius.mul(cohesionRadius);
+
+      const separation = vec3(0).toVar();
+      const alignment = vec3(0).toVar();
+      const cohesion = vec3(0).toVar();
+      const separationCount = float(0).toVar();
+      const alignmentCount = float(0).toVar();
+      const cohesionCount = float(0).toVar();
+
+      // 周囲 3x3 セルの同じ種だけを見る
+      const { column, row } = this.cellOf(position);
+      Loop(
+        { start: int(-1), end: int(2), type: "int", condition: "<" },
+        { start: int(-1), end: int(2), type: "int", condition: "<" },
+        ({ i: dy, j: dx }) => {
+          const neighborColumn = column.add(dx);
+          const neighborRow = row.add(dy);
+          If(
+            neighborColumn
+              .greaterThanEqual(0)
+              .and(neighborColumn.lessThan(int(this.columns)))
+              .and(neighborRow.greaterThanEqual(0))
+              .and(neighborRow.lessThan(int(this.rows))),
+            () => {
+              const cell = uint(
+                neighborRow.mul(int(this.columns)).add(neighborColumn),
+              ).toVar();
+              Loop(
+                {
+                  start: this.cellStarts.element(cell),
+                  end: this.cellStarts.element(cell.add(1)),
+                  type: "uint",
+                  condition: "<",
+                },
+                ({ i: slot }) => {
+                  const other = buffers.sortedIndices.element(slot).toVar();
+                  If(
+                    other
+                      .notEqual(index)
+                      .and(species.element(other).equal(speciesIndex)),
+                    () => {
+                      const offset = position
+                        .sub(positions.element(other).xyz)
+                        .toVar();
+                      const distanceSq = dot(offset, offset).toVar();
+
+                      If(
+                        distanceSq
+                          .lessThan(separationRadiusSq)
+                          .and(distanceSq.greaterThan(0)),
+                        () => {
+                          separation.addAssign(
+                            offset.normalize().div(sqrt(distanceSq)),
+                          );
+                          separationCount.addAssign(1);
+                        },
+                      );
+                      If(distanceSq.lessThan(alignmentRadiusSq), () => {
+                        alignment.addAssign(velocities.element(other).xyz);
+                        alignmentCount.addAssign(1);
+                      });
+                      If(distanceSq.lessThan(cohesionRadiusSq), () => {
+                        cohesion.addAssign(positions.element(other).xyz);
+                        cohesionCount.addAssign(1);
+                      });
+                    },
+                  );
+                },
+              );
+            },
+          );
+        },
+      );
+
+      const force = vec3(0).toVar();
+      const alignmentWeight = select(
+        threat.found,
+        param("panicAlignmentWeight"),
+        param("alignmentWeight"),
+      );
+      const cohesionWeight = select(
+        threat.found,
+        param("panicCohesionWeight"),
+        param("cohesionWeight"),
+      );
+      If(separationCount.greaterThan(0), () => {
+        force.addAssign(
+          normalizeOrZero(separation.div(separationCount)).mul(
+            param("separationWeight"),
+          ),
+        );
+      });
+      If(alignmentCount.greaterThan(0), () => {
+        force.addAssign(
+          normalizeOrZero(alignment.div(alignmentCount)).mul(alignmentWeight),
+        );
+      });
+      If(cohesionCount.greaterThan(0), () => {
+        force.addAssign(
+          normalizeOrZero(cohesion.div(cohesionCount).sub(position)).mul(
+            cohesionWeight,
+          ),
+        );
+      });
+
+      // ポインタに引き寄せられる
+      If(this.hasPointer.greaterThan(0), () => {
+        const toPointer = this.pointer.sub(position).toVar();
+        const distance = length(toPointer).toVar();
+        If(
+          distance
+            .lessThan(param("mouseAttractionRadius"))
+            .and(distance.greaterThan(0)),
+          () => {
+            force.addAssign(
+              toPointer.div(distance).mul(param("mouseAttractionWeight")),
+            );
+          },
+        );
+      });
+
+      // 捕食者から逃げる（近いほど強い）
+      If(threat.found, () => {
+        const away = position.sub(threat.nearest).toVar();
+        const distance = length(away).toVar();
+        If(distance.greaterThan(0).and(distance.lessThan(fleeRadius)), () => {
+          force.addAssign(
+            away
+              .div(distance)
+              .mul(param("fleeWeight"))
+              .mul(float(1).sub(distance.div(fleeRadius))),
+          );
+        });
+      });
+
+      // 捕食者は一番近い獲物を追う
+      const prey = this.findNearest(
+        buffers,
+        position,
+        param("chaseRadius"),
+        this.rangesWithRole("prey"),
+      );
+      If(prey.found, () => {
+        force.addAssign(
+          normalizeOrZero(prey.nearest.sub(position)).mul(param("chaseWeight")),
+        );
+      });
+
+      // ページの文字やボタンの上は泳がない（boids.ts の avoidObstaclesForce と同じ）
+      const ahead = position.xy
+        .add(velocity.xy.mul(OBSTACLE_LOOK_AHEAD_STEPS))
+        .toVar();
+      const obstacleMargin = param("obstacleMargin");
+      const obstacleWeight = param("obstacleWeight");
+      Loop(
+        {
+          start: uint(0),
+          end: this.obstacleCount,
+          type: "uint",
+          condition: "<",
+        },
+        ({ i }) => {
+          const box = this.environment.element(i).toVar();
+          const closest = vec2(
+            clamp(ahead.x, box.x, box.y),
+            clamp(ahead.y, box.z, box.w),
+          );
+          const away = ahead.sub(closest).toVar();
+          const distance = length(away).toVar();
+          If(
+            distance.greaterThan(0).and(distance.lessThan(obstacleMargin)),
+            () => {
+              const strength = float(1).sub(distance.div(obstacleMargin));
+              force.addAssign(
+                vec3(away.div(distance).mul(strength).mul(obstacleWeight), 0),
+              );
+            },
+          ).ElseIf(distance.equal(0), () => {
+            // 内側：最も近い辺の外向きへ
+            const toLeft = ahead.x.sub(box.x);
+            const toRight = box.y.sub(ahead.x);
+            const toBottom = ahead.y.sub(box.z);
+            const toTop = box.w.sub(ahead.y);
+            const nearest = min(min(toLeft, toRight), min(toBottom, toTop));
+            const outX = select(
+              nearest.equal(toLeft),
+              float(-1),
+              select(nearest.equal(toRight), float(1), float(0)),
+            );
+            const outY = select(
+              outX.notEqual(0),
+              float(0),
+              select(nearest.equal(toBottom), float(-1), float(1)),
+            );
+            force.addAssign(vec3(outX, outY, 0).mul(obstacleWeight));
+          });
+        },
+      );
+
+      // 水流に流され、衝撃波に押し出される（water-currents.ts と同じ）
+      const flow = currentFlowAt(position, {
+        buffer: this.environment,
+        offset: CURRENT_OFFSET,
+        count: this.currentCount,
+        radius: this.flowRadius,
+        maxFlowSpeed: this.maxFlowSpeed,
+      });
+      force.addAssign(vec3(flow.mul(param("currentWeight")), 0));
+
+      const push = vec2(0).toVar();
+      Loop(
+        {
+          start: uint(0),
+          end: this.shockwaveCount,
+          type: "uint",
+          condition: "<",
+        },
+        ({ i }) => {
+          const wave = this.environment
+            .element(uint(i).add(SHOCKWAVE_OFFSET))
+            .toVar();
+          const offset = position.xy.sub(wave.xy).toVar();
+          const distance = length(offset).toVar();
+          const ring = abs(distance.sub(wave.z)).toVar();
+          If(
+            distance.greaterThan(0).and(ring.lessThan(this.shockwaveThickness)),
+            () => {
+              push.addAssign(
+                offset
+                  .div(distance)
+                  .mul(float(1).sub(ring.div(this.shockwaveThickness)))
+                  .mul(wave.w),
+              );
+            },
+          );
+        },
+      );
+      force.addAssign(vec3(push.mul(param("shockwaveWeight")), 0));
+
+      // 端の手前で曲がる／画面外に取り残されたら泳いで戻る
+      If(
+        this.boundaryMode
+          .equal(BOUNDARY_MODE_INDEX.steer)
+          .or(this.isStranded(position)),
+        () => {
+          const margin = param("boundaryMargin");
+          const weight = param("boundaryWeight");
+          force.addAssign(
+            vec3(
+              steerAxis(position.x, this.bounds.x, margin, weight),
+              steerAxis(position.y, this.bounds.y, margin, weight),
+              steerAxis(position.z, this.bounds.z, margin.mul(0.5), weight),
+            ),
+          );
+        },
+      );
+
+      velocity.addAssign(force);
+
+      // ランダムな動きを追加（群れを分散させるため）
+      const seed = this.stepSeed.add(index.mul(3));
+      const jitter = param("jitter");
+      velocity.addAssign(
+        vec3(
+          hash(seed).sub(0.5).mul(jitter),
+          hash(seed.add(1)).sub(0.5).mul(jitter),
+          hash(seed.add(2)).sub(0.5).mul(param("depthJitter")),
+        ),
+      );
+
+      const speed = length(velocity).toVar();
+      const maxSpeed = param("maxSpeed");
+      const minSpeed = param("minSpeed");
+      If(speed.greaterThan(maxSpeed), () => {
+        velocity.assign(velocity.div(speed).mul(maxSpeed));
+      }).ElseIf(speed.lessThan(minSpeed), () => {
+        velocity.assign(normalizeOrZero(velocity).mul(minSpeed));
+      });
+
+      velocity.mulAssign(param("damping"));
+      nextVelocities.element(index).assign(vec4(velocity, 0));
+    })().compute(capacity);
+  }
+
+  // 位置を進め、画面端で跳ね返す／反対側へ移す
+  private integratePass({
+    capacity,
+    positions,
+    previousPositions,
+    velocities,
+    nextVelocities,
+  }: FishBuffers) {
+    return Fn(() => {
+      If(instanceIndex.greaterThanEqual(this.fishCount), () => {
+        Return();
+      });
+      const index = instanceIndex;
+      const state = positions.element(index);
+      const position = state.xyz.toVar();
+      const opacity = state.w.toVar();
+      const velocity = nextVelocities.element(index).xyz.toVar();
+      const stranded = this.isStranded(position).toVar();
+
+      previousPositions.element(index).assign(vec4(position, 0));
+      opacity.assign(min(1, opacity.add(1 / FADE_IN_STEPS)));
+      position.addAssign(velocity);
+
+      const bounceAxis = (axis: "x" | "y" | "z", half: ShaderNode) => {
+        If(abs(position[axis]).greaterThan(half), () => {
+          velocity[axis].mulAssign(-0.8);
+          position[axis].assign(clamp(position[axis], half.negate(), half));
+        });
+      };
+
+      If(stranded.not(), () => {
+        If(this.boundaryMode.equal(BOUNDARY_MODE_INDEX.bounce), () => {
+          bounceAxis("x", this.bounds.x);
+          bounceAxis("y", this.bounds.y);
+          bounceAxis("z", this.bounds.z);
+        }).ElseIf(this.boundaryMode.equal(BOUNDARY_MODE_INDEX.wrap), () => {
+          const halfWidth = this.bounds.x.add(WRAP_MARGIN);
+          const halfHeight = this.bounds.y.add(WRAP_MARGIN);
+          const wrapped = bool(false).toVar();
+          If(abs(position.x).greaterThan(halfWidth), () => {
+            position.x.subAssign(sign(position.x).mul(halfWidth).mul(2));
+            wrapped.assign(bool(true));
+          });
+          If(abs(position.y).greaterThan(halfHeight), () => {
+            position.y.subAssign(sign(position.y).mul(halfHeight).mul(2));
+            wrapped.assign(bool(true));
+          });
+          If(abs(position.z).greaterThan(this.bounds.z), () => {
+            velocity.z.mulAssign(-0.8);
+            position.z.assign(sign(position.z).mul(this.bounds.z));
+          });
+          // 補間で画面を横切らないよう前ステップの位置も揃え、フェードインさせる
+          If(wrapped, () => {
+            previousPositions.element(index).assign(vec4(position, 0));
+            opacity.assign(0);
+          });
+        });
+      });
+
+      positions.element(index).assign(vec4(position, opacity));
+      velocities.element(index).assign(vec4(velocity, 0));
+    })().compute(capacity);
+  }
+
+  /**
+   * 泳ぎの位相・旋回時の傾き・描くポーズをフレームごとに進める（FishRenderer.sync と同じ計算）。
+   * 止まっている間は前の向きと傾きを保つ。
+   */
+  private swimPass({
+    capacity,
+    velocities,
+    phases,
+    headings,
+    poseIndices,
+  }: FishBuffers) {
+    return Fn(() => {
+      If(instanceIndex.greaterThanEqual(this.fishCount), () => {
+        Return();
+      });
+      const velocity = velocities.element(instanceIndex).xyz;
+      const speed = length(velocity).toVar();
+
+      // 速いほど速く尾を振る（advanceSwimPhase）
+      const frequency = speed.mul(FREQUENCY_PER_SPEED).add(MIN_FREQUENCY);
+      const phase = fract(
+        phases.element(instanceIndex).add(frequency.mul(this.deltaSeconds)),
+      ).toVar();
+      phases.element(instanceIndex).assign(phase);
+
+      // 位相と速度からポーズを選ぶ（swimPoseIndex）
+      const frame = floor(phase.mul(SWIM_POSE_FRAMES)).mod(SWIM_POSE_FRAMES);
+      const amplitude = min(
+        MAX_AMPLITUDE,
+        speed.mul(AMPLITUDE_PER_SPEED).add(MIN_AMPLITUDE),
+      );
+      const level = clamp(
+        round(amplitude.div(MAX_AMPLITUDE).mul(SWIM_AMPLITUDE_LEVELS)).sub(1),
+        0,
+        SWIM_AMPLITUDE_LEVELS - 1,
+      );
+      poseIndices
+        .element(instanceIndex)
+        .assign(uint(level.mul(SWIM_POSE_FRAMES).add(frame)));
+
+      // 急に曲がるときは内側に傾ける（headingChange と bankingRoll）
+      If(speed.greaterThan(0.01), () => {
+        const state = headings.element(instanceIndex);
+        const previous = state.xyz;
+        const direction = velocity.div(speed);
+        const turn = select(
+          dot(previous, previous).greaterThan(0),
+          atan(
+            previous.x.mul(direction.y).sub(previous.y.mul(direction.x)),
+            previous.x.mul(direction.x).add(previous.y.mul(direction.y)),
+          ),
+          float(0),
+        );
+        const turnRate = select(
+          this.deltaSeconds.greaterThan(0),
+          turn.div(max(this.deltaSeconds, 1e-8)),
+          float(0),
+        );
+        const target = clamp(
+          turnRate.mul(-BANK_PER_TURN_RATE),
+          -MAX_BANK,
+          MAX_BANK,
+        );
+        const blend = exp(this.deltaSeconds.mul(-BANK_SMOOTHING)).oneMinus();
+        const roll = state.w.add(target.sub(state.w).mul(blend));
+        state.assign(vec4(direction, roll));
+      });
+    })().compute(capacity);
+  }
+
+  /**
+   * 種のモデルのサブメッシュごとに、ストレージバッファから頂点を組み立てるメッシュを作る。
+   * 泳ぎのポーズは FishRenderer と同じく bakeSwimParts で焼き込み（クリップがあればそれを使う）、
+   * 魚ごとに選んだポーズの頂点位置をバッファから引く。
+   * 模様は頂点属性として焼き込んだ濃淡を魚ごとに選ぶ。
+   */
+  private createMeshes(
+    speciesId: SpeciesId,
+    model: THREE.Group,
+    buffers: FishBuffers,
+  ): THREE.Mesh[] {
+    const { positions, previousPositions, headings, poseIndices, colors } =
+      buffers;
+    const { start } = this.ranges.get(speciesId)!;
+    const speciesScale = getSpecies(speciesId).scale;
+
+    return bakeSwimParts(model).map((part) => {
+      const source = part.geometry;
+      const geometry = new THREE.BufferGeometry();
+      geometry.setIndex(source.getIndex());
+      Object.entries(source.attributes).forEach(([name, value]) =>
+        geometry.setAttribute(name, value),
+      );
+      geometry.setAttribute("stripeShade", patternColors(source, "stripes"));
+      geometry.setAttribute("gradientShade", patternColors(source, "gradient"));
+      geometry.groups = source.groups;
+      this.geometries.push(geometry);
+
+      // ポーズごとの頂点位置を [ポーズ * 頂点数 + 頂点] の順に並べる
+      const vertexCount = part.poses[0].count;
+      const poseData = new Float32Array(SWIM_POSE_COUNT * vertexCount * 4);
+      part.poses.forEach((pose, poseIndex) => {
+        for (let i = 0; i < vertexCount; i++) {
+          poseData.set(
+            [pose.getX(i), pose.getY(i), pose.getZ(i), 0],
+            (poseIndex * vertexCount + i) * 4,
+          );
+        }
+      });
+      const poses = instancedArray(poseData, "vec4");
+
+      const partMatrix = uniform(part.matrix);
+      const partNormalMatrix = uniform(
+        new THREE.Matrix3().getNormalMatrix(part.matrix),
+      );
+
+      const fishIndex = instanceIndex.add(start);
+      const state = headings.element(fishIndex);
+
+      // 進行方向を +X に向ける基底（FishRenderer の lookAt と rotateY(-π/2) と同じ向き）
+      const forward = select(
+        length(state.xyz).greaterThan(0.5),
+        state.xyz,
+        vec3(1, 0, 0),
+      );
+      const sideways = cross(vec3(0, 1, 0), forward);
+      const side = select(
+        length(sideways).greaterThan(1e-4),
+        normalizeOrZero(sideways),
+        vec3(0, 0, 1),
+      );
+      const up = cross(forward, side);
+      // 頭の向き（モデルの X 軸）まわりに傾けてから向ける（rotateX(roll) と同じ）
+      const rollCos = cos(state.w);
+      const rollSin = sin(state.w);
+      const orient = (v: ShaderNode) => {
+        const y = v.y.mul(rollCos).sub(v.z.mul(rollSin));
+        const z = v.y.mul(rollSin).add(v.z.mul(rollCos));
+        return forward.mul(v.x).add(up.mul(y)).sub(side.mul(z));
+      };
+
+      const positionNode = Fn(() => {
+        const posed = poses.element(
+          poseIndices.element(fishIndex).mul(vertexCount).add(vertexIndex),
+        ).xyz;
+        const local = partMatrix
+          .mul(vec4(posed, 1))
+          .xyz.mul(colors.element(fishIndex).w.mul(speciesScale));
+        normalLocal.assign(
+          orient(partNormalMatrix.mul(normalGeometry)).normalize(),
+        );
+
+        const center = mix(
+          previousPositions.element(fishIndex).xyz,
+          positions.element(fishIndex).xyz,
+          this.alpha,
+        );
+        return orient(local).add(center);
+      })();
+
+      // 背景の色から魚の色へのフェードイン × 模様の濃淡
+      const pattern = buffers.patterns.element(fishIndex);
+      const shade = select(
+        pattern.equal(PATTERN_INDEX.stripes),
+        attribute("stripeShade", "vec3").x,
+        select(
+          pattern.equal(PATTERN_INDEX.gradient),
+          attribute("gradientShade", "vec3").x,
+          float(1),
+        ),
+      );
+      const tint = varying(
+        mix(
+          this.fadeColor,
+          colors.element(fishIndex).xyz,
+          positions.element(fishIndex).w,
+        ).mul(shade),
+      );
+
+      const toNodeMaterial = (material: THREE.Material): NodeMaterial => {
+        const converted = this.renderer.library.fromMaterial(material.clone());
+        const nodeMaterial =
+          converted instanceof NodeMaterial
+            ? converted
+            : new MeshStandardNodeMaterial();
+        nodeMaterial.positionNode = positionNode;
+        nodeMaterial.colorNode = materialColor.mul(tint);
+        this.materials.push(nodeMaterial);
+        return nodeMaterial;
+      };
+      const material = Array.isArray(part.material)
+        ? part.material.map(toNodeMaterial)
+        : toNodeMaterial(part.material);
+
+      const mesh = new THREE.Mesh(geometry, material);
+      mesh.count = 0;
+      mesh.visible = false;
+      // 頂点位置はシェーダーで決まるので境界球によるカリングはしない
+      mesh.frustumCulled = false;
+      this.scene.add(mesh);
+      return mesh;
+    });
+  }
+}
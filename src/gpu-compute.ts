@@ -0,0 +1,67 @@
+import { ComputeNode, Node, UniformNode, WebGPURenderer } from "three/webgpu";
+import {
+  If,
+  Loop,
+  dot,
+  exp,
+  instancedArray,
+  length,
+  uint,
+  uniform,
+  vec2,
+  type ShaderNodeObject,
+} from "three/tsl";
+
+/**
+ * コンピュートシェーダーで動かすもの（群れ・パーティクル）が共有する道具。
+ */
+
+// WebGPU バックエンドで動いているときだけコンピュートシェーダーを使う
+export const supportsCompute = (
+  renderer: unknown,
+): renderer is WebGPURenderer =>
+  renderer instanceof WebGPURenderer &&
+  (renderer.backend as { isWebGPUBackend?: boolean }).isWebGPUBackend === true;
+
+export const uintUniform = () => uniform(0, "uint");
+export type UintUniform = ReturnType<typeof uintUniform>;
+export type StorageBuffer = ReturnType<typeof instancedArray>;
+export type ComputePass = ShaderNodeObject<ComputeNode>;
+export type ShaderNode = ShaderNodeObject<Node>;
+export type FloatUniform = ShaderNodeObject<UniformNode<number>>;
+
+// GPU に渡す水流の数の上限（これを超えたら新しいものを優先）
+export const MAX_CURRENTS = 128;
+
+export interface CurrentsInput {
+  buffer: StorageBuffer; // WaterCurrents.packInto で詰めた vec4 の並び
+  offset: number; // buffer の何番目から並んでいるか
+  count: UintUniform;
+  radius: FloatUniform;
+  maxFlowSpeed: FloatUniform;
+}
+
+// 位置での水流の速度（WaterCurrents.sample と同じ）。Fn の中で呼ぶ
+export const currentFlowAt = (
+  position: ShaderNode,
+  { buffer, offset, count, radius, maxFlowSpeed }: CurrentsInput,
+): ShaderNode => {
+  const radiusSq = radius.mul(radius);
+  const flow = vec2(0).toVar();
+  Loop(
+    { start: uint(0), end: count, type: "uint", condition: "<" },
+    ({ i }) => {
+      const current = buffer.element(uint(i).add(offset)).toVar();
+      const delta = position.xy.sub(current.xy);
+      const distanceSq = dot(delta, delta).toVar();
+      If(distanceSq.lessThanEqual(radiusSq.mul(4)), () => {
+        flow.addAssign(current.zw.mul(exp(distanceSq.negate().div(radiusSq))));
+      });
+    },
+  );
+  const speed = length(flow).toVar();
+  If(speed.greaterThan(maxFlowSpeed), () => {
+    flow.mulAssign(maxFlowSpeed.div(speed));
+  });
+  return flow;
+};
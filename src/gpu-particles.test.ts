@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { ParticleRing } from "./gpu-particles";
+
+const spawn = (ring: ParticleRing, count: number, lifetime: number) => {
+  for (let i = 0; i < count; i++) ring.reserve(lifetime);
+};
+
+describe("ParticleRing", () => {
+  test("keeps particles alive for their lifetime in steps", () => {
+    const ring = new ParticleRing(64, 16, 40);
+    spawn(ring, 3, 40);
+    expect(ring.activeCount).toBe(3);
+
+    for (let i = 0; i < 39; i++) ring.advance();
+    expect(ring.activeCount).toBe(3);
+
+    ring.advance();
+    expect(ring.activeCount).toBe(0);
+    expect(ring.windowCount).toBe(0);
+  });
+
+  test("counts short-lived particles out while they stay in the window", () => {
+    const ring = new ParticleRing(64, 16, 40);
+    spawn(ring, 2, 10);
+    spawn(ring, 1, 40);
+    for (let i = 0; i < 10; i++) ring.advance();
+
+    expect(ring.activeCount).toBe(1);
+    expect(ring.windowCount).toBe(3);
+  });
+
+  test("tracks the window as one run of slots in the ring", () => {
+    const ring = new ParticleRing(8, 8, 40);
+    spawn(ring, 6, 40);
+    expect(ring.advance()).toEqual({ spawnSlot: 0, spawnCount: 6 });
+    spawn(ring, 2, 40);
+    expect(ring.activeCount).toBe(8);
+    for (let i = 0; i < 39; i++) ring.advance();
+
+    // 最初の6つが消え、残る2つはスロット 6〜7
+    expect(ring.windowCount).toBe(2);
+    expect(ring.firstSlot).toBe(6);
+
+    // 先頭に戻って書き込み、同じステップで残りの2つも寿命を迎える
+    spawn(ring, 3, 40);
+    expect(ring.advance()).toEqual({ spawnSlot: 0, spawnCount: 3 });
+    expect(ring.firstSlot).toBe(0);
+    expect(ring.windowCount).toBe(3);
+  });
+
+  test("drops spawns beyond capacity or the per-step limit", () => {
+    const ring = new ParticleRing(8, 4, 40);
+    expect([0, 1, 2, 3, 4].map(() => ring.reserve(40))).toEqual([
+      0, 1, 2, 3, -1,
+    ]);
+    ring.advance();
+    spawn(ring, 10, 40);
+    expect(ring.activeCount).toBe(8);
+  });
+
+  test("recycles the oldest slots when full", () => {
+    const ring = new ParticleRing(4, 8, 40, "recycle-oldest");
+    spawn(ring, 2, 10);
+    spawn(ring, 2, 40);
+    ring.advance();
+
+    // 書き込み先はいちばん古いスロットから
+    expect([0, 1].map(() => ring.reserve(40))).toEqual([0, 1]);
+    expect(ring.recycledCount).toBe(2);
+    expect(ring.droppedCount).toBe(0);
+    expect(ring.activeCount).toBe(4);
+    expect(ring.advance()).toEqual({ spawnSlot: 0, spawnCount: 2 });
+    expect(ring.firstSlot).toBe(2);
+    expect(ring.windowCount).toBe(4);
+
+    // 外したものの寿命は数え直さない
+    for (let i = 0; i < 9; i++) ring.advance();
+    expect(ring.activeCount).toBe(4);
+  });
+
+  test("drops when only pending spawns fill the ring", () => {
+    const ring = new ParticleRing(4, 8, 40, "recycle-oldest");
+    spawn(ring, 6, 40);
+    expect(ring.activeCount).toBe(4);
+    expect(ring.droppedCount).toBe(2);
+    expect(ring.recycledCount).toBe(0);
+  });
+});
@@ -0,0 +1,529 @@
+import * as THREE from "three";
+import { MeshBasicNodeMaterial, WebGPURenderer } from "three/webgpu";
+import {
+  Fn,
+  If,
+  Return,
+  cameraProjectionMatrix,
+  clamp,
+  cos,
+  float,
+  floor,
+  instanceIndex,
+  instancedArray,
+  length,
+  materialOpacity,
+  max,
+  min,
+  mix,
+  modelViewMatrix,
+  positionGeometry,
+  select,
+  sin,
+  texture,
+  uint,
+  uniform,
+  uv,
+  varying,
+  vec2,
+  vec4,
+} from "three/tsl";
+import {
+  bakeLifeCurve,
+  EmitterConfig,
+  LIFE_CURVE_SAMPLES,
+  LIFE_CURVE_STRIDE,
+  maxLifetime,
+  OverflowPolicy,
+  ParticleSpawn,
+} from "./particle-emitter";
+import { FlowField, WaterCurrents } from "./water-currents";
+import {
+  ComputePass,
+  currentFlowAt,
+  MAX_CURRENTS,
+  ShaderNode,
+  StorageBuffer,
+  uintUniform,
+} from "./gpu-compute";
+import {
+  blendingParameters,
+  createSpriteTexture,
+  SPRITE_QUAD_SIZE,
+} from "./particle-sprite";
+
+export const GPU_PARTICLE_CAPACITY = 1 << 17;
+// 1ステップで GPU に送れる新しいパーティクルの数
+export const MAX_SPAWNS_PER_STEP = 16384;
+// 書き込み待ちの1粒あたりの vec4 の数
+const SPAWN_STRIDE = 4;
+
+/**
+ * GPU のリングバッファのうち、パーティクルが入っている範囲を CPU 側で数える。
+ * 最長の寿命より前に生まれたものはもう生きていないので、
+ * 範囲は「最近 maxLifetime ステップに生まれた分」としてリング上で常に連続する。
+ * 生きている数も、生まれたときに寿命がわかっているので読み戻さずに数えられる。
+ * いっぱいのときは overflow に従って新しいものを捨てるか、範囲の先頭（いちばん古いもの）を外す。
+ */
+export class ParticleRing {
+  readonly capacity: number;
+  readonly maxSpawnsPerStep: number;
+  private readonly maxLifetime: number;
+  private readonly overflow: OverflowPolicy;
+  private spawned: Uint32Array; // ステップごとに生まれた数（範囲の管理用）
+  private deaths: Uint32Array; // ステップごとに寿命を迎える数
+  private slotSpawnStep: Uint32Array; // スロットごとの生まれたステップ
+  private slotDeathStep: Uint32Array; // スロットごとの寿命を迎えるステップ
+  private step = 0;
+  private window = 0;
+  private live = 0;
+  private pending = 0; // 次の advance で書き込む数
+  private cursor = 0; // 次に書き込むスロット
+  private dropped = 0;
+  private recycled = 0;
+
+  constructor(
+    capacity: number,
+    maxSpawnsPerStep: number,
+    maxLifetime: number,
+    overflow: OverflowPolicy = "drop-new",
+  ) {
+    this.capacity = capacity;
+    this.maxSpawnsPerStep = maxSpawnsPerStep;
+    this.maxLifetime = maxLifetime;
+    this.overflow = overflow;
+    this.spawned = new Uint32Array(maxLifetime);
+    this.deaths = new Uint32Array(maxLifetime + 1);
+    this.slotSpawnStep = new Uint32Array(capacity);
+    this.slotDeathStep = new Uint32Array(capacity);
+  }
+
+  // 書き込み待ちも含めた生きている数
+  get activeCount(): number {
+    return this.live;
+  }
+
+  // リング上の範囲（先頭のスロットと数）。寿命を迎えたものも含む
+  get windowCount(): number {
+    return this.window;
+  }
+
+  get firstSlot(): number {
+    return (this.cursor - this.window + this.capacity) % this.capacity;
+  }
+
+  // いっぱいで捨てた数
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  // いっぱいで古いものを外した数
+  get recycledCount(): number {
+    return this.recycled;
+  }
+
+  /**
+   * lifetime ステップ生きるパーティクルの場所を取る。
+   * 書き込み待ちの何番目に入れるかを返す（入れられなければ -1）。
+   */
+  reserve(lifetime: number): number {
+    if (this.pending >= this.maxSpawnsPerStep) {
+      this.dropped++;
+      return -1;
+    }
+    if (this.window + this.pending >= this.capacity) {
+      // 書き込み待ちどうしは置き換えられないので、範囲が空なら捨てる
+      if (this.overflow !== "recycle-oldest" || this.window === 0) {
+        this.dropped++;
+        return -1;
+      }
+      this.evictOldest();
+    }
+
+    const slot = (this.cursor + this.pending) % this.capacity;
+    const death = this.step + Math.min(lifetime, this.maxLifetime);
+    this.slotSpawnStep[slot] = this.step;
+    this.slotDeathStep[slot] = death;
+    this.deaths[death % this.deaths.length]++;
+    this.live++;
+    return this.pending++;
+  }
+
+  // 固定タイムステップ1回分：書き込み待ちをリングに移し、寿命を迎えた分を外す
+  advance(): { spawnSlot: number; spawnCount: number } {
+    const spawnSlot = this.cursor;
+    const spawnCount = this.pending;
+    this.cursor = (this.cursor + spawnCount) % this.capacity;
+    this.window += spawnCount;
+    this.pending = 0;
+
+    this.spawned[this.step % this.maxLifetime] = spawnCount;
+    this.step++;
+    const expired = this.step % this.maxLifetime;
+    this.window -= this.spawned[expired];
+    this.spawned[expired] = 0;
+    const dying = this.step % this.deaths.length;
+    this.live -= this.deaths[dying];
+    this.deaths[dying] = 0;
+
+    return { spawnSlot, spawnCount };
+  }
+
+  // 範囲の先頭を外す。まだ生きていれば生きている数からも外す
+  private evictOldest(): void {
+    const slot = this.firstSlot;
+    this.window--;
+    this.spawned[this.slotSpawnStep[slot] % this.maxLifetime]--;
+    const death = this.slotDeathStep[slot];
+    if (death > this.step) {
+      this.deaths[death % this.deaths.length]--;
+      this.live--;
+    }
+    this.recycled++;
+  }
+}
+
+const NO_SHOCKWAVES = new Float32Array(0);
+
+// GPU 上で位置と速度を読む放出元（群れの魚のバッファ）
+export interface ParticleSourceBuffers {
+  previousPositions: StorageBuffer; // xyz を放出位置にする
+  velocities: StorageBuffer;
+}
+
+/**
+ * WebGPU での1つのエミッター分のパーティクル。状態はストレージバッファに置き、
+ * 生成・移動・寿命の判定をコンピュートシェーダーで行い、描画もそのバッファを直接読む。
+ * CPU は新しいパーティクルを書き込み待ちの列に詰めて送るだけ。
+ */
+export class GPUParticleStore {
+  private readonly renderer: WebGPURenderer;
+  private readonly capacity: number;
+  private readonly ring: ParticleRing;
+
+  private readonly positions: StorageBuffer; // xyz と大きさ
+  private readonly previousPositions: StorageBuffer; // xyz と寿命
+  private readonly velocities: StorageBuffer; // xyz と経過ステップ数
+  private readonly colors: StorageBuffer;
+  private readonly sprites: StorageBuffer; // 板の最初の向き（瞬きの位相）と回転の速さ
+  private readonly config: EmitterConfig;
+  // 書き込み待ち（1粒あたり 位置と大きさ・速度・色と寿命・向きと回転と放出元 の4つ）
+  private readonly spawns = instancedArray(
+    MAX_SPAWNS_PER_STEP * SPAWN_STRIDE,
+    "vec4",
+  );
+  private readonly currents = instancedArray(MAX_CURRENTS, "vec4");
+  private readonly lifeCurve = instancedArray(
+    (LIFE_CURVE_SAMPLES * LIFE_CURVE_STRIDE) / 4,
+    "vec4",
+  );
+
+  private readonly spawnSlot = uintUniform();
+  private readonly spawnCount = uintUniform();
+  private readonly firstSlot = uintUniform();
+  private readonly windowCount = uintUniform();
+  private readonly currentCount = uintUniform();
+  private readonly flowRadius = uniform(1);
+  private readonly maxFlowSpeed = uniform(0);
+  private readonly alpha = uniform(1);
+
+  private readonly stepPasses: ComputePass[];
+  private source: ParticleSourceBuffers | null = null;
+  private readonly geometry: THREE.BufferGeometry;
+  private readonly spriteTexture: THREE.Texture | null;
+  private readonly material: MeshBasicNodeMaterial;
+  private readonly mesh: THREE.Mesh;
+
+  constructor(renderer: WebGPURenderer, config: EmitterConfig) {
+    this.renderer = renderer;
+    this.config = config;
+    this.capacity = Math.min(
+      Math.max(1, config.maxParticles ?? GPU_PARTICLE_CAPACITY),
+      GPU_PARTICLE_CAPACITY,
+    );
+    this.ring = new ParticleRing(
+      this.capacity,
+      MAX_SPAWNS_PER_STEP,
+      maxLifetime(config),
+      config.overflow,
+    );
+    this.positions = instancedArray(this.capacity, "vec4");
+    this.previousPositions = instancedArray(this.capacity, "vec4");
+    this.velocities = instancedArray(this.capacity, "vec4");
+    this.colors = instancedArray(this.capacity, "vec4");
+    this.sprites = instancedArray(this.capacity, "vec2");
+    (this.lifeCurve.value.array as Float32Array).set(bakeLifeCurve(config));
+    this.stepPasses = [this.spawnPass(), this.integratePass(config)];
+
+    const { sprite } = config;
+    this.geometry = sprite
+      ? new THREE.PlaneGeometry(SPRITE_QUAD_SIZE, SPRITE_QUAD_SIZE)
+      : new THREE.SphereGeometry(1, 6, 4);
+    this.spriteTexture = sprite ? createSpriteTexture(sprite) : null;
+    this.material = new MeshBasicNodeMaterial({
+      transparent: true,
+      opacity: config.opacity,
+      ...blendingParameters(config),
+    });
+
+    const slot = this.slotOf(instanceIndex);
+    const age = this.velocities.element(slot).w;
+    const lifetime = this.previousPositions.element(slot).w;
+    const { colorAndSize, opacity } = this.lifeCurveAt(age.div(lifetime));
+    const position = this.positions.element(slot);
+    const center = mix(
+      this.previousPositions.element(slot).xyz,
+      position.xyz,
+      this.alpha,
+    );
+    // 寿命を迎えたものは大きさ 0 にして見えなくする
+    const scale = select(
+      age.lessThan(lifetime),
+      position.w.mul(colorAndSize.w),
+      0,
+    );
+    const spriteState = this.sprites.element(slot);
+    let fade: ShaderNode = opacity;
+
+    if (sprite) {
+      // 板の中心をカメラ座標に移し、画面の向きのまま回して広げる
+      this.material.vertexNode = Fn(() => {
+        const rotation = spriteState.x.add(spriteState.y.mul(age));
+        const corner = positionGeometry.xy.mul(scale);
+        const turned = vec2(
+          corner.x.mul(cos(rotation)).sub(corner.y.mul(sin(rotation))),
+          corner.x.mul(sin(rotation)).add(corner.y.mul(cos(rotation))),
+        );
+        const viewCenter = modelViewMatrix.mul(vec4(center, 1));
+        return cameraProjectionMatrix.mul(
+          vec4(viewCenter.xy.add(turned), viewCenter.zw),
+        );
+      })();
+      if (sprite.twinkle) {
+        const { speed, amount } = sprite.twinkle;
+        const wave = sin(spriteState.x.add(age.mul(speed)));
+        fade = fade.mul(float(1).sub(wave.mul(0.5).add(0.5).mul(amount)));
+      }
+    } else {
+      this.material.positionNode = positionGeometry.mul(scale).add(center);
+    }
+
+    this.material.colorNode = varying(
+      this.colors.element(slot).xyz.mul(colorAndSize.xyz),
+    );
+    const alphaNode = varying(fade).mul(materialOpacity);
+    this.material.opacityNode = this.spriteTexture
+      ? alphaNode.mul(texture(this.spriteTexture, uv()).a)
+      : alphaNode;
+
+    this.mesh = new THREE.Mesh(this.geometry, this.material);
+    this.mesh.count = 0;
+    this.mesh.visible = false;
+    // 頂点位置はシェーダーで決まるので境界球によるカリングはしない
+    this.mesh.frustumCulled = false;
+  }
+
+  get activeCount(): number {
+    return this.ring.activeCount;
+  }
+
+  get droppedCount(): number {
+    return this.ring.droppedCount;
+  }
+
+  get recycledCount(): number {
+    return this.ring.recycledCount;
+  }
+
+  get object(): THREE.Object3D {
+    return this.mesh;
+  }
+
+  spawn(particle: ParticleSpawn): void {
+    this.write(particle, 0, 0);
+  }
+
+  /**
+   * source の sourceIndex 番目を放出元にして出す。particle の位置と速度は放出元からのずれで、
+   * 放出元の位置・進行方向への offset・引き継ぐ速度は書き込むときに GPU 上で足す。
+   * 放出元が minSpeed 以下の速さなら寿命 0 で書き込む（それでも寿命のあいだは数に入る）。
+   */
+  spawnFrom(
+    source: ParticleSourceBuffers,
+    sourceIndex: number,
+    minSpeed: number,
+    particle: ParticleSpawn,
+  ): void {
+    if (source !== this.source) {
+      // 群れのバッファが作り直されたら読む先を差し替える
+      this.source = source;
+      this.stepPasses[0].dispose();
+      this.stepPasses[0] = this.spawnPass(source);
+    }
+    this.write(particle, sourceIndex + 1, minSpeed);
+  }
+
+  update(flow?: FlowField): void {
+    const { spawnSlot, spawnCount } = this.ring.advance();
+    this.spawnSlot.value = spawnSlot;
+    this.spawnCount.value = spawnCount;
+    this.firstSlot.value = this.ring.firstSlot;
+    this.windowCount.value = this.ring.windowCount;
+    if (spawnCount > 0) {
+      this.spawns.value.addUpdateRange(0, spawnCount * SPAWN_STRIDE * 4);
+      this.spawns.value.needsUpdate = true;
+    }
+
+    if (flow instanceof WaterCurrents && !flow.isCalm) {
+      const { currentCount } = flow.packInto(
+        this.currents.value.array as Float32Array,
+        NO_SHOCKWAVES,
+      );
+      this.currentCount.value = currentCount;
+      this.flowRadius.value = flow.radius;
+      this.maxFlowSpeed.value = flow.maxFlowSpeed;
+      this.currents.value.needsUpdate = true;
+    } else {
+      this.currentCount.value = 0;
+    }
+
+    if (this.ring.windowCount > 0) this.renderer.compute(this.stepPasses);
+  }
+
+  render(alpha: number): void {
+    this.alpha.value = alpha;
+    this.mesh.count = this.ring.windowCount;
+    this.mesh.visible = this.mesh.count > 0;
+  }
+
+  dispose(): void {
+    this.mesh.removeFromParent();
+    this.geometry.dispose();
+    this.spriteTexture?.dispose();
+    this.material.dispose();
+    this.stepPasses.forEach((pass) => pass.dispose());
+  }
+
+  // 書き込み待ちに1粒詰める（source は放出元の番号 + 1、0 なら放出元なし）
+  private write(
+    { position, velocity, color, size, lifetime, phase, spin }: ParticleSpawn,
+    source: number,
+    minSpeed: number,
+  ): void {
+    const index = this.ring.reserve(lifetime);
+    if (index < 0) return;
+
+    const spawns = this.spawns.value.array as Float32Array;
+    const offset = index * SPAWN_STRIDE * 4;
+    position.toArray(spawns, offset);
+    spawns[offset + 3] = size;
+    velocity.toArray(spawns, offset + 4);
+    spawns[offset + 7] = 0;
+    color.toArray(spawns, offset + 8);
+    spawns[offset + 11] = lifetime;
+    spawns[offset + 12] = phase;
+    spawns[offset + 13] = spin;
+    spawns[offset + 14] = source;
+    spawns[offset + 15] = minSpeed;
+  }
+
+  // 範囲の index 番目がリングのどのスロットか
+  private slotOf(index: typeof instanceIndex) {
+    return this.firstSlot.add(index).mod(this.capacity);
+  }
+
+  // 寿命の割合 t での色（xyz）と大きさ（w）、不透明度を表から引く（sampleLifeCurve と同じ）
+  private lifeCurveAt(t: ShaderNode) {
+    const position = clamp(t, 0, 1).mul(LIFE_CURVE_SAMPLES - 1);
+    const index = min(uint(floor(position)), uint(LIFE_CURVE_SAMPLES - 2));
+    const amount = position.sub(index.toFloat());
+    const row = index.mul(2);
+    return {
+      colorAndSize: mix(
+        this.lifeCurve.element(row),
+        this.lifeCurve.element(row.add(2)),
+        amount,
+      ),
+      opacity: mix(
+        this.lifeCurve.element(row.add(1)).x,
+        this.lifeCurve.element(row.add(3)).x,
+        amount,
+      ),
+    };
+  }
+
+  // 書き込み待ちをリングの末尾に移す（放出元のあるものは sampleParticle の残りをここで足す）
+  private spawnPass(source: ParticleSourceBuffers | null = null): ComputePass {
+    const { offset, inheritVelocity } = this.config;
+    return Fn(() => {
+      If(instanceIndex.greaterThanEqual(this.spawnCount), () => {
+        Return();
+      });
+      const slot = this.spawnSlot.add(instanceIndex).mod(this.capacity);
+      const base = instanceIndex.mul(SPAWN_STRIDE);
+      const position = this.spawns.element(base).toVar();
+      const velocity = this.spawns.element(base.add(1)).toVar();
+      const color = this.spawns.element(base.add(2)).toVar();
+      const sprite = this.spawns.element(base.add(3));
+      if (source) {
+        If(sprite.z.greaterThan(0), () => {
+          const index = uint(sprite.z).sub(1);
+          const sourceVelocity = source.velocities.element(index).xyz;
+          const speed = length(sourceVelocity);
+          position.xyz.addAssign(
+            source.previousPositions
+              .element(index)
+              .xyz.add(sourceVelocity.div(max(speed, 1e-8)).mul(offset)),
+          );
+          velocity.xyz.addAssign(sourceVelocity.mul(inheritVelocity));
+          If(speed.lessThanEqual(sprite.w), () => {
+            color.w.assign(0);
+          });
+        });
+      }
+      this.positions.element(slot).assign(position);
+      this.previousPositions.element(slot).assign(vec4(position.xyz, color.w));
+      this.velocities.element(slot).assign(velocity);
+      this.colors.element(slot).assign(vec4(color.xyz, 1));
+      this.sprites.element(slot).assign(sprite.xy);
+    })().compute(MAX_SPAWNS_PER_STEP);
+  }
+
+  // 範囲内の生きているものだけを動かす（CPU の ParticleLayer.update と同じ順）
+  private integratePass({
+    gravity,
+    drag,
+    flowCarry,
+  }: EmitterConfig): ComputePass {
+    return Fn(() => {
+      If(instanceIndex.greaterThanEqual(this.windowCount), () => {
+        Return();
+      });
+      const slot = this.slotOf(instanceIndex);
+      const position = this.positions.element(slot);
+      const previous = this.previousPositions.element(slot);
+      const velocity = this.velocities.element(slot).toVar();
+
+      If(velocity.w.greaterThanEqual(previous.w), () => {
+        Return();
+      });
+      velocity.w.addAssign(1);
+      If(velocity.w.lessThan(previous.w), () => {
+        previous.xyz.assign(position.xyz);
+        position.xyz.addAssign(velocity.xyz);
+        velocity.xyz.mulAssign(1 - drag);
+        velocity.y.subAssign(gravity);
+
+        const flow = currentFlowAt(position, {
+          buffer: this.currents,
+          offset: 0,
+          count: this.currentCount,
+          radius: this.flowRadius,
+          maxFlowSpeed: this.maxFlowSpeed,
+        });
+        velocity.xy.addAssign(flow.mul(flowCarry));
+      });
+      this.velocities.element(slot).assign(velocity);
+    })().compute(this.capacity);
+  }
+}
@@ -1,11 +1,15 @@
 import { serve } from "bun";
 import index from "./index.html";
+import { sceneWorkerRoutes } from "./scene-worker-build";
 
 const server = serve({
   routes: {
     // Serve index.html for all unmatched routes.
     "/*": index,
 
+    // The scene worker is bundled on its own (see scene-worker-build.ts)
+    ...(await sceneWorkerRoutes()),
+
     "/api/hello": {
       async GET(req) {
         return Response.json({
@@ -0,0 +1,107 @@
+import * as THREE from "three";
+import { screenToWorld, Viewport } from "./simulation";
+
+// ワールド座標での障害物（xy平面の矩形、奥行き方向には無限に伸びる）
+export interface Obstacle {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// 障害物として扱うDOM要素に付ける属性
+export const OBSTACLE_ATTRIBUTE = "data-fish-obstacle";
+
+const corner = new THREE.Vector3();
+
+// 画面上の矩形をマウスと同じ変換でワールド座標の障害物にする
+export const rectToObstacle = (
+  rect: { left: number; top: number; right: number; bottom: number },
+  viewport: Viewport,
+): Obstacle => {
+  screenToWorld({ x: rect.left, y: rect.bottom }, viewport, corner);
+  const minX = corner.x;
+  const minY = corner.y;
+  screenToWorld({ x: rect.right, y: rect.top }, viewport, corner);
+  return { minX, maxX: corner.x, minY, maxY: corner.y };
+};
+
+/**
+ * `data-fish-obstacle` が付いたDOM要素の位置を測って障害物にする。
+ * リサイズ・スクロール・要素のサイズ変化・DOMの追加削除があれば測り直す。
+ */
+export class DomObstacleTracker {
+  private readonly root: ParentNode;
+  private obstacles: Obstacle[] = [];
+  private elements: Element[] = [];
+  private resizeObserver: ResizeObserver | null = null;
+  private mutationObserver: MutationObserver | null = null;
+  private frameRequest: number | null = null;
+  private readonly onChange?: (obstacles: Obstacle[]) => void;
+
+  // onChange は測り直すたびに呼ぶ（シーンが別スレッドにあるとき送るため）
+  constructor(
+    root: ParentNode = document,
+    onChange?: (obstacles: Obstacle[]) => void,
+  ) {
+    this.root = root;
+    this.onChange = onChange;
+  }
+
+  start(): void {
+    this.resizeObserver = new ResizeObserver(() => this.scheduleMeasure());
+    this.mutationObserver = new MutationObserver(() => this.collectElements());
+    this.mutationObserver.observe(document.body, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: [OBSTACLE_ATTRIBUTE, "class", "style"],
+    });
+
+    window.addEventListener("resize", this.scheduleMeasure);
+    window.addEventListener("scroll", this.scheduleMeasure, true);
+
+    this.collectElements();
+  }
+
+  getObstacles(): Obstacle[] {
+    return this.obstacles;
+  }
+
+  measure(): void {
+    const viewport = { width: window.innerWidth, height: window.innerHeight };
+    this.obstacles = this.elements
+      .map((element) => element.getBoundingClientRect())
+      .filter((rect) => rect.width > 0 && rect.height > 0)
+      .map((rect) => rectToObstacle(rect, viewport));
+    this.onChange?.(this.obstacles);
+  }
+
+  dispose(): void {
+    this.resizeObserver?.disconnect();
+    this.mutationObserver?.disconnect();
+    window.removeEventListener("resize", this.scheduleMeasure);
+    window.removeEventListener("scroll", this.scheduleMeasure, true);
+    if (this.frameRequest !== null) cancelAnimationFrame(this.frameRequest);
+    this.obstacles = [];
+    this.elements = [];
+  }
+
+  private collectElements(): void {
+    this.elements = Array.from(
+      this.root.querySelectorAll(`[${OBSTACLE_ATTRIBUTE}]`),
+    );
+    this.resizeObserver?.disconnect();
+    this.elements.forEach((element) => this.resizeObserver?.observe(element));
+    this.scheduleMeasure();
+  }
+
+  // 同じフレーム内の変更はまとめて1回だけ測る
+  private scheduleMeasure = (): void => {
+    if (this.frameRequest !== null) return;
+    this.frameRequest = requestAnimationFrame(() => {
+      this.frameRequest = null;
+      this.measure();
+    });
+  };
+}
@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import {
+  bakeLifeCurve,
+  createParticleSpawn,
+  emissionCount,
+  EmitterConfig,
+  GOLD_TRAIL,
+  sampleLifeCurve,
+  sampleLifeOpacity,
+  sampleParticle,
+  SPARKLE_BURST,
+} from "./particle-emitter";
+import { random } from "./random";
+
+beforeEach(() => {
+  random.reseed(3);
+});
+
+describe("emissionCount", () => {
+  test("bursts a count within the range", () => {
+    for (let i = 0; i < 50; i++) {
+      const count = emissionCount({ burst: [2, 5] });
+      expect(count).toBeGreaterThanOrEqual(2);
+      expect(count).toBeLessThanOrEqual(5);
+    }
+  });
+
+  test("emits the rate per step on average", () => {
+    let total = 0;
+    for (let i = 0; i < 1000; i++) total += emissionCount({ rate: 0.5 });
+    expect(total / 1000).toBeCloseTo(0.5, 1);
+    expect(emissionCount({ rate: 3 })).toBe(3);
+  });
+});
+
+describe("sampleParticle", () => {
+  test("places trails behind the source within the box", () => {
+    const spawn = sampleParticle(
+      GOLD_TRAIL,
+      {
+        position: new THREE.Vector3(100, 0, 0),
+        velocity: new THREE.Vector3(2, 0, 0),
+      },
+      createParticleSpawn(),
+    );
+    expect(spawn.position.x).toBeGreaterThanOrEqual(100 - 15 - 5);
+    expect(spawn.position.x).toBeLessThanOrEqual(100 - 15 + 5);
+    expect(spawn.velocity.x).toBeLessThan(0);
+    expect(spawn.lifetime).toBe(40);
+    expect(spawn.size).toBeGreaterThanOrEqual(0.8);
+    expect(spawn.size).toBeLessThanOrEqual(2);
+  });
+
+  test("keeps sphere emissions inside the radius", () => {
+    const spawn = createParticleSpawn();
+    for (let i = 0; i < 50; i++) {
+      sampleParticle(SPARKLE_BURST, { position: new THREE.Vector3() }, spawn);
+      expect(spawn.position.length()).toBeLessThanOrEqual(8 + 1e-9);
+      expect(spawn.lifetime).toBeGreaterThanOrEqual(25);
+      expect(spawn.lifetime).toBeLessThanOrEqual(45);
+    }
+  });
+
+  test("gives sprites a phase and a spin within the range", () => {
+    const spawn = createParticleSpawn();
+    for (let i = 0; i < 50; i++) {
+      sampleParticle(SPARKLE_BURST, { position: new THREE.Vector3() }, spawn);
+      expect(spawn.phase).toBeGreaterThanOrEqual(0);
+      expect(spawn.phase).toBeLessThan(Math.PI * 2);
+      expect(Math.abs(spawn.spin)).toBeLessThanOrEqual(0.12);
+    }
+
+    const { sprite: _sprite, ...spheres } = SPARKLE_BURST;
+    sampleParticle(spheres, { position: new THREE.Vector3() }, spawn);
+    expect(spawn.phase).toBe(0);
+    expect(spawn.spin).toBe(0);
+  });
+});
+
+describe("life curves", () => {
+  const config: EmitterConfig = {
+    ...GOLD_TRAIL,
+    sizeOverLife: [
+      { at: 0, value: 0 },
+      { at: 0.5, value: 2 },
+      { at: 1, value: 1 },
+    ],
+    colorOverLife: [
+      { at: 0, value: new THREE.Color(1, 1, 1) },
+      { at: 1, value: new THREE.Color(0, 0, 0) },
+    ],
+  };
+
+  test("interpolates size and color over the lifetime", () => {
+    const curve = bakeLifeCurve(config);
+    const color = new THREE.Color();
+
+    expect(sampleLifeCurve(curve, 0, color)).toBeCloseTo(0);
+    expect(color.r).toBeCloseTo(1);
+    expect(sampleLifeCurve(curve, 0.5, color)).toBeCloseTo(2, 1);
+    expect(color.g).toBeCloseTo(0.5, 1);
+    expect(sampleLifeCurve(curve, 1, color)).toBeCloseTo(1);
+    expect(color.b).toBeCloseTo(0);
+  });
+
+  test("holds the end values outside the stops", () => {
+    const curve = bakeLifeCurve({
+      ...config,
+      sizeOverLife: [{ at: 0.25, value: 3 }],
+    });
+    expect(sampleLifeCurve(curve, 0, new THREE.Color())).toBeCloseTo(3);
+    expect(sampleLifeCurve(curve, 2, new THREE.Color())).toBeCloseTo(3);
+  });
+
+  test("fades opacity over the lifetime and defaults to opaque", () => {
+    const curve = bakeLifeCurve({
+      ...config,
+      opacityOverLife: [
+        { at: 0, value: 1 },
+        { at: 1, value: 0 },
+      ],
+    });
+    expect(sampleLifeOpacity(curve, 0)).toBeCloseTo(1);
+    expect(sampleLifeOpacity(curve, 0.5)).toBeCloseTo(0.5, 1);
+    expect(sampleLifeOpacity(curve, 1)).toBeCloseTo(0);
+
+    const { opacityOverLife: _opacity, ...opaque } = config;
+    expect(sampleLifeOpacity(bakeLifeCurve(opaque), 0.7)).toBe(1);
+  });
+});
@@ -0,0 +1,404 @@
+import * as THREE from "three";
+import { random } from "./random";
+
+/**
+ * パーティクルの出し方と見た目を宣言的に書く設定（エミッター）。
+ * 魚の軌跡・きらめき・墨・塵などはどれもこの設定の違いだけで表す。
+ * 時間はすべて固定タイムステップの数で数える。
+ */
+
+// 放出元のまわりのどこから出すか
+export type EmissionShape =
+  | { type: "point" }
+  | { type: "box"; size: [number, number, number] } // 各軸の幅
+  | { type: "sphere"; radius: number };
+
+// 1回の emit で出す数（burst はまとめて、rate は1ステップあたりの平均）
+export type Emission = { burst: [number, number] } | { rate: number };
+
+// premultiplied は色に不透明度を掛けてから重ねる（縁が暗くならない）
+export type ParticleBlendMode = "normal" | "additive" | "premultiplied";
+
+// カメラの方を向く板に描くときの見た目（省略すると小さな球で描く）
+export interface ParticleSprite {
+  shape: "glow" | "glint"; // glint は十字の光条が付く
+  softness: number; // 0 で縁のくっきりした円、1 で中心からなめらかに薄れる
+  spin?: [number, number]; // 1ステップあたりの回転（ラジアン）の範囲
+  twinkle?: { speed: number; amount: number }; // 瞬きの速さ（ラジアン/ステップ）と深さ（0〜1）
+}
+
+// 上限に達したとき、新しいものを捨てるか、いちばん古いものを置き換えるか
+export type OverflowPolicy = "drop-new" | "recycle-oldest";
+
+export interface GradientStop<T> {
+  at: number; // 寿命に対する割合（0〜1、昇順）
+  value: T;
+}
+
+export interface EmitterConfig {
+  emission: Emission;
+  shape: EmissionShape;
+  offset: number; // 放出元の進行方向にずらす距離（負なら後ろ）
+  minSourceSpeed: number; // 放出元がこれより遅いときは出さない
+  inheritVelocity: number; // 放出元の速度を初速にどれだけ引き継ぐか
+  velocitySpread: [number, number, number]; // 初速のばらつき（各軸の幅）
+  lifetime: [number, number]; // ステップ数
+  size: [number, number];
+  sizeOverLife: GradientStop<number>[];
+  palette: THREE.Color[];
+  matchSourceColor?: boolean; // true なら palette の代わりに放出元の色を使う
+  lightnessJitter?: number; // 放出元の色を使うときの明るさのばらつき
+  colorOverLife: GradientStop<THREE.Color>[]; // 出したときの色に掛ける
+  opacityOverLife?: GradientStop<number>[]; // 省略時は 1
+  gravity: number;
+  drag: number; // 1ステップごとに速度から減らす割合
+  flowCarry: number; // 水流にどれだけ流されるか
+  blending: ParticleBlendMode;
+  opacity: number;
+  sprite?: ParticleSprite;
+  maxParticles?: number; // 同時に存在できる数の上限（省略時は CPU・GPU それぞれの既定値）
+  overflow?: OverflowPolicy; // 省略時は drop-new
+}
+
+// 放出元（速度と色は軌跡のように元の動きや色を引き継ぐときに使う）
+export interface EmissionSource {
+  position: THREE.Vector3;
+  velocity?: THREE.Vector3;
+  color?: THREE.Color;
+}
+
+// 1粒分の初期状態
+export interface ParticleSpawn {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  color: THREE.Color;
+  size: number;
+  lifetime: number;
+  phase: number; // 板の最初の向きと瞬きの位相（ラジアン）
+  spin: number; // 1ステップあたりの回転
+}
+
+const WHITE = new THREE.Color(1, 1, 1);
+const BLACK = new THREE.Color(0, 0, 0);
+
+// 速く泳ぐ魚の後ろに残るカラフルな金砂
+export const GOLD_TRAIL: EmitterConfig = {
+  emission: { burst: [2, 5] },
+  shape: { type: "box", size: [10, 10, 5] },
+  offset: -15,
+  minSourceSpeed: 0.8,
+  inheritVelocity: -0.2,
+  velocitySpread: [0.3, 0.3, 0.1],
+  lifetime: [40, 40],
+  size: [0.8, 2],
+  sizeOverLife: [
+    { at: 0, value: 1 },
+    { at: 1, value: 0 },
+  ],
+  palette: [
+    new THREE.Color(1.0, 0.8, 0.2), // ゴールド
+    new THREE.Color(1.0, 0.6, 0.1), // オレンジゴールド
+    new THREE.Color(0.9, 0.7, 0.3), // 薄いゴールド
+    new THREE.Color(1.0, 0.9, 0.4), // 明るいゴールド
+    new THREE.Color(0.8, 0.5, 0.2), // 銅色
+    new THREE.Color(1.0, 0.7, 0.5), // ピーチゴールド
+  ],
+  colorOverLife: [{ at: 0, value: WHITE }],
+  opacityOverLife: [
+    { at: 0, value: 1 },
+    { at: 0.6, value: 0.8 },
+    { at: 1, value: 0 },
+  ],
+  gravity: 0.04,
+  drag: 0.02,
+  flowCarry: 0.08,
+  blending: "additive",
+  opacity: 0.9,
+  sprite: {
+    shape: "glow",
+    softness: 0.6,
+    twinkle: { speed: 0.35, amount: 0.4 },
+  },
+  overflow: "recycle-oldest", // 群れが大きいときは古い軌跡から消す
+};
+
+// タップした所から弾けて消える光の粒
+export const SPARKLE_BURST: EmitterConfig = {
+  emission: { burst: [24, 32] },
+  shape: { type: "sphere", radius: 8 },
+  offset: 0,
+  minSourceSpeed: 0,
+  inheritVelocity: 0,
+  velocitySpread: [6, 6, 1],
+  lifetime: [25, 45],
+  size: [0.6, 1.4],
+  sizeOverLife: [
+    { at: 0, value: 0.3 },
+    { at: 0.15, value: 1 },
+    { at: 1, value: 0 },
+  ],
+  palette: [
+    new THREE.Color(1.0, 0.95, 0.8), // 白金
+    new THREE.Color(0.7, 0.9, 1.0), // 水色
+  ],
+  colorOverLife: [
+    { at: 0, value: WHITE },
+    { at: 0.5, value: new THREE.Color(1.0, 0.8, 0.4) },
+    { at: 1, value: BLACK },
+  ],
+  gravity: 0.01,
+  drag: 0.08,
+  flowCarry: 0.1,
+  blending: "additive",
+  opacity: 1,
+  sprite: {
+    shape: "glint",
+    softness: 0.4,
+    spin: [-0.12, 0.12],
+    twinkle: { speed: 0.5, amount: 0.6 },
+  },
+};
+
+// 広がりながら薄れていく墨
+export const INK_BURST: EmitterConfig = {
+  emission: { burst: [12, 18] },
+  shape: { type: "sphere", radius: 6 },
+  offset: 0,
+  minSourceSpeed: 0,
+  inheritVelocity: 0.3,
+  velocitySpread: [2, 2, 0.5],
+  lifetime: [60, 90],
+  size: [2, 4],
+  sizeOverLife: [
+    { at: 0, value: 0.4 },
+    { at: 0.3, value: 1.6 },
+    { at: 1, value: 2.2 },
+  ],
+  palette: [
+    new THREE.Color(0.25, 0.2, 0.45), // 藍
+    new THREE.Color(0.35, 0.2, 0.4), // 紫
+  ],
+  colorOverLife: [{ at: 0, value: WHITE }],
+  opacityOverLife: [
+    { at: 0, value: 1 },
+    { at: 1, value: 0 },
+  ],
+  gravity: 0.005,
+  drag: 0.06,
+  flowCarry: 0.15,
+  blending: "premultiplied",
+  opacity: 0.6,
+  sprite: { shape: "glow", softness: 1 },
+};
+
+// 画面全体をゆっくり漂う塵（毎ステップ emit する）
+export const DRIFTING_DUST: EmitterConfig = {
+  emission: { rate: 0.5 },
+  shape: { type: "box", size: [1280, 720, 100] },
+  offset: 0,
+  minSourceSpeed: 0,
+  inheritVelocity: 0,
+  velocitySpread: [0.2, 0.2, 0],
+  lifetime: [180, 300],
+  size: [0.3, 0.8],
+  sizeOverLife: [{ at: 0, value: 1 }],
+  palette: [new THREE.Color(0.8, 0.85, 0.9)],
+  colorOverLife: [
+    { at: 0, value: BLACK },
+    { at: 0.2, value: WHITE },
+    { at: 0.8, value: WHITE },
+    { at: 1, value: BLACK },
+  ],
+  gravity: -0.002,
+  drag: 0.01,
+  flowCarry: 0.12,
+  blending: "additive",
+  opacity: 0.5,
+  sprite: {
+    shape: "glow",
+    softness: 0.8,
+    twinkle: { speed: 0.05, amount: 0.5 },
+  },
+};
+
+export const EMITTER_PRESETS = {
+  goldTrail: GOLD_TRAIL,
+  sparkles: SPARKLE_BURST,
+  ink: INK_BURST,
+  dust: DRIFTING_DUST,
+} satisfies Record<string, EmitterConfig>;
+
+// 1回の emit で出す数
+export const emissionCount = (emission: Emission): number => {
+  if ("burst" in emission) {
+    const [min, max] = emission.burst;
+    return random.int(max - min + 1) + min;
+  }
+  const whole = Math.floor(emission.rate);
+  const fraction = emission.rate - whole;
+  return fraction > 0 && random.next() < fraction ? whole + 1 : whole;
+};
+
+// 最長の寿命（GPU のリングで生きている範囲を決める）
+export const maxLifetime = (config: EmitterConfig): number =>
+  Math.max(1, Math.round(config.lifetime[1]));
+
+// 寿命はステップ数なので整数にする（幅が無ければ乱数を使わない）
+export const randomLifetime = ([min, max]: [number, number]): number =>
+  Math.max(1, Math.round(min === max ? min : random.range(min, max)));
+
+const heading = new THREE.Vector3();
+
+// 放出元から1粒分の初期状態を決めて target に書き込む（palette でエミッターの色を差し替えられる）
+export const sampleParticle = (
+  config: EmitterConfig,
+  source: EmissionSource,
+  target: ParticleSpawn,
+  palette: THREE.Color[] = config.palette,
+): ParticleSpawn => {
+  const { position, velocity, color } = target;
+
+  if (source.velocity) heading.copy(source.velocity).normalize();
+  else heading.set(0, 0, 0);
+  position.copy(source.position).addScaledVector(heading, config.offset);
+
+  const { shape } = config;
+  if (shape.type === "box") {
+    position.x += random.spread(shape.size[0]);
+    position.y += random.spread(shape.size[1]);
+    position.z += random.spread(shape.size[2]);
+  } else if (shape.type === "sphere") {
+    // 球の中に一様に散らす
+    const z = random.range(-1, 1);
+    const angle = random.next() * Math.PI * 2;
+    const radius = shape.radius * Math.cbrt(random.next());
+    const ring = Math.sqrt(1 - z * z) * radius;
+    position.x += Math.cos(angle) * ring;
+    position.y += Math.sin(angle) * ring;
+    position.z += z * radius;
+  }
+
+  const inherited = source.velocity ?? velocity.set(0, 0, 0);
+  const [spreadX, spreadY, spreadZ] = config.velocitySpread;
+  velocity.set(
+    inherited.x * config.inheritVelocity + random.spread(spreadX),
+    inherited.y * config.inheritVelocity + random.spread(spreadY),
+    inherited.z * config.inheritVelocity + random.spread(spreadZ),
+  );
+
+  // 放出元の色に合わせる場合は明るさだけ少し散らす
+  if (config.matchSourceColor && source.color) {
+    color.copy(source.color);
+    if (config.lightnessJitter) {
+      color.offsetHSL(0, 0, random.spread(config.lightnessJitter));
+    }
+  } else {
+    color.copy(random.pick(palette));
+  }
+
+  target.lifetime = randomLifetime(config.lifetime);
+  target.size = random.range(config.size[0], config.size[1]);
+  return sampleSpriteMotion(config, target);
+};
+
+// 板の向きと回転の速さを決める（板で描かないときは乱数を使わない）
+export const sampleSpriteMotion = (
+  config: EmitterConfig,
+  target: ParticleSpawn,
+): ParticleSpawn => {
+  const spin = config.sprite?.spin;
+  target.phase = config.sprite ? random.next() * Math.PI * 2 : 0;
+  target.spin = spin ? random.range(spin[0], spin[1]) : 0;
+  return target;
+};
+
+export const createParticleSpawn = (): ParticleSpawn => ({
+  position: new THREE.Vector3(),
+  velocity: new THREE.Vector3(),
+  color: new THREE.Color(),
+  size: 1,
+  lifetime: 1,
+  phase: 0,
+  spin: 0,
+});
+
+// グラデーションの t での値（端より外は端の値）
+const sampleGradient = <T>(
+  stops: GradientStop<T>[],
+  t: number,
+  lerp: (from: T, to: T, amount: number) => void,
+): void => {
+  if (t <= stops[0].at || stops.length === 1) {
+    lerp(stops[0].value, stops[0].value, 0);
+    return;
+  }
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+    if (t <= to.at) {
+      const span = to.at - from.at;
+      lerp(from.value, to.value, span > 0 ? (t - from.at) / span : 1);
+      return;
+    }
+  }
+  const last = stops[stops.length - 1].value;
+  lerp(last, last, 0);
+};
+
+// 寿命の間の色と大きさの変化を何点で持つか（間は線形補間）
+export const LIFE_CURVE_SAMPLES = 32;
+// 1点あたり vec4 2つ（rgb と大きさ、不透明度と未使用の3つ）
+export const LIFE_CURVE_STRIDE = 8;
+
+const OPAQUE: GradientStop<number>[] = [{ at: 0, value: 1 }];
+
+/**
+ * 色・大きさ・不透明度のグラデーションを等間隔の表に焼き込む。
+ * CPU と GPU で同じ表を引くので、どちらでも同じ見た目になる。
+ */
+export const bakeLifeCurve = (config: EmitterConfig): Float32Array => {
+  const curve = new Float32Array(LIFE_CURVE_SAMPLES * LIFE_CURVE_STRIDE);
+  const color = new THREE.Color();
+  for (let i = 0; i < LIFE_CURVE_SAMPLES; i++) {
+    const t = i / (LIFE_CURVE_SAMPLES - 1);
+    const offset = i * LIFE_CURVE_STRIDE;
+    sampleGradient(config.colorOverLife, t, (from, to, amount) =>
+      color.lerpColors(from, to, amount),
+    );
+    color.toArray(curve, offset);
+    sampleGradient(config.sizeOverLife, t, (from, to, amount) => {
+      curve[offset + 3] = from + (to - from) * amount;
+    });
+    sampleGradient(config.opacityOverLife ?? OPAQUE, t, (from, to, amount) => {
+      curve[offset + 4] = from + (to - from) * amount;
+    });
+  }
+  return curve;
+};
+
+// 表の channel 番目の値を寿命の割合 t で線形補間する
+const lerpCurve = (curve: Float32Array, t: number, channel: number): number => {
+  const position = Math.min(1, Math.max(0, t)) * (LIFE_CURVE_SAMPLES - 1);
+  const index = Math.min(Math.floor(position), LIFE_CURVE_SAMPLES - 2);
+  const a = curve[index * LIFE_CURVE_STRIDE + channel];
+  const b = curve[(index + 1) * LIFE_CURVE_STRIDE + channel];
+  return a + (b - a) * (position - index);
+};
+
+// 表から寿命の割合 t での色（color に書き込む）と大きさを引く
+export const sampleLifeCurve = (
+  curve: Float32Array,
+  t: number,
+  color: THREE.Color,
+): number => {
+  color.setRGB(
+    lerpCurve(curve, t, 0),
+    lerpCurve(curve, t, 1),
+    lerpCurve(curve, t, 2),
+  );
+  return lerpCurve(curve, t, 3);
+};
+
+// 表から寿命の割合 t での不透明度を引く
+export const sampleLifeOpacity = (curve: Float32Array, t: number): number =>
+  lerpCurve(curve, t, 4);
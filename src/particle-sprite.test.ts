@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import {
+  blendingParameters,
+  createSpriteTexture,
+  patchSpriteMaterial,
+  SPRITE_TEXTURE_SIZE,
+  spriteAlpha,
+  spriteTwinkle,
+} from "./particle-sprite";
+import { ParticleSprite } from "./particle-emitter";
+
+const glow: ParticleSprite = { shape: "glow", softness: 0.6 };
+
+describe("sprite texture", () => {
+  test("fades from an opaque center to a transparent edge", () => {
+    expect(spriteAlpha(glow, 0, 0)).toBe(1);
+    expect(spriteAlpha(glow, 0.5, 0)).toBeGreaterThan(0);
+    expect(spriteAlpha(glow, 0.5, 0)).toBeLessThan(1);
+    expect(spriteAlpha(glow, 0.8, 0.8)).toBe(0);
+  });
+
+  test("keeps hard sprites opaque up to the edge", () => {
+    expect(spriteAlpha({ shape: "glow", softness: 0 }, 0.99, 0)).toBe(1);
+  });
+
+  test("adds rays to glints along the axes only", () => {
+    const glint: ParticleSprite = { shape: "glint", softness: 0.4 };
+    expect(spriteAlpha(glint, 0.9, 0)).toBeGreaterThan(0);
+    expect(spriteAlpha(glint, 0.7, 0.7)).toBeCloseTo(0);
+  });
+
+  test("bakes white texels with the falloff in alpha", () => {
+    const texture = createSpriteTexture(glow);
+    const data = texture.image.data as Uint8Array;
+    const center = (SPRITE_TEXTURE_SIZE / 2) * (SPRITE_TEXTURE_SIZE + 1) * 4;
+    expect(data.length).toBe(SPRITE_TEXTURE_SIZE * SPRITE_TEXTURE_SIZE * 4);
+    expect(Array.from(data.slice(center, center + 3))).toEqual([255, 255, 255]);
+    expect(data[center + 3]).toBeGreaterThan(240);
+    expect(data[3]).toBe(0);
+  });
+});
+
+describe("sprite motion", () => {
+  test("twinkles between 1 - amount and 1", () => {
+    const sprite = { ...glow, twinkle: { speed: 0.5, amount: 0.4 } };
+    for (let age = 0; age < 40; age++) {
+      const twinkle = spriteTwinkle(sprite, 1, age);
+      expect(twinkle).toBeGreaterThanOrEqual(0.6 - 1e-9);
+      expect(twinkle).toBeLessThanOrEqual(1 + 1e-9);
+    }
+    expect(spriteTwinkle(glow, 1, 10)).toBe(1);
+    expect(spriteTwinkle(undefined, 1, 10)).toBe(1);
+  });
+});
+
+describe("sprite materials", () => {
+  const compile = (billboard: boolean) => {
+    const material = new THREE.MeshBasicMaterial();
+    patchSpriteMaterial(material, billboard);
+    const shader = {
+      vertexShader: THREE.ShaderLib.basic.vertexShader,
+      fragmentShader: THREE.ShaderLib.basic.fragmentShader,
+      uniforms: {},
+    } as unknown as THREE.WebGLProgramParametersWithUniforms;
+    material.onBeforeCompile(shader, {} as THREE.WebGLRenderer);
+    return { material, shader };
+  };
+
+  test("fades each instance by its own opacity", () => {
+    const { shader } = compile(false);
+    expect(shader.vertexShader).toContain("attribute vec2 instanceSprite;");
+    expect(shader.fragmentShader).toContain(
+      "diffuseColor.a *= vSpriteOpacity;",
+    );
+    expect(shader.vertexShader).toContain("#include <project_vertex>");
+  });
+
+  test("turns billboards to face the camera", () => {
+    const { material, shader } = compile(true);
+    expect(shader.vertexShader).not.toContain("#include <project_vertex>");
+    expect(shader.vertexShader).toContain("instanceMatrix * vec4( 0.0");
+    expect(material.customProgramCacheKey()).toBe("particle-sprite");
+  });
+
+  test("premultiplies and skips depth writes for glowing sprites", () => {
+    expect(
+      blendingParameters({ blending: "premultiplied", sprite: glow }),
+    ).toEqual({
+      blending: THREE.NormalBlending,
+      premultipliedAlpha: true,
+      depthWrite: false,
+    });
+    expect(blendingParameters({ blending: "normal" }).depthWrite).toBe(true);
+    expect(blendingParameters({ blending: "additive" }).blending).toBe(
+      THREE.AdditiveBlending,
+    );
+  });
+});
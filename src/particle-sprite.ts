@@ -0,0 +1,130 @@
+import * as THREE from "three";
+import type { EmitterConfig, ParticleSprite } from "./particle-emitter";
+
+/**
+ * カメラの方を向く板（スプライト）でパーティクルを描くための道具。
+ * テクスチャは画像を読み込まずにその場で作り、回転と瞬きは CPU と GPU で同じ式を使う。
+ */
+
+export const SPRITE_TEXTURE_SIZE = 64;
+// 板の一辺（球の直径の2倍にして、光のにじみが球の外まで広がるようにする）
+export const SPRITE_QUAD_SIZE = 4;
+
+// 中心からの距離 r（0〜1）での不透明度
+const radialFalloff = (r: number, softness: number): number => {
+  if (r >= 1) return 0;
+  // softness が 0 なら縁まで 1、1 なら中心から2乗で薄れる
+  const edge = Math.max(1e-3, softness);
+  const fade = Math.min(1, (1 - r) / edge);
+  return fade * fade;
+};
+
+// 板の上の点 (x, y)（-1〜1）での不透明度
+export const spriteAlpha = (
+  sprite: ParticleSprite,
+  x: number,
+  y: number,
+): number => {
+  const glow = radialFalloff(Math.hypot(x, y), sprite.softness);
+  if (sprite.shape !== "glint") return glow;
+
+  // 縦横に細い光条を足す
+  const ray = (along: number, across: number) =>
+    Math.max(0, 1 - Math.abs(along)) * Math.exp(-(across * across) * 400);
+  return Math.min(1, glow * 0.7 + ray(x, y) + ray(y, x));
+};
+
+// 白地に不透明度だけを持つテクスチャ（色はパーティクルごとに掛ける）
+export const createSpriteTexture = (
+  sprite: ParticleSprite,
+): THREE.DataTexture => {
+  const size = SPRITE_TEXTURE_SIZE;
+  const data = new Uint8Array(size * size * 4);
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      const x = ((column + 0.5) / size) * 2 - 1;
+      const y = ((row + 0.5) / size) * 2 - 1;
+      const offset = (row * size + column) * 4;
+      data.fill(255, offset, offset + 3);
+      data[offset + 3] = Math.round(spriteAlpha(sprite, x, y) * 255);
+    }
+  }
+  const texture = new THREE.DataTexture(data, size, size);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// 経過ステップ数 age での板の向き
+export const spriteRotation = (phase: number, spin: number, age: number) =>
+  phase + spin * age;
+
+// 経過ステップ数 age での瞬きによる不透明度の倍率
+export const spriteTwinkle = (
+  sprite: ParticleSprite | undefined,
+  phase: number,
+  age: number,
+): number => {
+  if (!sprite?.twinkle) return 1;
+  const { speed, amount } = sprite.twinkle;
+  return 1 - amount * (0.5 + 0.5 * Math.sin(phase + age * speed));
+};
+
+/**
+ * WebGL の MeshBasicMaterial（InstancedMesh 用）を書き換え、
+ * インスタンスごとの不透明度と、billboard なら板をカメラに向けて回す処理を足す。
+ * instanceSprite 属性は（回転、不透明度）。インスタンスの行列は平行移動と拡大だけを持つ。
+ */
+export const patchSpriteMaterial = (
+  material: THREE.MeshBasicMaterial,
+  billboard: boolean,
+): void => {
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nattribute vec2 instanceSprite;\nvarying float vSpriteOpacity;",
+      )
+      .replace(
+        "#include <begin_vertex>",
+        "#include <begin_vertex>\nvSpriteOpacity = instanceSprite.y;",
+      );
+    if (billboard) {
+      shader.vertexShader = shader.vertexShader.replace(
+        "#include <project_vertex>",
+        [
+          "vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4( 0.0, 0.0, 0.0, 1.0 );",
+          "float spriteScale = length( instanceMatrix[ 0 ].xyz );",
+          "float spriteCos = cos( instanceSprite.x );",
+          "float spriteSin = sin( instanceSprite.x );",
+          "mvPosition.xy += mat2( spriteCos, spriteSin, -spriteSin, spriteCos ) * transformed.xy * spriteScale;",
+          "gl_Position = projectionMatrix * mvPosition;",
+        ].join("\n"),
+      );
+    }
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nvarying float vSpriteOpacity;",
+      )
+      .replace(
+        "#include <alphamap_fragment>",
+        "#include <alphamap_fragment>\ndiffuseColor.a *= vSpriteOpacity;",
+      );
+  };
+  material.customProgramCacheKey = () =>
+    billboard ? "particle-sprite" : "particle-mesh";
+};
+
+// エミッターの重ね方に合わせたマテリアルの設定（CPU 版と GPU 版で共通）
+export const blendingParameters = ({
+  blending,
+  sprite,
+}: Pick<EmitterConfig, "blending" | "sprite">) => ({
+  blending:
+    blending === "additive" ? THREE.AdditiveBlending : THREE.NormalBlending,
+  premultipliedAlpha: blending === "premultiplied",
+  // 半透明に重なる板は奥のものを隠さないように深度を書かない
+  depthWrite: blending === "normal" && !sprite,
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_BOID_CONFIG } from "./boid-config";
+import {
+  calmBoidConfig,
+  FrameThrottle,
+  isLowPower,
+  loadAnimationStopped,
+  saveAnimationStopped,
+  watchBattery,
+} from "./playback";
+
+describe("FrameThrottle", () => {
+  test("renders every frame without a limit", () => {
+    const throttle = new FrameThrottle();
+    expect([0, 16.7, 33.3, 50].map((t) => throttle.shouldRender(t))).toEqual([
+      true,
+      true,
+      true,
+      true,
+    ]);
+  });
+
+  test("skips frames to stay at the maximum rate", () => {
+    const throttle = new FrameThrottle();
+    throttle.setMaxFps(30);
+    const rendered = [0, 16.7, 33.4, 50.1, 66.8, 83.5].map((t) =>
+      throttle.shouldRender(t),
+    );
+    expect(rendered).toEqual([true, false, true, false, true, false]);
+    expect(throttle.limited).toBe(true);
+
+    throttle.setMaxFps(null);
+    expect(throttle.shouldRender(90)).toBe(true);
+    expect(throttle.limited).toBe(false);
+  });
+});
+
+describe("battery", () => {
+  test("saves power only when discharging and low", () => {
+    expect(isLowPower({ charging: false, level: 0.15 })).toBe(true);
+    expect(isLowPower({ charging: true, level: 0.15 })).toBe(false);
+    expect(isLowPower({ charging: false, level: 0.8 })).toBe(false);
+  });
+
+  test("reports changes from the battery manager", async () => {
+    const manager = Object.assign(new EventTarget(), {
+      charging: true,
+      level: 0.1,
+    });
+    const reports: boolean[] = [];
+    const unwatch = watchBattery((low) => reports.push(low), {
+      getBattery: async () => manager,
+    });
+    await Promise.resolve();
+    await Promise.resolve();
+    manager.charging = false;
+    manager.dispatchEvent(new Event("chargingchange"));
+    unwatch();
+    manager.dispatchEvent(new Event("levelchange"));
+    expect(reports).toEqual([false, true]);
+  });
+});
+
+describe("calmBoidConfig", () => {
+  test("slows the fish and turns off shooting stars", () => {
+    const calm = calmBoidConfig(DEFAULT_BOID_CONFIG);
+    expect(calm.maxSpeed).toBeLessThan(DEFAULT_BOID_CONFIG.maxSpeed);
+    expect(calm.minSpeed).toBeLessThan(DEFAULT_BOID_CONFIG.minSpeed);
+    expect(calm.shootingStarsPerMinute).toBe(0);
+    expect(calm.speciesCounts).toEqual(DEFAULT_BOID_CONFIG.speciesCounts);
+  });
+});
+
+describe("animation stop toggle", () => {
+  test("remembers whether the animation was stopped", () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    };
+    expect(loadAnimationStopped(storage)).toBe(false);
+    saveAnimationStopped(true, storage);
+    expect(loadAnimationStopped(storage)).toBe(true);
+    saveAnimationStopped(false, storage);
+    expect(loadAnimationStopped(storage)).toBe(false);
+  });
+});
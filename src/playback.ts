@@ -0,0 +1,159 @@
+import type { BoidConfig } from "./boid-config";
+
+/**
+ * アニメーションをいつ・どれだけ動かすかを決める材料。
+ * 見えていなければ止め、電池が少なければフレームレートを落とし、
+ * 動きを減らす設定（prefers-reduced-motion）なら穏やかに動かす。
+ */
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export const prefersReducedMotion = (): boolean =>
+  globalThis.matchMedia?.(REDUCED_MOTION_QUERY).matches ?? false;
+
+export const watchReducedMotion = (
+  onChange: (reduced: boolean) => void,
+): (() => void) => {
+  if (!globalThis.matchMedia) return () => {};
+  const query = globalThis.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = () => onChange(query.matches);
+  query.addEventListener("change", handleChange);
+  return () => query.removeEventListener("change", handleChange);
+};
+
+// 穏やかなモードでは魚をゆっくり漂わせ、流れ星を出さない
+export const CALM_SPEED_SCALE = 0.3;
+
+export const calmBoidConfig = (config: BoidConfig): BoidConfig => ({
+  ...config,
+  minSpeed: config.minSpeed * CALM_SPEED_SCALE,
+  maxSpeed: config.maxSpeed * CALM_SPEED_SCALE,
+  shootingStarsPerMinute: 0,
+});
+
+// Battery Status API（Chromium 系にしか無い）
+export interface BatteryStatus {
+  charging: boolean;
+  level: number; // 0〜1
+}
+
+type BatteryManager = BatteryStatus & EventTarget;
+type NavigatorWithBattery = { getBattery?: () => Promise<BatteryManager> };
+
+export const LOW_BATTERY_LEVEL = 0.2;
+export const LOW_POWER_FPS = 30;
+
+export const isLowPower = ({ charging, level }: BatteryStatus): boolean =>
+  !charging && level <= LOW_BATTERY_LEVEL;
+
+// 充電や残量が変わるたびに省電力にすべきかを渡す（API が無ければ何もしない）
+export const watchBattery = (
+  onChange: (lowPower: boolean) => void,
+  navigator: NavigatorWithBattery | undefined = globalThis.navigator as
+    NavigatorWithBattery | undefined,
+): (() => void) => {
+  let battery: BatteryManager | null = null;
+  let watching = true;
+  const handleChange = () => {
+    if (battery) onChange(isLowPower(battery));
+  };
+
+  navigator
+    ?.getBattery?.()
+    .then((manager) => {
+      if (!watching) return;
+      battery = manager;
+      manager.addEventListener("chargingchange", handleChange);
+      manager.addEventListener("levelchange", handleChange);
+      handleChange();
+    })
+    .catch(() => {
+      // 許可されていない環境では常に通常のフレームレート
+    });
+
+  return () => {
+    watching = false;
+    battery?.removeEventListener("chargingchange", handleChange);
+    battery?.removeEventListener("levelchange", handleChange);
+  };
+};
+
+// 要素がタブの裏に回ったり画面外にスクロールされたりしたら visible = false を渡す
+export const watchVisibility = (
+  element: Element,
+  onChange: (visible: boolean) => void,
+): (() => void) => {
+  let inView = true;
+  const report = () => onChange(inView && !document.hidden);
+
+  const observer =
+    typeof IntersectionObserver === "undefined"
+      ? null
+      : new IntersectionObserver((entries) => {
+          inView = entries.some((entry) => entry.isIntersecting);
+          report();
+        });
+  observer?.observe(element);
+  document.addEventListener("visibilitychange", report);
+
+  return () => {
+    observer?.disconnect();
+    document.removeEventListener("visibilitychange", report);
+  };
+};
+
+const FRAME_JITTER_MS = 2;
+
+// rAF の間隔が細かすぎるとき、上限のフレームレートになるようにフレームを飛ばす
+export class FrameThrottle {
+  private intervalMs = 0;
+  private lastTime: number | null = null;
+
+  // null で上限なし
+  setMaxFps(fps: number | null): void {
+    this.intervalMs = fps ? 1000 / fps : 0;
+  }
+
+  get limited(): boolean {
+    return this.intervalMs > 0;
+  }
+
+  // このフレームを描くか（rAF の揺れの分だけ早めでも描く）
+  shouldRender(time: number): boolean {
+    if (
+      this.lastTime !== null &&
+      time - this.lastTime < this.intervalMs - FRAME_JITTER_MS
+    ) {
+      return false;
+    }
+    this.lastTime = time;
+    return true;
+  }
+
+  reset(): void {
+    this.lastTime = null;
+  }
+}
+
+const STOPPED_STORAGE_KEY = "fish-animation-stopped";
+
+export const loadAnimationStopped = (
+  storage: Pick<Storage, "getItem"> | undefined = globalThis.localStorage,
+): boolean => {
+  try {
+    return storage?.getItem(STOPPED_STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+};
+
+export const saveAnimationStopped = (
+  stopped: boolean,
+  storage: Pick<Storage, "setItem"> | undefined = globalThis.localStorage,
+): void => {
+  try {
+    storage?.setItem(STOPPED_STORAGE_KEY, String(stopped));
+  } catch {
+    // 保存できなくても動作は続ける
+  }
+};
@@ -0,0 +1,117 @@
+// 画面座標（左上原点、y下向き）
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface PointerGestureHandlers {
+  onHover(point: ScreenPoint): void; // マウス・ペンが動いたとき（押していなくても）
+  onDrag(point: ScreenPoint, delta: ScreenPoint): void;
+  onTap(point: ScreenPoint): void;
+}
+
+interface TrackedPointer {
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+  startTime: number;
+  dragging: boolean;
+}
+
+// これ以上動くか長く押すとタップではなくドラッグ扱い
+const TAP_MAX_DISTANCE = 10;
+const TAP_MAX_DURATION = 300;
+
+// フォーム部品・リンク・ボタンの操作では水を動かさない
+const IGNORED_TARGETS = "input, select, textarea, button, a, [role=button]";
+
+/**
+ * Pointer Events をタップ・ドラッグ・ホバーに振り分ける。
+ * マルチタッチでは指ごとに別々のドラッグとして扱う。
+ */
+export class PointerGestures {
+  private readonly target: GlobalEventHandlers;
+  private readonly handlers: PointerGestureHandlers;
+  private pointers = new Map<number, TrackedPointer>();
+
+  constructor(target: GlobalEventHandlers, handlers: PointerGestureHandlers) {
+    this.target = target;
+    this.handlers = handlers;
+  }
+
+  attach(): void {
+    this.target.addEventListener("pointerdown", this.handlePointerDown);
+    this.target.addEventListener("pointermove", this.handlePointerMove);
+    this.target.addEventListener("pointerup", this.handlePointerUp);
+    this.target.addEventListener("pointercancel", this.handlePointerCancel);
+  }
+
+  detach(): void {
+    this.target.removeEventListener("pointerdown", this.handlePointerDown);
+    this.target.removeEventListener("pointermove", this.handlePointerMove);
+    this.target.removeEventListener("pointerup", this.handlePointerUp);
+    this.target.removeEventListener("pointercancel", this.handlePointerCancel);
+    this.pointers.clear();
+  }
+
+  private handlePointerDown = (e: PointerEvent): void => {
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    if (e.target instanceof Element && e.target.closest(IGNORED_TARGETS)) {
+      return;
+    }
+
+    this.pointers.set(e.pointerId, {
+      startX: e.clientX,
+      startY: e.clientY,
+      lastX: e.clientX,
+      lastY: e.clientY,
+      startTime: e.timeStamp,
+      dragging: false,
+    });
+  };
+
+  private handlePointerMove = (e: PointerEvent): void => {
+    const point = { x: e.clientX, y: e.clientY };
+    if (e.pointerType !== "touch") {
+      this.handlers.onHover(point);
+    }
+
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) return;
+
+    if (
+      !pointer.dragging &&
+      Math.hypot(point.x - pointer.startX, point.y - pointer.startY) >
+        TAP_MAX_DISTANCE
+    ) {
+      pointer.dragging = true;
+    }
+    if (pointer.dragging) {
+      this.handlers.onDrag(point, {
+        x: point.x - pointer.lastX,
+        y: point.y - pointer.lastY,
+      });
+    }
+
+    pointer.lastX = point.x;
+    pointer.lastY = point.y;
+  };
+
+  private handlePointerUp = (e: PointerEvent): void => {
+    const pointer = this.pointers.get(e.pointerId);
+    if (!pointer) return;
+    this.pointers.delete(e.pointerId);
+
+    if (
+      !pointer.dragging &&
+      e.timeStamp - pointer.startTime <= TAP_MAX_DURATION
+    ) {
+      this.handlers.onTap({ x: e.clientX, y: e.clientY });
+    }
+  };
+
+  private handlePointerCancel = (e: PointerEvent): void => {
+    this.pointers.delete(e.pointerId);
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, expect, mock, test } from "bun:test";
+import * as THREE from "three";
+import {
+  activePostEffects,
+  DEFAULT_POST_EFFECTS,
+  loadPostEffects,
+  NO_POST_EFFECTS,
+  PostEffectChain,
+  PostEffectPipeline,
+  savePostEffects,
+} from "./post-processing";
+import { QUALITY_PRESETS } from "./quality-governor";
+
+const ALL_EFFECTS = {
+  bloom: true,
+  caustics: true,
+  vignette: true,
+  chromaticAberration: true,
+};
+
+// レンダラーと後処理の実装の代わりに、呼ばれた内容を記録するもの
+const createPipeline = () => {
+  const renderer = {
+    render: mock(() => {}),
+    setClearAlpha: mock((_alpha: number) => {}),
+  };
+  const chains: PostEffectChain[] = [];
+  const pipeline = new PostEffectPipeline(
+    renderer as unknown as THREE.WebGLRenderer,
+    new THREE.Scene(),
+    new THREE.OrthographicCamera(),
+    { width: 800, height: 600 },
+    () => {
+      const chain = {
+        setEffects: mock(() => {}),
+        setCaustics: mock(() => {}),
+        setSize: mock(() => {}),
+        render: mock(() => {}),
+        dispose: mock(() => {}),
+      };
+      chains.push(chain);
+      return chain;
+    },
+  );
+  return { pipeline, renderer, chains };
+};
+
+describe("activePostEffects", () => {
+  test("keeps only the toggled effects the quality level allows", () => {
+    expect(
+      activePostEffects(ALL_EFFECTS, QUALITY_PRESETS.medium.settings),
+    ).toEqual({
+      bloom: false,
+      caustics: true,
+      vignette: true,
+      chromaticAberration: false,
+    });
+    expect(
+      activePostEffects(DEFAULT_POST_EFFECTS, QUALITY_PRESETS.ultra.settings),
+    ).toEqual(DEFAULT_POST_EFFECTS);
+  });
+
+  test("turns everything off at the lowest level", () => {
+    expect(
+      activePostEffects(ALL_EFFECTS, QUALITY_PRESETS.low.settings),
+    ).toEqual(NO_POST_EFFECTS);
+  });
+});
+
+describe("PostEffectPipeline", () => {
+  test("renders directly without building a chain when no effect is active", () => {
+    const { pipeline, renderer, chains } = createPipeline();
+    pipeline.setEffects(ALL_EFFECTS, QUALITY_PRESETS.low.settings);
+    pipeline.render(1);
+    expect(chains).toHaveLength(0);
+    expect(renderer.render).toHaveBeenCalledTimes(1);
+  });
+
+  test("builds the chain on demand and releases it when the budget drops", () => {
+    const { pipeline, renderer, chains } = createPipeline();
+    pipeline.setEffects(ALL_EFFECTS, QUALITY_PRESETS.high.settings);
+    pipeline.render(1);
+    expect(chains).toHaveLength(1);
+    expect(chains[0].setSize).toHaveBeenCalledWith(800, 600);
+    expect(chains[0].render).toHaveBeenCalledWith(1);
+    expect(renderer.render).not.toHaveBeenCalled();
+    expect(renderer.setClearAlpha).toHaveBeenLastCalledWith(1);
+
+    // 同じ実装のまま効果だけ入れ替える
+    pipeline.setEffects(ALL_EFFECTS, QUALITY_PRESETS.medium.settings);
+    expect(chains).toHaveLength(1);
+    expect(pipeline.activeEffects.bloom).toBe(false);
+
+    pipeline.setEffects(ALL_EFFECTS, QUALITY_PRESETS.low.settings);
+    pipeline.render(2);
+    expect(chains[0].dispose).toHaveBeenCalledTimes(1);
+    expect(renderer.render).toHaveBeenCalledTimes(1);
+    expect(renderer.setClearAlpha).toHaveBeenLastCalledWith(0);
+  });
+
+  test("passes size changes on to the chain", () => {
+    const { pipeline, chains } = createPipeline();
+    pipeline.setSize({ width: 400, height: 300 });
+    pipeline.setEffects(DEFAULT_POST_EFFECTS, QUALITY_PRESETS.high.settings);
+    expect(chains[0].setSize).toHaveBeenLastCalledWith(400, 300);
+    pipeline.setSize({ width: 1024, height: 768 });
+    expect(chains[0].setSize).toHaveBeenLastCalledWith(1024, 768);
+  });
+
+  test("applies the caustics look to a chain built later", () => {
+    const { pipeline, chains } = createPipeline();
+    const look = { tint: new THREE.Color(1, 0.9, 0.7), strength: 1.5 };
+    pipeline.setCaustics(look);
+    pipeline.setEffects(DEFAULT_POST_EFFECTS, QUALITY_PRESETS.high.settings);
+    expect(chains[0].setCaustics).toHaveBeenCalledWith(look);
+  });
+});
+
+describe("post effect toggles", () => {
+  test("remembers the toggles and falls back to the defaults", () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    };
+    expect(loadPostEffects(storage)).toEqual(DEFAULT_POST_EFFECTS);
+
+    savePostEffects({ ...DEFAULT_POST_EFFECTS, bloom: false }, storage);
+    expect(loadPostEffects(storage).bloom).toBe(false);
+
+    items.set("fish-post-effects", '{"vignette":"yes","caustics":false}');
+    expect(loadPostEffects(storage)).toEqual({
+      ...DEFAULT_POST_EFFECTS,
+      caustics: false,
+    });
+
+    items.set("fish-post-effects", "{");
+    expect(loadPostEffects(storage)).toEqual(DEFAULT_POST_EFFECTS);
+  });
+});
@@ -0,0 +1,216 @@
+import * as THREE from "three";
+import { WebGPURenderer } from "three/webgpu";
+import type { QualitySettings } from "./quality-governor";
+import type { SceneRenderer } from "./renderer-setup";
+import type { Viewport } from "./simulation";
+import { NodePostEffectChain } from "./webgpu-post-processing";
+import { ComposerPostEffectChain } from "./webgl-post-processing";
+
+/**
+ * 描いたシーンに重ねる後処理（ブルーム・水中の揺らめく光・周辺減光・色収差）。
+ * WebGPU ではノードで、WebGL では EffectComposer で同じ見た目を組み、
+ * initializeRenderer が選んだレンダラーに合わせてどちらかを使う。
+ * 効果はそれぞれ切り替えられ、品質の段階が許すものだけを掛ける。
+ * 1つも掛けないときは後処理を作らずにそのまま描く。
+ */
+
+export type PostEffect =
+  "bloom" | "caustics" | "vignette" | "chromaticAberration";
+
+export const POST_EFFECTS: readonly PostEffect[] = [
+  "bloom",
+  "caustics",
+  "vignette",
+  "chromaticAberration",
+];
+
+export const POST_EFFECT_LABELS: Record<PostEffect, string> = {
+  bloom: "Bloom",
+  caustics: "Light rays",
+  vignette: "Vignette",
+  chromaticAberration: "Chromatic aberration",
+};
+
+export type PostEffectToggles = Record<PostEffect, boolean>;
+
+export const DEFAULT_POST_EFFECTS: PostEffectToggles = {
+  bloom: true,
+  caustics: true,
+  vignette: true,
+  chromaticAberration: false,
+};
+
+export const NO_POST_EFFECTS: PostEffectToggles = {
+  bloom: false,
+  caustics: false,
+  vignette: false,
+  chromaticAberration: false,
+};
+
+// 見た目の強さ（WebGPU 版と WebGL 版で共通）
+export const POST_EFFECT_PARAMETERS = {
+  // 加算合成で明るく重なる金色の軌跡だけがにじむように、しきい値を高めにする
+  bloom: { strength: 0.8, radius: 0.4, threshold: 0.6 },
+  caustics: {
+    scale: 6, // 画面の高さあたりの模様の細かさ
+    causticsIntensity: 0.06,
+    raysIntensity: 0.05,
+  },
+  vignette: { darkness: 0.55, offset: 0.45 },
+  chromaticAberration: { amount: 0.0015, angle: 0 },
+};
+
+// 水中の光の色と強さ（テーマで変わる）
+export interface CausticsLook {
+  tint: THREE.Color;
+  strength: number; // 模様と光の筋の明るさに掛ける
+}
+
+export const DEFAULT_CAUSTICS: CausticsLook = {
+  tint: new THREE.Color(0.45, 0.75, 1),
+  strength: 1,
+};
+
+// 切り替えと品質の段階の両方で許された効果
+export const activePostEffects = (
+  toggles: PostEffectToggles,
+  { postEffects }: Pick<QualitySettings, "postEffects">,
+): PostEffectToggles => {
+  const active = { ...NO_POST_EFFECTS };
+  POST_EFFECTS.forEach((effect) => {
+    active[effect] = toggles[effect] && postEffects.includes(effect);
+  });
+  return active;
+};
+
+export const hasPostEffect = (effects: PostEffectToggles): boolean =>
+  POST_EFFECTS.some((effect) => effects[effect]);
+
+// 後処理の実装（WebGPU 版と WebGL 版）が満たす形
+export interface PostEffectChain {
+  setEffects(effects: PostEffectToggles): void; // 1つ以上が true のときだけ呼ぶ
+  setCaustics(look: CausticsLook): void;
+  setSize(width: number, height: number): void;
+  render(seconds: number): void;
+  dispose(): void;
+}
+
+export type PostEffectChainFactory = (
+  renderer: SceneRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+) => PostEffectChain;
+
+// レンダラーに合う実装を作る
+export const createPostEffectChain: PostEffectChainFactory = (
+  renderer,
+  scene,
+  camera,
+) =>
+  renderer instanceof WebGPURenderer
+    ? new NodePostEffectChain(renderer, scene, camera)
+    : new ComposerPostEffectChain(renderer, scene, camera);
+
+/**
+ * シーンの描画の入口。効果が1つも無ければレンダラーでそのまま描き、
+ * あれば後処理の実装を作ってそれで描く（効果が無くなったら捨てる）。
+ */
+export class PostEffectPipeline {
+  private chain: PostEffectChain | null = null;
+  private effects = NO_POST_EFFECTS;
+  private caustics = DEFAULT_CAUSTICS;
+  private viewport: Viewport;
+
+  constructor(
+    private readonly renderer: SceneRenderer,
+    private readonly scene: THREE.Scene,
+    private readonly camera: THREE.Camera,
+    viewport: Viewport,
+    private readonly createChain: PostEffectChainFactory = createPostEffectChain,
+  ) {
+    this.viewport = viewport;
+  }
+
+  // いま掛けている効果
+  get activeEffects(): PostEffectToggles {
+    return this.effects;
+  }
+
+  setEffects(toggles: PostEffectToggles, settings: QualitySettings): void {
+    this.effects = activePostEffects(toggles, settings);
+    if (!hasPostEffect(this.effects)) {
+      this.releaseChain();
+      return;
+    }
+    if (!this.chain) {
+      this.chain = this.createChain(this.renderer, this.scene, this.camera);
+      this.chain.setSize(this.viewport.width, this.viewport.height);
+      this.chain.setCaustics(this.caustics);
+      // にじみや減光は透明な背景に正しく重ならないので、後処理中は黒で塗る
+      this.renderer.setClearAlpha(1);
+    }
+    this.chain.setEffects(this.effects);
+  }
+
+  setCaustics(look: CausticsLook): void {
+    this.caustics = look;
+    this.chain?.setCaustics(look);
+  }
+
+  setSize(viewport: Viewport): void {
+    this.viewport = viewport;
+    this.chain?.setSize(viewport.width, viewport.height);
+  }
+
+  render(seconds: number): void {
+    if (this.chain) {
+      this.chain.render(seconds);
+    } else {
+      this.renderer.render(this.scene, this.camera);
+    }
+  }
+
+  dispose(): void {
+    this.releaseChain();
+  }
+
+  private releaseChain(): void {
+    if (!this.chain) return;
+    this.chain.dispose();
+    this.chain = null;
+    this.renderer.setClearAlpha(0);
+  }
+}
+
+const POST_EFFECTS_STORAGE_KEY = "fish-post-effects";
+
+// 保存した切り替えを読む（無いものや読めないものは既定値）
+export const loadPostEffects = (
+  storage: Pick<Storage, "getItem"> | undefined = globalThis.localStorage,
+): PostEffectToggles => {
+  try {
+    const stored = JSON.parse(
+      storage?.getItem(POST_EFFECTS_STORAGE_KEY) ?? "{}",
+    );
+    const toggles = { ...DEFAULT_POST_EFFECTS };
+    POST_EFFECTS.forEach((effect) => {
+      if (typeof stored?.[effect] === "boolean") {
+        toggles[effect] = stored[effect];
+      }
+    });
+    return toggles;
+  } catch {
+    return { ...DEFAULT_POST_EFFECTS };
+  }
+};
+
+export const savePostEffects = (
+  toggles: PostEffectToggles,
+  storage: Pick<Storage, "setItem"> | undefined = globalThis.localStorage,
+): void => {
+  try {
+    storage?.setItem(POST_EFFECTS_STORAGE_KEY, JSON.stringify(toggles));
+  } catch {
+    // 保存できなくても動作は続ける
+  }
+};
@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import {
+  loadQuality,
+  pixelRatioFor,
+  QUALITY_PRESETS,
+  QualityGovernor,
+  QualityLevel,
+  saveQuality,
+  scaleFishCounts,
+} from "./quality-governor";
+import { DEFAULT_BOID_CONFIG } from "./boid-config";
+
+const TARGET_MS = 1000 / 60;
+
+// frameMs のフレームを seconds 秒分流し、段階が変わった回数を返す
+const run = (governor: QualityGovernor, frameMs: number, seconds: number) => {
+  let changes = 0;
+  for (let elapsed = 0; elapsed < seconds * 1000; elapsed += frameMs) {
+    if (governor.sample(frameMs)) changes++;
+  }
+  return changes;
+};
+
+describe("QualityGovernor", () => {
+  test("steps down after sustained slow frames", () => {
+    const governor = new QualityGovernor({ initialLevel: "high" });
+    run(governor, 33, 4);
+    expect(governor.level).toBe("medium");
+    run(governor, 33, 4);
+    expect(governor.level).toBe("low");
+  });
+
+  test("ignores short spikes and tab switches", () => {
+    const governor = new QualityGovernor({ initialLevel: "high" });
+    run(governor, TARGET_MS, 2);
+    run(governor, 50, 0.5);
+    governor.sample(5000);
+    run(governor, TARGET_MS, 2);
+    expect(governor.level).toBe("high");
+  });
+
+  test("steps up only after a longer stretch within budget", () => {
+    const governor = new QualityGovernor({ initialLevel: "low" });
+    run(governor, TARGET_MS, 4);
+    expect(governor.level).toBe("low");
+    run(governor, TARGET_MS, 3);
+    expect(governor.level).toBe("medium");
+  });
+
+  test("holds its level between the two thresholds", () => {
+    const governor = new QualityGovernor({ initialLevel: "medium" });
+    expect(run(governor, TARGET_MS * 1.12, 60)).toBe(0);
+    expect(governor.level).toBe("medium");
+  });
+
+  test("backs off after an upgrade that could not be sustained", () => {
+    const governor = new QualityGovernor({ initialLevel: "medium" });
+    // 上げては重くなるのを繰り返すと、上げるまでの待ちが延びていく
+    run(governor, TARGET_MS, 7);
+    expect(governor.level).toBe("high");
+    run(governor, 33, 4);
+    expect(governor.level).toBe("medium");
+    run(governor, TARGET_MS, 7);
+    expect(governor.level).toBe("medium");
+    run(governor, TARGET_MS, 5);
+    expect(governor.level).toBe("high");
+  });
+
+  test("stays within the budget's levels", () => {
+    const governor = new QualityGovernor({
+      initialLevel: "ultra",
+      budget: { minLevel: "medium", maxLevel: "high" },
+    });
+    expect(governor.level).toBe("high");
+    run(governor, 50, 20);
+    expect(governor.level).toBe("medium");
+  });
+
+  test("keeps a pinned level regardless of frame times", () => {
+    const changes: QualityLevel[] = [];
+    const governor = new QualityGovernor({
+      pinned: "ultra",
+      onChange: (level) => changes.push(level),
+    });
+    expect(governor.level).toBe("ultra");
+    run(governor, 100, 10);
+    expect(governor.level).toBe("ultra");
+
+    governor.pin("low");
+    governor.pin(null);
+    run(governor, TARGET_MS, 7);
+    expect(changes).toEqual(["low", "medium"]);
+  });
+});
+
+describe("quality settings", () => {
+  test("renders at the device pixel ratio up to the level's cap", () => {
+    expect(pixelRatioFor(QUALITY_PRESETS.high.settings, 2)).toBe(2);
+    expect(pixelRatioFor(QUALITY_PRESETS.high.settings, 3)).toBe(2);
+    expect(pixelRatioFor(QUALITY_PRESETS.low.settings, 2)).toBe(0.75);
+    expect(pixelRatioFor(QUALITY_PRESETS.ultra.settings, 0)).toBe(1);
+  });
+
+  test("turns antialiasing off below High", () => {
+    expect(QUALITY_PRESETS.low.settings.antialias).toBe(false);
+    expect(QUALITY_PRESETS.medium.settings.antialias).toBe(false);
+    expect(QUALITY_PRESETS.high.settings.antialias).toBe(true);
+    expect(QUALITY_PRESETS.ultra.settings.antialias).toBe(true);
+  });
+
+  test("scales fish counts without emptying a species", () => {
+    const config = {
+      ...DEFAULT_BOID_CONFIG,
+      fishCount: 10,
+      speciesCounts: { minnow: 5, shark: 1 },
+    };
+    const scaled = scaleFishCounts(config, 0.5);
+    expect(scaled.fishCount).toBe(5);
+    expect(scaled.speciesCounts).toEqual({ minnow: 3, shark: 1 });
+    expect(scaleFishCounts(config, 1)).toBe(config);
+  });
+
+  test("remembers the pinned and last automatic levels", () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    };
+    expect(loadQuality(storage)).toEqual({ pinned: null, level: null });
+
+    saveQuality({ pinned: "low", level: "high" }, storage);
+    expect(loadQuality(storage)).toEqual({ pinned: "low", level: "high" });
+
+    items.set("fish-quality", '{"pinned":"extreme"');
+    expect(loadQuality(storage)).toEqual({ pinned: null, level: null });
+  });
+});
@@ -0,0 +1,301 @@
+import type { BoidConfig } from "./boid-config";
+import type { PostEffect } from "./post-processing";
+import { EXTRA_SPECIES_IDS } from "./species";
+
+/**
+ * 描画品質の段階と、フレーム時間を見て段階を上げ下げする調整役。
+ * 重い段階から順に、解像度・パーティクル数・魚の数・アンチエイリアス・ポストエフェクトを落とす。
+ * 上げるときは下げるときより長く余裕が続くのを待ち（ヒステリシス）、
+ * 上げた直後にまた下がったら次に上げるまでの待ち時間を延ばして行き来を抑える。
+ */
+
+export type QualityLevel = "low" | "medium" | "high" | "ultra";
+
+// 軽い順
+export const QUALITY_LEVELS: readonly QualityLevel[] = [
+  "low",
+  "medium",
+  "high",
+  "ultra",
+];
+
+export interface QualitySettings {
+  maxPixelRatio: number; // devicePixelRatio の上限
+  renderScale: number; // 上限で切った devicePixelRatio に掛ける割合
+  particleCap: number; // 同時に存在できるパーティクルの総数
+  fishScale: number; // 設定した匹数に掛ける割合
+  antialias: boolean; // 変わったらレンダラーを作り直す
+  postEffects: readonly PostEffect[]; // 掛けてよい後処理
+}
+
+export const QUALITY_PRESETS: Record<
+  QualityLevel,
+  { label: string; settings: QualitySettings }
+> = {
+  low: {
+    label: "Low",
+    settings: {
+      maxPixelRatio: 1,
+      renderScale: 0.75,
+      particleCap: 2000,
+      fishScale: 0.5,
+      antialias: false,
+      postEffects: [],
+    },
+  },
+  medium: {
+    label: "Medium",
+    settings: {
+      maxPixelRatio: 1.5,
+      renderScale: 1,
+      particleCap: 8000,
+      fishScale: 0.75,
+      antialias: false,
+      postEffects: ["caustics", "vignette"],
+    },
+  },
+  high: {
+    label: "High",
+    settings: {
+      maxPixelRatio: 2,
+      renderScale: 1,
+      particleCap: 32000,
+      fishScale: 1,
+      antialias: true,
+      postEffects: ["bloom", "caustics", "vignette", "chromaticAberration"],
+    },
+  },
+  ultra: {
+    label: "Ultra",
+    settings: {
+      maxPixelRatio: 3,
+      renderScale: 1,
+      particleCap: 131072,
+      fishScale: 1,
+      antialias: true,
+      postEffects: ["bloom", "caustics", "vignette", "chromaticAberration"],
+    },
+  },
+};
+
+export const isQualityLevel = (value: unknown): value is QualityLevel =>
+  QUALITY_LEVELS.includes(value as QualityLevel);
+
+// 調整の目安（1フレームの目標時間と、自動で動かしてよい段階の範囲）
+export interface QualityBudget {
+  targetFrameMs: number;
+  minLevel: QualityLevel;
+  maxLevel: QualityLevel;
+}
+
+export const DEFAULT_QUALITY_BUDGET: QualityBudget = {
+  targetFrameMs: 1000 / 60,
+  minLevel: "low",
+  maxLevel: "ultra",
+};
+
+const SMOOTHING = 0.05; // フレーム時間の指数移動平均の重み
+const DOWNGRADE_RATIO = 1.2; // 平均が目標のこの倍を超え続けたら下げる
+const UPGRADE_RATIO = 1.05; // 平均が目標のこの倍を下回り続けたら上げる
+const DOWNGRADE_AFTER_MS = 2000;
+const UPGRADE_AFTER_MS = 5000;
+const MAX_UPGRADE_AFTER_MS = 60000;
+const SETTLE_MS = 1000; // 段階を変えた直後は測り直す
+const UNSTABLE_UPGRADE_MS = 10000; // 上げてからこれより早く下がったら上げすぎ
+const MAX_FRAME_MS = 250; // タブの切り替えなどで空いたフレームは数えない
+
+export interface QualityGovernorOptions {
+  budget?: Partial<QualityBudget>;
+  initialLevel?: QualityLevel;
+  pinned?: QualityLevel | null;
+  onChange?: (level: QualityLevel, settings: QualitySettings) => void;
+}
+
+export class QualityGovernor {
+  readonly budget: QualityBudget;
+  private readonly onChange?: QualityGovernorOptions["onChange"];
+  private currentLevel: QualityLevel;
+  private pinnedLevel: QualityLevel | null;
+  private averageMs: number | null = null;
+  private overBudgetMs = 0;
+  private underBudgetMs = 0;
+  private settleMs = SETTLE_MS;
+  private upgradeAfterMs = UPGRADE_AFTER_MS;
+  private sinceUpgradeMs = Infinity;
+
+  constructor({
+    budget,
+    initialLevel = "high",
+    pinned = null,
+    onChange,
+  }: QualityGovernorOptions = {}) {
+    this.budget = { ...DEFAULT_QUALITY_BUDGET, ...budget };
+    this.onChange = onChange;
+    this.pinnedLevel = pinned;
+    this.currentLevel = pinned ?? this.clamp(initialLevel);
+  }
+
+  get level(): QualityLevel {
+    return this.currentLevel;
+  }
+
+  get settings(): QualitySettings {
+    return QUALITY_PRESETS[this.currentLevel].settings;
+  }
+
+  get pinned(): QualityLevel | null {
+    return this.pinnedLevel;
+  }
+
+  // 直近のフレーム時間の平均（ms、まだ測っていなければ null）
+  get averageFrameMs(): number | null {
+    return this.averageMs;
+  }
+
+  // 段階を固定する（null で自動に戻す）
+  pin(level: QualityLevel | null): void {
+    this.pinnedLevel = level;
+    if (level) {
+      this.setLevel(level);
+    } else {
+      this.setLevel(this.clamp(this.currentLevel));
+      this.upgradeAfterMs = UPGRADE_AFTER_MS;
+    }
+  }
+
+  // 1フレームの経過時間（ms）を受け取り、段階を変えたら true を返す
+  sample(frameMs: number): boolean {
+    if (this.pinnedLevel || !(frameMs > 0) || frameMs > MAX_FRAME_MS) {
+      return false;
+    }
+
+    this.sinceUpgradeMs += frameMs;
+    if (this.settleMs > 0) {
+      this.settleMs -= frameMs;
+      return false;
+    }
+
+    this.averageMs =
+      this.averageMs === null
+        ? frameMs
+        : this.averageMs + (frameMs - this.averageMs) * SMOOTHING;
+
+    const { targetFrameMs } = this.budget;
+    if (this.averageMs > targetFrameMs * DOWNGRADE_RATIO) {
+      this.overBudgetMs += frameMs;
+      this.underBudgetMs = 0;
+    } else if (this.averageMs < targetFrameMs * UPGRADE_RATIO) {
+      this.underBudgetMs += frameMs;
+      this.overBudgetMs = 0;
+    } else {
+      // 間の帯ではどちらにも動かさない
+      this.overBudgetMs = 0;
+      this.underBudgetMs = 0;
+    }
+
+    if (this.overBudgetMs >= DOWNGRADE_AFTER_MS) {
+      // 上げた直後に重くなったなら、次に上げるまでもっと待つ
+      if (this.sinceUpgradeMs < UNSTABLE_UPGRADE_MS) {
+        this.upgradeAfterMs = Math.min(
+          this.upgradeAfterMs * 2,
+          MAX_UPGRADE_AFTER_MS,
+        );
+      }
+      return this.step(-1);
+    }
+    if (this.underBudgetMs >= this.upgradeAfterMs) {
+      const changed = this.step(1);
+      if (changed) this.sinceUpgradeMs = 0;
+      return changed;
+    }
+    return false;
+  }
+
+  private step(direction: 1 | -1): boolean {
+    const index = QUALITY_LEVELS.indexOf(this.currentLevel) + direction;
+    const next = QUALITY_LEVELS[index];
+    if (!next || next !== this.clamp(next)) {
+      this.overBudgetMs = 0;
+      this.underBudgetMs = 0;
+      return false;
+    }
+    this.setLevel(next);
+    return true;
+  }
+
+  private setLevel(level: QualityLevel): void {
+    this.averageMs = null;
+    this.overBudgetMs = 0;
+    this.underBudgetMs = 0;
+    this.settleMs = SETTLE_MS;
+    if (level === this.currentLevel) return;
+    this.currentLevel = level;
+    this.onChange?.(level, this.settings);
+  }
+
+  // 予算で決めた範囲に収める
+  private clamp(level: QualityLevel): QualityLevel {
+    const index = QUALITY_LEVELS.indexOf(level);
+    const min = QUALITY_LEVELS.indexOf(this.budget.minLevel);
+    const max = QUALITY_LEVELS.indexOf(this.budget.maxLevel);
+    return QUALITY_LEVELS[Math.min(max, Math.max(min, index))];
+  }
+}
+
+// 描画に使うピクセル比（高 DPI の画面ではくっきり、重いときは落とす）
+export const pixelRatioFor = (
+  { maxPixelRatio, renderScale }: QualitySettings,
+  devicePixelRatio: number,
+): number =>
+  Math.max(0.5, Math.min(devicePixelRatio || 1, maxPixelRatio) * renderScale);
+
+// 品質に合わせて匹数を減らした設定（いる種が 0 匹にはならないよう切り上げる）
+export const scaleFishCounts = (
+  config: BoidConfig,
+  fishScale: number,
+): BoidConfig => {
+  if (fishScale >= 1) return config;
+  const speciesCounts = { ...config.speciesCounts };
+  EXTRA_SPECIES_IDS.forEach((id) => {
+    const count = speciesCounts[id];
+    if (count) speciesCounts[id] = Math.ceil(count * fishScale);
+  });
+  return {
+    ...config,
+    fishCount: Math.ceil(config.fishCount * fishScale),
+    speciesCounts,
+  };
+};
+
+const QUALITY_STORAGE_KEY = "fish-quality";
+
+export interface StoredQuality {
+  pinned: QualityLevel | null; // 手動で固定した段階
+  level: QualityLevel | null; // 自動で最後に落ち着いた段階（次回の初期値）
+}
+
+// 保存した品質の設定を読む（読めなければ何も固定しない）
+export const loadQuality = (
+  storage: Pick<Storage, "getItem"> | undefined = globalThis.localStorage,
+): StoredQuality => {
+  try {
+    const stored = JSON.parse(storage?.getItem(QUALITY_STORAGE_KEY) ?? "{}");
+    return {
+      pinned: isQualityLevel(stored?.pinned) ? stored.pinned : null,
+      level: isQualityLevel(stored?.level) ? stored.level : null,
+    };
+  } catch {
+    return { pinned: null, level: null };
+  }
+};
+
+export const saveQuality = (
+  quality: StoredQuality,
+  storage: Pick<Storage, "setItem"> | undefined = globalThis.localStorage,
+): void => {
+  try {
+    storage?.setItem(QUALITY_STORAGE_KEY, JSON.stringify(quality));
+  } catch {
+    // プライベートモードなどで保存できなくても動作は続ける
+  }
+};
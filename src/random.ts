@@ -0,0 +1,65 @@
+/**
+ * シード付き乱数（mulberry32）。
+ * シーン内の乱数はすべて共有インスタンス `random` から取り出すので、
+ * 同じシードなら初期配置もその後の動きも再現される。
+ */
+export class SeededRandom {
+  private state = 0;
+  private currentSeed = 0;
+
+  constructor(seed: number) {
+    this.reseed(seed);
+  }
+
+  get seed(): number {
+    return this.currentSeed;
+  }
+
+  reseed(seed: number): void {
+    this.currentSeed = seed >>> 0;
+    this.state = this.currentSeed;
+  }
+
+  // [0, 1) の一様乱数
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // 0を中心とした幅 amount の乱数（(Math.random() - 0.5) * amount 相当）
+  spread(amount: number): number {
+    return (this.next() - 0.5) * amount;
+  }
+
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+}
+
+export const generateSeed = (): number =>
+  Math.floor(Math.random() * 4294967296);
+
+export const parseSeed = (value: string | null | undefined): number | null => {
+  if (value == null || value.trim() === "") return null;
+  const seed = Number(value);
+  return Number.isFinite(seed) ? Math.floor(seed) >>> 0 : null;
+};
+
+// `?seed=42` のようにURLで指定されたシードを読む
+export const getSeedFromUrl = (): number | null => {
+  if (typeof window === "undefined") return null;
+  return parseSeed(new URLSearchParams(window.location.search).get("seed"));
+};
+
+export const random = new SeededRandom(generateSeed());
@@ -0,0 +1,19 @@
+import { createContext, useContext } from "react";
+import type { RendererIncident } from "./renderer-recovery";
+import type { RendererBackendInfo } from "./renderer-setup";
+
+// シーンが選んだレンダラーを画面の他の部分と共有する（選ぶまでは null）
+export const RendererBackendContext = createContext<RendererBackendInfo | null>(
+  null,
+);
+
+export const useRendererBackend = (): RendererBackendInfo | null =>
+  useContext(RendererBackendContext);
+
+// 最後にレンダラーを失ったときの様子（一度も失っていなければ null）
+export const RendererIncidentContext = createContext<RendererIncident | null>(
+  null,
+);
+
+export const useRendererIncident = (): RendererIncident | null =>
+  useContext(RendererIncidentContext);
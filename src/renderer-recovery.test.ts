@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { RendererRecovery } from "./renderer-recovery";
+
+describe("RendererRecovery", () => {
+  test("waits longer after each loss", () => {
+    const recovery = new RendererRecovery({ baseDelayMs: 100 });
+    expect(recovery.plan("webgl", null, 0)).toEqual({
+      preferred: null,
+      delayMs: 100,
+    });
+    expect(recovery.plan("webgl", null, 1000)?.delayMs).toBe(200);
+    expect(recovery.plan("webgl", null, 2000)?.delayMs).toBe(400);
+  });
+
+  test("falls back to WebGL after repeated WebGPU losses", () => {
+    const recovery = new RendererRecovery({ fallbackAfter: 2 });
+    expect(recovery.plan("webgpu", "webgpu", 0)?.preferred).toBe("webgpu");
+    expect(recovery.fellBack).toBe(false);
+    expect(recovery.plan("webgpu", "webgpu", 1000)?.preferred).toBe("webgl");
+    expect(recovery.fellBack).toBe(true);
+    // 一度切り替えたら WebGL のまま
+    expect(recovery.plan("webgl", "webgpu", 2000)?.preferred).toBe("webgl");
+  });
+
+  test("gives up after too many losses in the window", () => {
+    const recovery = new RendererRecovery({ maxAttempts: 2, windowMs: 1000 });
+    expect(recovery.plan("webgl", null, 0)).not.toBeNull();
+    expect(recovery.plan("webgl", null, 100)).not.toBeNull();
+    expect(recovery.plan("webgl", null, 200)).toBeNull();
+  });
+
+  test("forgets losses older than the window", () => {
+    const recovery = new RendererRecovery({
+      maxAttempts: 2,
+      windowMs: 1000,
+      baseDelayMs: 100,
+    });
+    recovery.plan("webgl", null, 0);
+    recovery.plan("webgl", null, 100);
+    expect(recovery.plan("webgl", null, 5000)).toEqual({
+      preferred: null,
+      delayMs: 100,
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { BackendKind, RendererBackend } from "./renderer-setup";
+
+/**
+ * GPU デバイスや WebGL コンテキストを失ったとき（ドライバーのリセット、
+ * モバイルでタブが裏に回ったときなど）に気づき、レンダラーを作り直すための道具。
+ * 作り直しは少し待ってから行い、続けて失うほど長く待つ。
+ * WebGPU で続けて失敗したら以後は WebGL を使い、それでも失い続けたらあきらめる。
+ */
+
+export interface RecoveryOptions {
+  fallbackAfter: number; // WebGPU でこの回数失ったら WebGL に切り替える
+  maxAttempts: number; // windowMs の間にこの回数を超えて失ったらあきらめる
+  windowMs: number;
+  baseDelayMs: number; // 1回目の作り直しまでの待ち時間（以後2倍ずつ）
+}
+
+export const DEFAULT_RECOVERY_OPTIONS: RecoveryOptions = {
+  fallbackAfter: 2,
+  maxAttempts: 5,
+  windowMs: 60 * 1000,
+  baseDelayMs: 500,
+};
+
+export interface RecoveryPlan {
+  preferred: BackendKind | null; // initializeRenderer に渡す
+  delayMs: number;
+}
+
+export class RendererRecovery {
+  private readonly options: RecoveryOptions;
+  private failures: { kind: BackendKind; at: number }[] = [];
+  private webgpuAbandoned = false;
+
+  constructor(options: Partial<RecoveryOptions> = {}) {
+    this.options = { ...DEFAULT_RECOVERY_OPTIONS, ...options };
+  }
+
+  // WebGPU をあきらめて WebGL に切り替えたか
+  get fellBack(): boolean {
+    return this.webgpuAbandoned;
+  }
+
+  /**
+   * kind のレンダラーを失った（または作り直しに失敗した）ときに呼ぶ。
+   * 次の作り直し方を返し、もう作り直さないなら null を返す。
+   */
+  plan(
+    kind: BackendKind,
+    preferred: BackendKind | null,
+    now: number,
+  ): RecoveryPlan | null {
+    const { fallbackAfter, maxAttempts, windowMs, baseDelayMs } = this.options;
+    this.failures = this.failures.filter(({ at }) => now - at < windowMs);
+    this.failures.push({ kind, at: now });
+    if (this.failures.length > maxAttempts) return null;
+
+    const webgpuFailures = this.failures.filter(
+      (failure) => failure.kind === "webgpu",
+    ).length;
+    if (webgpuFailures >= fallbackAfter) this.webgpuAbandoned = true;
+
+    return {
+      preferred: this.webgpuAbandoned ? "webgl" : preferred,
+      delayMs: baseDelayMs * 2 ** (this.failures.length - 1),
+    };
+  }
+}
+
+// 状態表示に出す、最後に起きたレンダラーの喪失と作り直しの様子
+export interface RendererIncident {
+  lost: BackendKind; // 失ったレンダラーの種類
+  reason: string;
+  status: "recovering" | "recovered" | "failed";
+  count: number; // これまでに失った回数
+}
+
+/**
+ * レンダラーを失ったら onLost を1回だけ呼ぶ。返す関数で監視をやめる
+ * （やめた後に自分で壊したデバイスやコンテキストは喪失として扱わない）。
+ */
+export const watchRendererLoss = (
+  backend: RendererBackend,
+  onLost: (reason: string) => void,
+): (() => void) => {
+  let watching = true;
+  const report = (reason: string) => {
+    if (!watching) return;
+    watching = false;
+    onLost(reason);
+  };
+
+  if (backend.kind === "webgpu") {
+    backend.device.lost.then((info) => {
+      report(`GPU device lost (${info.reason}): ${info.message}`);
+    });
+    return () => {
+      watching = false;
+    };
+  }
+
+  const canvas = backend.renderer.domElement;
+  const handleContextLost = (event: Event) => {
+    // 既定の動作のままだとコンテキストが戻らないので止める
+    event.preventDefault();
+    report("WebGL context lost");
+  };
+  canvas.addEventListener("webglcontextlost", handleContextLost);
+  return () => {
+    watching = false;
+    canvas.removeEventListener("webglcontextlost", handleContextLost);
+  };
+};
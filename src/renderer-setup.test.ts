@@ -0,0 +1,14 @@
+import { describe, expect, test } from "bun:test";
+import { getRendererOverride } from "./renderer-setup";
+
+describe("getRendererOverride", () => {
+  test("reads the forced backend from the query string", () => {
+    expect(getRendererOverride("?renderer=webgl")).toBe("webgl");
+    expect(getRendererOverride("?seed=4&renderer=webgpu")).toBe("webgpu");
+  });
+
+  test("ignores missing or unknown values", () => {
+    expect(getRendererOverride("")).toBeNull();
+    expect(getRendererOverride("?renderer=vulkan")).toBeNull();
+  });
+});
@@ -1,52 +1,277 @@
 import * as THREE from "three";
 import { WebGPURenderer } from "three/webgpu";
-import { checkWebGPUSupport, logWebGPUCapabilities } from "./webgpu-utils";
+import {
+  checkWebGPUSupport,
+  logWebGPUCapabilities,
+  requestWebGPUDevice,
+} from "./webgpu-utils";
+import type { Theme } from "./theme";
+import type { Viewport } from "./simulation";
 
-export const initializeRenderer = async (): Promise<
-  THREE.WebGLRenderer | any
-> => {
-  const webgpuSupport = await checkWebGPUSupport();
-  let renderer: any;
+export type BackendKind = "webgpu" | "webgl";
 
-  if (webgpuSupport.supported && webgpuSupport.device) {
-    console.log("🚀 WebGPU is supported! Using WebGPU renderer");
-    logWebGPUCapabilities(webgpuSupport.adapter!, webgpuSupport.device);
+export type SceneRenderer = WebGPURenderer | THREE.WebGLRenderer;
 
-    renderer = new WebGPURenderer({
-      antialias: true,
-      alpha: true,
-    });
+// レンダラーの描き先（ワーカーでは OffscreenCanvas）
+export type SceneCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export interface RendererCapabilities {
+  compute: boolean; // コンピュートシェーダーが使えるか
+  maxTextureSize: number;
+  maxStorageBufferBindingSize: number | null; // WebGPU のときだけ
+  features: string[]; // WebGPU の機能、または WebGL の拡張
+  gpu: string | null; // 分かれば GPU の名前
+  vendor: string | null;
+  architecture: string | null; // WebGPU のときだけ
+  limits: Record<string, number>; // 不具合の報告用
+}
+
+interface BackendDetails {
+  reason: string; // このバックエンドを選んだ理由
+  forced: boolean; // ?renderer= で指定されたか
+  antialias: boolean; // 作ったときに選んだもの（後からは変えられない）
+  capabilities: RendererCapabilities;
+}
+
+// initializeRenderer が選んだレンダラーと、その理由や能力
+export type RendererBackend =
+  | (BackendDetails & {
+      kind: "webgpu";
+      renderer: WebGPURenderer;
+      device: GPUDevice;
+    })
+  | (BackendDetails & { kind: "webgl"; renderer: THREE.WebGLRenderer });
+
+// スレッドをまたいで渡せるよう、レンダラーのオブジェクトを除いたもの
+export type RendererBackendInfo = Pick<
+  RendererBackend,
+  "kind" | "reason" | "forced" | "capabilities"
+>;
+
+export const describeBackend = ({
+  kind,
+  reason,
+  forced,
+  capabilities,
+}: RendererBackend): RendererBackendInfo => ({
+  kind,
+  reason,
+  forced,
+  capabilities,
+});
+
+export const isBackendKind = (value: unknown): value is BackendKind =>
+  value === "webgpu" || value === "webgl";
+
+// ?renderer=webgpu|webgl でバックエンドを決め打ちする（WebGPU の環境で WebGL 版を試すため）
+export const getRendererOverride = (
+  search: string = globalThis.location?.search ?? "",
+): BackendKind | null => {
+  const value = new URLSearchParams(search).get("renderer");
+  return isBackendKind(value) ? value : null;
+};
+
+export interface RendererOptions {
+  antialias: boolean; // 作った後からは変えられない
+  pixelRatio: number;
+  preferred?: BackendKind | null; // 指定があればそれを使う（WebGPU が無ければ WebGL）
+  viewport: Viewport;
+  canvas?: SceneCanvas; // 無ければレンダラーが作る
+}
+
+// GPUSupportedLimits の値はプロトタイプの getter にあるので for...in で集める
+const webgpuLimits = (limits: GPUSupportedLimits): Record<string, number> => {
+  const values: Record<string, number> = {};
+  for (const name in limits) {
+    const value = limits[name as keyof GPUSupportedLimits];
+    if (typeof value === "number") values[name] = value;
+  }
+  return values;
+};
+
+const webgpuCapabilities = (
+  adapter: GPUAdapter,
+  device: GPUDevice,
+): RendererCapabilities => ({
+  compute: true,
+  maxTextureSize: device.limits.maxTextureDimension2D,
+  maxStorageBufferBindingSize: device.limits.maxStorageBufferBindingSize,
+  features: Array.from(device.features),
+  gpu: adapter.info?.description || adapter.info?.vendor || null,
+  vendor: adapter.info?.vendor || null,
+  architecture: adapter.info?.architecture || null,
+  limits: webgpuLimits(device.limits),
+});
 
+const webglCapabilities = (
+  renderer: THREE.WebGLRenderer,
+): RendererCapabilities => {
+  const { capabilities } = renderer;
+  const gl = renderer.getContext();
+  const debugInfo = gl.getExtension("WEBGL_debug_renderer_info");
+  return {
+    compute: false,
+    maxTextureSize: capabilities.maxTextureSize,
+    maxStorageBufferBindingSize: null,
+    features: gl.getSupportedExtensions() ?? [],
+    gpu: debugInfo
+      ? String(gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL))
+      : null,
+    vendor: debugInfo
+      ? String(gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL))
+      : null,
+    architecture: null,
+    limits: {
+      maxTextureSize: capabilities.maxTextureSize,
+      maxCubemapSize: capabilities.maxCubemapSize,
+      maxTextures: capabilities.maxTextures,
+      maxVertexTextures: capabilities.maxVertexTextures,
+      maxAttributes: capabilities.maxAttributes,
+      maxVertexUniforms: capabilities.maxVertexUniforms,
+      maxVaryings: capabilities.maxVaryings,
+      maxFragmentUniforms: capabilities.maxFragmentUniforms,
+      maxSamples: capabilities.maxSamples,
+    },
+  };
+};
+
+const createWebGPUBackend = async (
+  adapter: GPUAdapter,
+  antialias: boolean,
+  canvas: SceneCanvas | undefined,
+): Promise<{ renderer: WebGPURenderer; device: GPUDevice }> => {
+  // 確認に使ったアダプターからデバイスを1つだけ作り、レンダラーにもそれを使わせる
+  const device = await requestWebGPUDevice(adapter);
+  const renderer = new WebGPURenderer({
+    antialias,
+    alpha: true,
+    device,
+    canvas,
+  });
+  try {
     await renderer.init();
-  } else {
-    console.log(
-      "⚠️ WebGPU not supported, falling back to WebGL:",
-      webgpuSupport.reason,
-    );
-    renderer = new THREE.WebGLRenderer({ alpha: true, antialias: true });
+  } catch (error) {
+    renderer.dispose();
+    device.destroy();
+    throw error;
   }
+  return { renderer, device };
+};
+
+export const initializeRenderer = async ({
+  antialias,
+  pixelRatio,
+  preferred = null,
+  viewport,
+  canvas,
+}: RendererOptions): Promise<RendererBackend> => {
+  const forced = preferred !== null;
+  let backend: RendererBackend | null = null;
+  let reason = "Forced with ?renderer=webgl";
 
-  renderer.setSize(window.innerWidth, window.innerHeight);
+  if (preferred !== "webgl") {
+    const webgpuSupport = await checkWebGPUSupport();
+    if (webgpuSupport.supported && webgpuSupport.adapter) {
+      const { adapter } = webgpuSupport;
+      try {
+        const { renderer, device } = await createWebGPUBackend(
+          adapter,
+          antialias,
+          canvas,
+        );
+        console.log("🚀 WebGPU is supported! Using WebGPU renderer");
+        logWebGPUCapabilities(adapter, device);
+        backend = {
+          kind: "webgpu",
+          renderer,
+          device,
+          reason: forced
+            ? "Forced with ?renderer=webgpu"
+            : "WebGPU is available",
+          forced,
+          antialias,
+          capabilities: webgpuCapabilities(adapter, device),
+        };
+      } catch (error) {
+        reason = `WebGPU initialization failed: ${error}`;
+      }
+    } else {
+      reason = webgpuSupport.reason ?? "WebGPU not available";
+    }
+    if (!backend && forced) reason = `WebGPU was requested, but ${reason}`;
+  }
 
-  if (renderer instanceof THREE.WebGLRenderer) {
-    renderer.setClearColor(0x000000, 0);
-  } else {
-    renderer.setClearColor(0x000000, 0);
+  if (!backend) {
+    console.log("⚠️ Using WebGL renderer:", reason);
+    const renderer = new THREE.WebGLRenderer({
+      alpha: true,
+      antialias,
+      canvas,
+    });
+    backend = {
+      kind: "webgl",
+      renderer,
+      reason,
+      forced,
+      antialias,
+      capabilities: webglCapabilities(renderer),
+    };
   }
 
-  return renderer;
+  // 高 DPI の画面でもぼやけないように実際のピクセル数で描く
+  const { renderer } = backend;
+  renderer.setPixelRatio(pixelRatio);
+  setRendererSize(renderer, viewport);
+  renderer.setClearColor(0x000000, 0);
+
+  return backend;
 };
 
-export const setupScene = (): {
+// OffscreenCanvas には style が無いので、CSS の大きさはキャンバスを置いた側に任せる
+export const setRendererSize = (
+  renderer: SceneRenderer,
+  { width, height }: Viewport,
+): void => {
+  const canvas: SceneCanvas = renderer.domElement;
+  const offscreen =
+    typeof OffscreenCanvas !== "undefined" && canvas instanceof OffscreenCanvas;
+  renderer.setSize(width, height, !offscreen);
+};
+
+// devicePixelRatio が変わったとき（別の画面への移動やズーム）に呼ぶ
+export const watchDevicePixelRatio = (onChange: () => void): (() => void) => {
+  let query: MediaQueryList | null = null;
+  const listen = () => {
+    query = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    query.addEventListener("change", handleChange, { once: true });
+  };
+  const handleChange = () => {
+    onChange();
+    listen();
+  };
+  listen();
+  return () => query?.removeEventListener("change", handleChange);
+};
+
+export interface SceneLights {
+  ambient: THREE.AmbientLight;
+  directional: THREE.DirectionalLight;
+}
+
+export const setupScene = ({
+  width,
+  height,
+}: Viewport): {
   scene: THREE.Scene;
   camera: THREE.OrthographicCamera;
+  lights: SceneLights;
 } => {
   const scene = new THREE.Scene();
   const camera = new THREE.OrthographicCamera(
-    window.innerWidth / -2,
-    window.innerWidth / 2,
-    window.innerHeight / 2,
-    window.innerHeight / -2,
+    width / -2,
+    width / 2,
+    height / 2,
+    height / -2,
     -200,
     1000,
   );
@@ -61,5 +286,20 @@ export const setupScene = (): {
   directionalLight.position.set(1, 1, 1);
   scene.add(directionalLight);
 
-  return { scene, camera };
+  return {
+    scene,
+    camera,
+    lights: { ambient: ambientLight, directional: directionalLight },
+  };
+};
+
+// テーマの照明に合わせる
+export const applyLighting = (
+  lights: SceneLights,
+  { lighting }: Pick<Theme, "lighting">,
+): void => {
+  lights.ambient.color.copy(lighting.ambient.color);
+  lights.ambient.intensity = lighting.ambient.intensity;
+  lights.directional.color.copy(lighting.directional.color);
+  lights.directional.intensity = lighting.directional.intensity;
 };
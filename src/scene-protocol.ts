@@ -0,0 +1,54 @@
+import type { BoidConfig } from "./boid-config";
+import type { FrameBatch } from "./diagnostics";
+import type { FishSceneOptions, SceneViewport } from "./fish-scene";
+import type { Obstacle } from "./obstacles";
+import type { ScreenPoint } from "./pointer-gestures";
+import type { PostEffectToggles } from "./post-processing";
+import type { QualityLevel } from "./quality-governor";
+import type { RendererIncident } from "./renderer-recovery";
+import type { RendererBackendInfo } from "./renderer-setup";
+import type { ThemeId } from "./theme";
+
+/**
+ * メインスレッドとシーンのワーカーの間でやり取りするメッセージ。
+ * どれも structured clone できる値だけで作る（テーマは THREE.Color を含むので ID で送る）。
+ */
+
+// ワーカーを固めたファイルの名前（scene-worker-build.ts がページと同じ場所に置く）。
+// サイトはドメインの直下とは限らないので、ページからの相対で指す
+export const SCENE_WORKER_FILE = "scene-worker.js";
+
+// メインスレッド → ワーカー
+export type SceneCommand =
+  | { type: "init"; canvas: OffscreenCanvas; options: FishSceneOptions }
+  | { type: "canvas"; canvas: OffscreenCanvas } // requestCanvas への返事
+  | { type: "config"; config: BoidConfig }
+  | { type: "postEffects"; effects: PostEffectToggles }
+  | { type: "theme"; themeId: ThemeId }
+  | { type: "qualityPin"; level: QualityLevel | null }
+  | { type: "reducedMotion"; reduced: boolean }
+  | { type: "stopped"; stopped: boolean }
+  | { type: "visible"; visible: boolean }
+  | { type: "lowPower"; lowPower: boolean }
+  | { type: "resize"; viewport: SceneViewport }
+  | { type: "hover"; point: ScreenPoint }
+  | { type: "drag"; point: ScreenPoint; delta: ScreenPoint }
+  | { type: "tap"; point: ScreenPoint }
+  | { type: "obstacles"; obstacles: Obstacle[] }
+  | { type: "dispose" };
+
+// ワーカー → メインスレッド
+export type SceneEvent =
+  | { type: "quality"; level: QualityLevel; pinned: boolean }
+  | { type: "backend"; backend: RendererBackendInfo }
+  | { type: "incident"; incident: RendererIncident }
+  | ({ type: "frames" } & FrameBatch)
+  | { type: "requestCanvas" } // レンダラーを作り直すので新しいキャンバスが要る
+  | { type: "failed"; message: string }; // ワーカーでは始められなかった
+
+export type SceneCommandType = SceneCommand["type"];
+
+export type SceneCommandOf<T extends SceneCommandType> = Extract<
+  SceneCommand,
+  { type: T }
+>;
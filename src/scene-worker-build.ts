@@ -0,0 +1,39 @@
+import { build, type BuildConfig } from "bun";
+import path from "path";
+import { SCENE_WORKER_FILE } from "./scene-protocol";
+
+/**
+ * シーンのワーカーを固める。Bun.build は HTML のバンドルの中の
+ * `new Worker(...)` を別ファイルにしてくれないので、独立した入口として扱う。
+ * 魚のモデルはワーカーからも読めるよう、名前を変えずにワーカーと同じ場所へ置き、
+ * ワーカーの場所からの相対で読む（サイトがサブパスに置かれても届くように）。
+ */
+export const buildSceneWorker = (config: Partial<BuildConfig> = {}) =>
+  build({
+    entrypoints: [path.join(import.meta.dir, "scene-worker.ts")],
+    target: "browser",
+    naming: { entry: SCENE_WORKER_FILE, asset: "[name].[ext]" },
+    publicPath: "./",
+    loader: { ".glb": "file", ".gltf": "file" },
+    ...config,
+  });
+
+// 開発サーバー用に、ワーカーとそれが読むファイルをメモリ上で固めて返すルート
+export const sceneWorkerRoutes = async (): Promise<
+  Record<string, Response>
+> => {
+  try {
+    const { outputs } = await buildSceneWorker({ sourcemap: "inline" });
+    return Object.fromEntries(
+      outputs.map((output) => [
+        `/${path.basename(output.path)}`,
+        // モジュールのワーカーは JavaScript の MIME タイプでないと読まれない
+        new Response(output, { headers: { "Content-Type": output.type } }),
+      ]),
+    );
+  } catch (error) {
+    // 固められなくてもページはメインスレッドで動く
+    console.error("❌ Failed to build the scene worker:", error);
+    return {};
+  }
+};
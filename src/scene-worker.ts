@@ -0,0 +1,111 @@
+/// <reference lib="webworker" />
+import { DiagnosticsRelay } from "./diagnostics";
+import { FishScene } from "./fish-scene";
+import type {
+  SceneCommand,
+  SceneCommandOf,
+  SceneCommandType,
+  SceneEvent,
+} from "./scene-protocol";
+
+/**
+ * シーンを動かすワーカー。メインスレッドから受け取った OffscreenCanvas に描き、
+ * 品質・レンダラー・フレームの診断情報をメッセージで返す。
+ */
+
+// このファイルだけはワーカーの中で動く（ページの型の self を隠す）
+declare const self: DedicatedWorkerGlobalScope;
+
+const post = (event: SceneEvent) => self.postMessage(event);
+
+// 診断情報はフレームごとではなくまとめて送る
+const FRAMES_FLUSH_MS = 250;
+
+let scene: FishScene | null = null;
+let pendingCanvas: OffscreenCanvas | undefined;
+let canvasWaiter: ((canvas: OffscreenCanvas) => void) | null = null;
+let flushTimer: ReturnType<typeof setInterval> | undefined;
+const relay = new DiagnosticsRelay();
+
+// 最初のキャンバスは init で届く。作り直すときはメインスレッドに頼んで待つ
+const nextCanvas = (): Promise<OffscreenCanvas> => {
+  if (pendingCanvas) {
+    const canvas = pendingCanvas;
+    pendingCanvas = undefined;
+    return Promise.resolve(canvas);
+  }
+  post({ type: "requestCanvas" });
+  return new Promise((resolve) => {
+    canvasWaiter = resolve;
+  });
+};
+
+const init = ({ canvas, options }: SceneCommandOf<"init">) => {
+  pendingCanvas = canvas;
+  const fishScene = new FishScene(
+    options,
+    {
+      onQualityChange: (level, pinned) =>
+        post({ type: "quality", level, pinned }),
+      onBackendReady: (backend) => post({ type: "backend", backend }),
+      onIncident: (incident) => post({ type: "incident", incident }),
+      diagnostics: relay,
+    },
+    {
+      createCanvas: nextCanvas,
+      // キャンバスを置いたり外したりするのはメインスレッド
+      showCanvas: () => {},
+      removeCanvas: () => {},
+    },
+  );
+  scene = fishScene;
+
+  flushTimer = setInterval(() => {
+    const batch = relay.flush();
+    if (batch) post({ type: "frames", ...batch });
+  }, FRAMES_FLUSH_MS);
+
+  fishScene.start().catch((error) => {
+    console.error("Scene worker failed to start:", error);
+    post({ type: "failed", message: String(error) });
+    dispose();
+  });
+};
+
+const dispose = () => {
+  clearInterval(flushTimer);
+  scene?.dispose();
+  scene = null;
+  self.close();
+};
+
+const handlers: {
+  [T in SceneCommandType]: (command: SceneCommandOf<T>) => void;
+} = {
+  init,
+  canvas: ({ canvas }) => {
+    const resolve = canvasWaiter;
+    canvasWaiter = null;
+    if (resolve) resolve(canvas);
+    else pendingCanvas = canvas;
+  },
+  config: ({ config }) => scene?.setConfig(config),
+  postEffects: ({ effects }) => scene?.setPostEffects(effects),
+  theme: ({ themeId }) => scene?.setTheme(themeId),
+  qualityPin: ({ level }) => scene?.setQualityPin(level),
+  reducedMotion: ({ reduced }) => scene?.setReducedMotion(reduced),
+  stopped: ({ stopped }) => scene?.setStopped(stopped),
+  visible: ({ visible }) => scene?.setVisible(visible),
+  lowPower: ({ lowPower }) => scene?.setLowPower(lowPower),
+  resize: ({ viewport }) => scene?.resize(viewport),
+  hover: ({ point }) => scene?.hover(point),
+  drag: ({ point, delta }) => scene?.drag(point, delta),
+  tap: ({ point }) => scene?.tap(point),
+  obstacles: ({ obstacles }) => scene?.setObstacles(obstacles),
+  dispose,
+};
+
+self.addEventListener("message", ({ data }: MessageEvent<SceneCommand>) => {
+  const handler = handlers[data.type] as (command: SceneCommand) => void;
+  handler(data);
+});
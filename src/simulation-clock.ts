@@ -0,0 +1,68 @@
+export interface SimulationClockOptions {
+  stepsPerSecond?: number;
+  maxStepsPerFrame?: number;
+}
+
+/**
+ * 固定タイムステップのシミュレーション時計。
+ * 経過時間をアキュムレータに溜め、固定幅のステップ数に変換する。
+ * 余りは `alpha`（0〜1）として描画時の補間に使う。
+ */
+export class SimulationClock {
+  readonly stepMs: number;
+  private readonly maxStepsPerFrame: number;
+  private accumulator = 0;
+  private lastTime: number | null = null;
+  private interpolationAlpha = 0;
+  private lastFrameMs = 0;
+
+  constructor({
+    stepsPerSecond = 60,
+    maxStepsPerFrame = 5,
+  }: SimulationClockOptions = {}) {
+    this.stepMs = 1000 / stepsPerSecond;
+    this.maxStepsPerFrame = maxStepsPerFrame;
+  }
+
+  get alpha(): number {
+    return this.interpolationAlpha;
+  }
+
+  // 直前のフレームの経過時間（秒、上限で切り詰めた値）。描画側のアニメーション用
+  get frameSeconds(): number {
+    return this.lastFrameMs / 1000;
+  }
+
+  // フレームのタイムスタンプ（ms）を受け取り、進めるべきステップ数を返す
+  advance(now: number): number {
+    if (this.lastTime === null) {
+      this.lastTime = now;
+      return 0;
+    }
+
+    // タブ復帰などで大きく飛んだ場合は追いつこうとしない
+    const frameTime = Math.min(
+      Math.max(now - this.lastTime, 0),
+      this.stepMs * this.maxStepsPerFrame,
+    );
+    this.lastTime = now;
+    this.lastFrameMs = frameTime;
+    this.accumulator += frameTime;
+
+    let steps = 0;
+    while (this.accumulator >= this.stepMs) {
+      this.accumulator -= this.stepMs;
+      steps++;
+    }
+
+    this.interpolationAlpha = this.accumulator / this.stepMs;
+    return steps;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+    this.lastTime = null;
+    this.interpolationAlpha = 0;
+    this.lastFrameMs = 0;
+  }
+}
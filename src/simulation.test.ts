@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import * as THREE from "three";
+import {
+  boundsFromViewport,
+  clampSpeed,
+  createFishSchool,
+  resizeFishSchool,
+  screenToWorld,
+  stepSimulation,
+} from "./simulation";
+import { DEFAULT_BOID_CONFIG } from "./boid-config";
+import { random } from "./random";
+import { rectToObstacle } from "./obstacles";
+import { WaterCurrents } from "./water-currents";
+import { bounceOffBounds } from "./boundaries";
+import { Fish } from "./types";
+import { makeFish } from "./test-fixtures";
+
+const bounds = boundsFromViewport({ width: 800, height: 600 });
+
+beforeEach(() => {
+  random.reseed(42);
+});
+
+describe("clampSpeed", () => {
+  test("caps velocities above the maximum", () => {
+    const velocity = clampSpeed(new THREE.Vector3(30, 40, 0), 0.8, 5);
+    expect(velocity.length()).toBeCloseTo(5);
+    expect(velocity.x / velocity.y).toBeCloseTo(0.75);
+  });
+
+  test("raises velocities below the minimum", () => {
+    const velocity = clampSpeed(new THREE.Vector3(0.1, 0, 0), 0.8, 5);
+    expect(velocity.length()).toBeCloseTo(0.8);
+  });
+
+  test("leaves velocities within range untouched", () => {
+    const velocity = clampSpeed(new THREE.Vector3(2, 1, 0), 0.8, 5);
+    expect(velocity.toArray()).toEqual([2, 1, 0]);
+  });
+});
+
+describe("bounceOffBounds", () => {
+  test("clamps the position and reflects velocity on the crossed axis", () => {
+    const fish = makeFish([410, 0, 0], [3, 1, 0]);
+    bounceOffBounds(fish, bounds);
+
+    expect(fish.position.x).toBe(400);
+    expect(fish.velocity.x).toBeCloseTo(-2.4);
+    expect(fish.velocity.y).toBe(1);
+  });
+
+  test("bounces on the depth axis", () => {
+    const fish = makeFish([0, 0, -120], [0, 0, -2]);
+    bounceOffBounds(fish, bounds);
+
+    expect(fish.position.z).toBe(-100);
+    expect(fish.velocity.z).toBeCloseTo(1.6);
+  });
+
+  test("does nothing inside the bounds", () => {
+    const fish = makeFish([100, -100, 50], [1, 1, 1]);
+    bounceOffBounds(fish, bounds);
+
+    expect(fish.position.toArray()).toEqual([100, -100, 50]);
+    expect(fish.velocity.toArray()).toEqual([1, 1, 1]);
+  });
+});
+
+describe("screenToWorld", () => {
+  test("maps screen coordinates to a centered, y-up world", () => {
+    const viewport = { width: 800, height: 600 };
+
+    const center = screenToWorld({ x: 400, y: 300 }, viewport);
+    expect(center.equals(new THREE.Vector3(0, 0, 0))).toBe(true);
+
+    const topLeft = screenToWorld({ x: 0, y: 0 }, viewport);
+    expect(topLeft.equals(new THREE.Vector3(-400, 300, 0))).toBe(true);
+  });
+});
+
+describe("stepSimulation", () => {
+  test("is reproducible for the same seed", () => {
+    const run = () => {
+      random.reseed(7);
+      const fishes = createFishSchool();
+      for (let i = 0; i < 120; i++) {
+        stepSimulation(fishes, { bounds, pointer: null });
+      }
+      return fishes.map((fish) => fish.position.toArray());
+    };
+
+    expect(run()).toEqual(run());
+  });
+
+  test("keeps fish inside the world bounds", () => {
+    const fishes = createFishSchool({ ...DEFAULT_BOID_CONFIG, fishCount: 64 });
+    for (let i = 0; i < 300; i++) {
+      stepSimulation(fishes, { bounds, pointer: new THREE.Vector3(390, 0, 0) });
+    }
+
+    fishes.forEach((fish) => {
+      expect(Math.abs(fish.position.x)).toBeLessThanOrEqual(bounds.halfWidth);
+      expect(Math.abs(fish.position.y)).toBeLessThanOrEqual(bounds.halfHeight);
+      expect(Math.abs(fish.position.z)).toBeLessThanOrEqual(bounds.halfDepth);
+    });
+  });
+
+  test("keeps speeds within the configured limits", () => {
+    const fishes = createFishSchool({
+      ...DEFAULT_BOID_CONFIG,
+      speciesCounts: {},
+    });
+    stepSimulation(fishes, { bounds, pointer: null });
+
+    const { minSpeed, maxSpeed, damping } = DEFAULT_BOID_CONFIG;
+    fishes.forEach((fish) => {
+      // 境界での反射がなければ速度は [min, max] * damping に収まる
+      const speed = fish.velocity.length();
+      expect(speed).toBeLessThanOrEqual(maxSpeed * damping + 1e-9);
+      expect(speed).toBeGreaterThanOrEqual(minSpeed * damping - 1e-9);
+    });
+  });
+
+  test("records the previous position for interpolation", () => {
+    const fishes = createFishSchool();
+    const before = fishes.map((fish) => fish.position.clone());
+    stepSimulation(fishes, { bounds, pointer: null });
+
+    fishes.forEach((fish, i) => {
+      expect(fish.previousPosition.equals(before[i])).toBe(true);
+    });
+  });
+
+  test("emits trails through the trail emitter", () => {
+    const spawnParticlesFromFish = mock(() => {});
+    const fishes = createFishSchool();
+    for (let i = 0; i < 10; i++) {
+      stepSimulation(fishes, {
+        bounds,
+        pointer: null,
+        trailEmitter: { spawnParticlesFromFish },
+      });
+    }
+    expect(spawnParticlesFromFish).toHaveBeenCalled();
+  });
+});
+
+describe("resizeFishSchool", () => {
+  test("adds and removes fish per species to match the configured counts", () => {
+    const fishes = createFishSchool();
+    const grown = resizeFishSchool(fishes, {
+      ...DEFAULT_BOID_CONFIG,
+      fishCount: 20,
+      speciesCounts: { minnow: 5, shark: 2 },
+    });
+
+    const countOf = (school: Fish[], species: string) =>
+      school.filter((fish) => fish.species === species).length;
+    expect(countOf(grown, "goldfish")).toBe(20);
+    expect(countOf(grown, "minnow")).toBe(5);
+    expect(countOf(grown, "shark")).toBe(2);
+    expect(grown[0]).toBe(fishes[0]);
+    expect(new Set(grown.map((fish) => fish.id)).size).toBe(grown.length);
+
+    const shrunk = resizeFishSchool(grown, {
+      ...DEFAULT_BOID_CONFIG,
+      fishCount: 4,
+      speciesCounts: {},
+    });
+    expect(shrunk).toHaveLength(4);
+    expect(shrunk.every((fish) => fish.species === "goldfish")).toBe(true);
+  });
+});
+
+describe("predators and prey", () => {
+  const config = { ...DEFAULT_BOID_CONFIG, fishCount: 0, speciesCounts: {} };
+
+  const place = (
+    id: number,
+    species: Fish["species"],
+    position: [number, number, number],
+    velocity: [number, number, number],
+  ): Fish => ({ ...makeFish(position, velocity, id), species });
+
+  test("prey flee from a nearby predator", () => {
+    const prey = place(0, "goldfish", [0, 0, 0], [1, 0, 0]);
+    const shark = place(1, "shark", [-60, 0, 0], [1, 0, 0]);
+    const alone = place(2, "goldfish", [0, 200, 0], [1, 0, 0]);
+    stepSimulation([prey, shark, alone], { bounds, pointer: null, config });
+
+    // 捕食者から離れる方向（+x）へ加速する
+    expect(prey.velocity.x).toBeGreaterThan(alone.velocity.x + 0.5);
+  });
+
+  test("predators steer toward the nearest prey", () => {
+    const shark = place(0, "shark", [0, 0, 0], [1, 0, 0]);
+    const near = place(1, "goldfish", [0, 150, 0], [1, 0, 0]);
+    const far = place(2, "goldfish", [0, -280, 0], [1, 0, 0]);
+    stepSimulation([shark, near, far], { bounds, pointer: null, config });
+
+    expect(shark.velocity.y).toBeGreaterThan(0.05);
+  });
+});
+
+describe("obstacles", () => {
+  test("rectToObstacle uses the same mapping as the pointer", () => {
+    const obstacle = rectToObstacle(
+      { left: 300, top: 250, right: 500, bottom: 290 },
+      { width: 800, height: 600 },
+    );
+    expect(obstacle).toEqual({ minX: -100, maxX: 100, minY: 10, maxY: 50 });
+  });
+
+  test("fish swim around obstacles instead of through them", () => {
+    const obstacle = { minX: -60, maxX: 60, minY: -30, maxY: 30 };
+    const config = { ...DEFAULT_BOID_CONFIG, fishCount: 0, speciesCounts: {} };
+    const fish = makeFish([-200, 5, 0], [2, 0, 0]);
+
+    for (let i = 0; i < 200; i++) {
+      stepSimulation([fish], {
+        bounds,
+        pointer: null,
+        config,
+        obstacles: [obstacle],
+      });
+      const inside =
+        fish.position.x > obstacle.minX &&
+        fish.position.x < obstacle.maxX &&
+        fish.position.y > obstacle.minY &&
+        fish.position.y < obstacle.maxY;
+      expect(inside).toBe(false);
+    }
+  });
+});
+
+describe("water currents", () => {
+  const config = { ...DEFAULT_BOID_CONFIG, fishCount: 0, speciesCounts: {} };
+
+  test("a drag current carries fish along", () => {
+    const currents = new WaterCurrents();
+    currents.addCurrent(
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(0, 10, 0),
+    );
+    const carried = makeFish([0, 0, 0], [1, 0, 0]);
+    const still = makeFish([0, 0, 0], [1, 0, 0]);
+
+    stepSimulation([carried], { bounds, pointer: null, config, currents });
+    stepSimulation([still], { bounds, pointer: null, config });
+
+    expect(carried.velocity.y).toBeGreaterThan(still.velocity.y + 0.3);
+  });
+
+  test("a tap shockwave scatters nearby fish", () => {
+    const currents = new WaterCurrents();
+    currents.addShockwave(new THREE.Vector3(-10, 0, 0));
+    const fish = makeFish([0, 0, 0], [0, 1, 0]);
+
+    stepSimulation([fish], { bounds, pointer: null, config, currents });
+
+    expect(fish.velocity.x).toBeGreaterThan(1);
+  });
+});
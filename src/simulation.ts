@@ -0,0 +1,354 @@
+import * as THREE from "three";
+import { Fish } from "./types";
+import {
+  applyBoidRules,
+  avoidObstaclesForce,
+  chaseForce,
+  findNearest,
+  fleeForce,
+} from "./boids";
+import {
+  BoidConfig,
+  DEFAULT_BOID_CONFIG,
+  maxNeighborRadius,
+} from "./boid-config";
+import { SpatialHashGrid } from "./spatial-hash";
+import { random } from "./random";
+import { randomAppearance } from "./fish-appearance";
+import {
+  bounceOffBounds,
+  isStranded,
+  layoutClusterCenters,
+  steerFromBounds,
+  wrapAroundBounds,
+} from "./boundaries";
+import {
+  getSpecies,
+  panicConfig,
+  resolveSpeciesConfig,
+  SpeciesId,
+  SPECIES_IDS,
+  speciesCount,
+} from "./species";
+import type { EmitterConfig } from "./particle-emitter";
+import type { Obstacle } from "./obstacles";
+import type { WaterCurrents } from "./water-currents";
+
+/**
+ * 描画やブラウザAPIに依存しない群れのシミュレーション。
+ * 画面サイズやポインタはすべて引数で受け取り、魚の状態だけを更新する。
+ */
+
+// ワールド座標（原点が画面中央）での遊泳範囲
+export interface WorldBounds {
+  halfWidth: number;
+  halfHeight: number;
+  halfDepth: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// 魚の後ろに軌跡を出すもの（WebGPUParticleSystem など）
+export interface TrailEmitter {
+  spawnParticlesFromFish(
+    fishPosition: THREE.Vector3,
+    fishVelocity: THREE.Vector3,
+    fishColor: THREE.Color,
+    emitter?: EmitterConfig,
+  ): void;
+}
+
+export interface SimulationInput {
+  bounds: WorldBounds;
+  pointer: THREE.Vector3 | null; // ワールド座標、ポインタが無ければ null
+  config?: BoidConfig;
+  trailEmitter?: TrailEmitter;
+  obstacles?: Obstacle[]; // 避けるDOM要素（ワールド座標）
+  currents?: WaterCurrents; // ドラッグの水流とタップの衝撃波
+}
+
+export const boundsFromViewport = ({
+  width,
+  height,
+}: Viewport): WorldBounds => ({
+  halfWidth: width / 2,
+  halfHeight: height / 2,
+  halfDepth: 100,
+});
+
+// 画面座標（左上原点、y下向き）をワールド座標に変換
+export const screenToWorld = (
+  point: { x: number; y: number },
+  { width, height }: Viewport,
+  target: THREE.Vector3 = new THREE.Vector3(),
+): THREE.Vector3 => target.set(point.x - width / 2, -(point.y - height / 2), 0);
+
+// ワープ直後のフェードインにかかるステップ数
+export const FADE_IN_STEPS = 30;
+
+export const createFish = (
+  id: number,
+  speciesId: SpeciesId,
+  indexInSpecies: number,
+  config: BoidConfig,
+  bounds?: WorldBounds,
+): Fish => {
+  const species = getSpecies(speciesId);
+
+  // いくつかの小さなクラスターに分散（画面サイズが分かればそれに合わせて配置）
+  const clusterCenters = bounds
+    ? layoutClusterCenters(config.clusterCenters, bounds)
+    : config.clusterCenters;
+  const fishPerCluster = Math.max(
+    1,
+    Math.ceil(speciesCount(config, speciesId) / clusterCenters.length),
+  );
+  const clusterId = Math.floor(indexInSpecies / fishPerCluster);
+  const center = clusterCenters[clusterId] || clusterCenters[0];
+
+  const position = new THREE.Vector3(
+    center.x + random.spread(species.spawnSpread),
+    center.y + random.spread(species.spawnSpread),
+    center.z + random.spread(40),
+  );
+
+  return {
+    id,
+    species: speciesId,
+    position,
+    previousPosition: position.clone(),
+    velocity: new THREE.Vector3(
+      random.spread(2) + (clusterId * 0.5 - 0.5), // クラスター別の傾向
+      random.spread(2) + Math.sin(clusterId) * 0.5,
+      random.spread(0.5),
+    ),
+    ...randomAppearance(species.appearance),
+    opacity: 1,
+  };
+};
+
+// 種の定義順（基本種が先頭）に並べて群れを作る
+export const createFishSchool = (
+  config: BoidConfig = DEFAULT_BOID_CONFIG,
+  bounds?: WorldBounds,
+): Fish[] => resizeFishSchool([], config, bounds);
+
+// 設定の匹数に合わせて種ごとに魚を追加・削除する（既存の魚はそのまま泳ぎ続ける）
+export const resizeFishSchool = (
+  fishes: Fish[],
+  config: BoidConfig,
+  bounds?: WorldBounds,
+): Fish[] => {
+  const unchanged = SPECIES_IDS.every(
+    (id) =>
+      fishes.filter((fish) => fish.species === id).length ===
+      speciesCount(config, id),
+  );
+  if (unchanged) return fishes;
+
+  let nextId = fishes.reduce((max, fish) => Math.max(max, fish.id + 1), 0);
+  const result: Fish[] = [];
+
+  SPECIES_IDS.forEach((speciesId) => {
+    const count = speciesCount(config, speciesId);
+    const existing = fishes.filter((fish) => fish.species === speciesId);
+    result.push(...existing.slice(0, count));
+    for (let i = existing.length; i < count; i++) {
+      result.push(createFish(nextId++, speciesId, i, config, bounds));
+    }
+  });
+
+  return result;
+};
+
+export const clampSpeed = (
+  velocity: THREE.Vector3,
+  minSpeed: number,
+  maxSpeed: number,
+): THREE.Vector3 => {
+  if (velocity.length() > maxSpeed) {
+    velocity.normalize().multiplyScalar(maxSpeed);
+  } else if (velocity.length() < minSpeed) {
+    // 最低速度を保つ
+    velocity.normalize().multiplyScalar(minSpeed);
+  }
+  return velocity;
+};
+
+// これより速く泳いでいる魚だけが軌跡を出す
+export const TRAIL_MIN_SPEED = 1.0;
+
+// 速く泳いでいる魚の後ろに確率的に軌跡を出す
+export const emitTrail = (fish: Fish, trailEmitter?: TrailEmitter): void => {
+  const { trail } = getSpecies(fish.species);
+  if (
+    trail &&
+    random.next() < trail.spawnChance &&
+    fish.velocity.length() > TRAIL_MIN_SPEED
+  ) {
+    trailEmitter?.spawnParticlesFromFish(
+      fish.previousPosition,
+      fish.velocity,
+      fish.color,
+      trail.emitter,
+    );
+  }
+};
+
+// 近傍探索用グリッド（毎ステップ再構築）
+const neighborGrid = new SpatialHashGrid<Fish>(
+  maxNeighborRadius(DEFAULT_BOID_CONFIG),
+);
+const neighborCandidates: Fish[] = [];
+const flow = new THREE.Vector3();
+
+// 固定タイムステップ1回分の更新
+export const stepSimulation = (
+  fishes: Fish[],
+  {
+    bounds,
+    pointer,
+    config = DEFAULT_BOID_CONFIG,
+    trailEmitter,
+    obstacles = [],
+    currents,
+  }: SimulationInput,
+): void => {
+  // 種ごとの設定はステップ内で使い回す
+  const speciesConfigs = new Map<SpeciesId, BoidConfig>();
+  const panicConfigs = new Map<SpeciesId, BoidConfig>();
+  SPECIES_IDS.forEach((id) => {
+    const species = getSpecies(id);
+    const speciesConfig = resolveSpeciesConfig(species, config);
+    speciesConfigs.set(id, speciesConfig);
+    if (species.predatorResponse) {
+      panicConfigs.set(
+        id,
+        panicConfig(speciesConfig, species.predatorResponse),
+      );
+    }
+  });
+
+  const cellSize = Math.max(
+    ...Array.from(speciesConfigs.values(), maxNeighborRadius),
+  );
+  neighborGrid.setCellSize(cellSize);
+  neighborGrid.rebuild(fishes);
+
+  const predators = fishes.filter(
+    (fish) => getSpecies(fish.species).role === "predator",
+  );
+  const prey = fishes.filter(
+    (fish) => getSpecies(fish.species).role === "prey",
+  );
+
+  fishes.forEach((fish, index) => {
+    const species = getSpecies(fish.species);
+    fish.previousPosition.copy(fish.position);
+    fish.opacity = Math.min(1, fish.opacity + 1 / FADE_IN_STEPS);
+
+    // 画面が縮んで外に取り残された魚は、跳ね返しやワープをせずに泳いで戻らせる
+    const stranded = isStranded(fish, bounds, config.boundaryMode);
+
+    // 近くに捕食者がいれば逃げながら群れを密にする
+    const { predatorResponse, hunting } = species;
+    const threat = predatorResponse
+      ? findNearest(fish, predators, predatorResponse.fleeRadius)
+      : null;
+    const fishConfig = threat
+      ? panicConfigs.get(fish.species)!
+      : speciesConfigs.get(fish.species)!;
+
+    const candidates = neighborGrid.query(fish.position, neighborCandidates);
+    const boidForce = applyBoidRules(fish, candidates, pointer, fishConfig);
+
+    if (threat && predatorResponse) {
+      boidForce.add(
+        fleeForce(
+          fish,
+          threat,
+          predatorResponse.fleeRadius,
+          predatorResponse.fleeWeight,
+        ),
+      );
+    }
+
+    // 捕食者は一番近い獲物を追う
+    if (hunting) {
+      const target = findNearest(fish, prey, hunting.chaseRadius);
+      if (target) {
+        boidForce.add(chaseForce(fish, target, hunting.chaseWeight));
+      }
+    }
+
+    // ページの文字やボタンの上は泳がない
+    if (obstacles.length > 0) {
+      boidForce.add(
+        avoidObstaclesForce(
+          fish,
+          obstacles,
+          fishConfig.obstacleMargin,
+          fishConfig.obstacleWeight,
+        ),
+      );
+    }
+
+    // 水流に流され、衝撃波に押し出される
+    if (currents && !currents.isCalm) {
+      boidForce.add(
+        currents
+          .sample(fish.position, flow)
+          .multiplyScalar(fishConfig.currentWeight),
+      );
+      boidForce.add(
+        currents
+          .shockwaveAt(fish.position, flow)
+          .multiplyScalar(fishConfig.shockwaveWeight),
+      );
+    }
+
+    if (config.boundaryMode === "steer" || stranded) {
+      boidForce.add(
+        steerFromBounds(
+          fish,
+          bounds,
+          fishConfig.boundaryMargin,
+          fishConfig.boundaryWeight,
+        ),
+      );
+    }
+
+    fish.velocity.add(boidForce);
+
+    // ランダムな動きを追加（群れを分散させるため）
+    fish.velocity.add(
+      new THREE.Vector3(
+        random.spread(fishConfig.jitter),
+        random.spread(fishConfig.jitter),
+        random.spread(fishConfig.depthJitter),
+      ),
+    );
+
+    clampSpeed(fish.velocity, fishConfig.minSpeed, fishConfig.maxSpeed);
+
+    // 減衰
+    fish.velocity.multiplyScalar(fishConfig.damping);
+
+    // 位置更新
+    fish.position.add(fish.velocity);
+
+    emitTrail(fish, trailEmitter);
+
+    if (!stranded && config.boundaryMode === "bounce") {
+      bounceOffBounds(fish, bounds);
+    } else if (!stranded && config.boundaryMode === "wrap") {
+      if (wrapAroundBounds(fish, bounds)) fish.opacity = 0;
+    }
+
+    // 移動後の位置でグリッドを更新（後続の魚が最新位置を参照できるように）
+    neighborGrid.update(index);
+  });
+};
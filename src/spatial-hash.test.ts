@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { SpatialHashGrid } from "./spatial-hash";
+import { applyBoidRules } from "./boids";
+import { DEFAULT_BOID_CONFIG, maxNeighborRadius } from "./boid-config";
+import { SeededRandom } from "./random";
+import { Fish } from "./types";
+
+const createFishes = (count: number, random: SeededRandom): Fish[] =>
+  Array.from({ length: count }, (_, id) => {
+    const position = new THREE.Vector3(
+      random.spread(800),
+      random.spread(600),
+      random.spread(200),
+    );
+    return {
+      id,
+      species: "goldfish",
+      position,
+      previousPosition: position.clone(),
+      velocity: new THREE.Vector3(random.spread(2), random.spread(2), 0),
+      color: new THREE.Color(),
+      appearance: { pattern: "solid", size: 1 },
+      opacity: 1,
+    };
+  });
+
+describe("SpatialHashGrid", () => {
+  test("returns every item within the cell size, in array order", () => {
+    const random = new SeededRandom(1);
+    const fishes = createFishes(300, random);
+    const grid = new SpatialHashGrid<Fish>(80);
+    grid.rebuild(fishes);
+
+    fishes.forEach((fish) => {
+      const candidates = grid.query(fish.position);
+      const ids = candidates.map((candidate) => candidate.id);
+      expect(ids).toEqual([...ids].sort((a, b) => a - b));
+
+      fishes
+        .filter((other) => other.position.distanceTo(fish.position) < 80)
+        .forEach((other) => expect(ids).toContain(other.id));
+    });
+  });
+
+  test("tracks items that moved after update()", () => {
+    const fish = createFishes(1, new SeededRandom(2))[0];
+    const grid = new SpatialHashGrid<Fish>(80);
+    grid.rebuild([fish]);
+
+    fish.position.set(1000, 1000, 0);
+    grid.update(0);
+
+    expect(grid.query(new THREE.Vector3(1000, 1000, 0))).toEqual([fish]);
+  });
+
+  test("gives the same boid forces as brute force", () => {
+    const fishes = createFishes(500, new SeededRandom(3));
+    const grid = new SpatialHashGrid<Fish>(
+      maxNeighborRadius(DEFAULT_BOID_CONFIG),
+    );
+    grid.rebuild(fishes);
+    const pointer = new THREE.Vector3(0, 0, 0);
+
+    fishes.forEach((fish) => {
+      const expected = applyBoidRules(fish, fishes, pointer);
+      const actual = applyBoidRules(fish, grid.query(fish.position), pointer);
+      expect(actual.equals(expected)).toBe(true);
+    });
+  });
+
+  test("rejects a non-positive cell size", () => {
+    expect(() => new SpatialHashGrid(0)).toThrow();
+  });
+});
@@ -0,0 +1,146 @@
+import * as THREE from "three";
+
+// セル座標をバケット番号へ写すハッシュ（Teschner et al. の素数）
+const hashCell = (ix: number, iy: number, iz: number, mask: number): number =>
+  (Math.imul(ix, 73856093) ^
+    Math.imul(iy, 19349663) ^
+    Math.imul(iz, 83492791)) &
+  mask;
+
+const nextPowerOfTwo = (value: number): number => {
+  let size = 1;
+  while (size < value) size *= 2;
+  return size;
+};
+
+/**
+ * 近傍探索用の一様グリッド。
+ * セルサイズを最大探索半径以上にしておけば、周囲27セルを見るだけで
+ * 半径内の全候補が得られる。ハッシュ衝突で遠い要素が混ざることはあるが、
+ * 呼び出し側の距離判定で除外される。候補は元の配列順で返すので、
+ * 総当たりと同じ順序で力が加算される。
+ */
+export class SpatialHashGrid<T extends { position: THREE.Vector3 }> {
+  private cellSize = 1;
+  private buckets: number[][] = [];
+  private mask = 0;
+  private itemBuckets = new Int32Array(0);
+  private items: T[] = [];
+
+  // クエリ用の作業領域
+  private queryIndices = new Int32Array(0);
+  private visitedStamps = new Int32Array(0);
+  private stamp = 0;
+
+  constructor(cellSize: number) {
+    this.setCellSize(cellSize);
+  }
+
+  // セルの割り当てが変わるので rebuild の前に呼ぶこと
+  setCellSize(cellSize: number): void {
+    if (!(cellSize > 0)) {
+      throw new Error(`SpatialHashGrid: invalid cell size ${cellSize}`);
+    }
+    this.cellSize = cellSize;
+  }
+
+  rebuild(items: T[]): void {
+    const tableSize = nextPowerOfTwo(Math.max(64, items.length * 2));
+    if (tableSize !== this.buckets.length) {
+      this.buckets = Array.from({ length: tableSize }, () => []);
+      this.visitedStamps = new Int32Array(tableSize);
+      this.stamp = 0;
+    } else {
+      for (let i = 0; i < this.buckets.length; i++) {
+        this.buckets[i].length = 0;
+      }
+    }
+    this.mask = tableSize - 1;
+
+    if (this.itemBuckets.length < items.length) {
+      this.itemBuckets = new Int32Array(items.length);
+      this.queryIndices = new Int32Array(items.length);
+    }
+
+    this.items = items;
+    for (let i = 0; i < items.length; i++) {
+      const bucket = this.bucketFor(items[i].position);
+      this.itemBuckets[i] = bucket;
+      this.buckets[bucket].push(i);
+    }
+  }
+
+  // 要素が動いた後に呼ぶと、必要な場合だけバケットを付け替える
+  update(index: number): void {
+    const oldBucket = this.itemBuckets[index];
+    const newBucket = this.bucketFor(this.items[index].position);
+    if (oldBucket === newBucket) return;
+
+    const entries = this.buckets[oldBucket];
+    const slot = entries.indexOf(index);
+    if (slot !== -1) entries.splice(slot, 1);
+
+    this.itemBuckets[index] = newBucket;
+    this.buckets[newBucket].push(index);
+  }
+
+  query(position: THREE.Vector3, out: T[] = []): T[] {
+    out.length = 0;
+    if (this.items.length === 0) return out;
+
+    // 同じバケットを二度読まないためのスタンプ
+    this.stamp++;
+    if (this.stamp === 0x7fffffff) {
+      this.visitedStamps.fill(0);
+      this.stamp = 1;
+    }
+
+    const cx = Math.floor(position.x / this.cellSize);
+    const cy = Math.floor(position.y / this.cellSize);
+    const cz = Math.floor(position.z / this.cellSize);
+    let count = 0;
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const bucket = hashCell(cx + dx, cy + dy, cz + dz, this.mask);
+          if (this.visitedStamps[bucket] === this.stamp) continue;
+          this.visitedStamps[bucket] = this.stamp;
+
+          const entries = this.buckets[bucket];
+          for (let i = 0; i < entries.length; i++) {
+            this.queryIndices[count++] = entries[i];
+          }
+        }
+      }
+    }
+
+    // 総当たりと同じ加算順にするため元のインデックス順に並べる
+    // （各バケット内は概ね昇順なので挿入ソートで十分速い）
+    const indices = this.queryIndices;
+    for (let i = 1; i < count; i++) {
+      const value = indices[i];
+      let j = i - 1;
+      while (j >= 0 && indices[j] > value) {
+        indices[j + 1] = indices[j];
+        j--;
+      }
+      indices[j + 1] = value;
+    }
+
+    for (let i = 0; i < count; i++) {
+      out.push(this.items[indices[i]]);
+    }
+
+    return out;
+  }
+
+  private bucketFor(position: THREE.Vector3): number {
+    return hashCell(
+      Math.floor(position.x / this.cellSize),
+      Math.floor(position.y / this.cellSize),
+      Math.floor(position.z / this.cellSize),
+      this.mask,
+    );
+  }
+}
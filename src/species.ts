@@ -0,0 +1,155 @@
+import * as THREE from "three";
+import type { BoidConfig, BoidNumericKey } from "./boid-config";
+import { EmitterConfig, GOLD_TRAIL } from "./particle-emitter";
+import type { SpeciesAppearance } from "./fish-appearance";
+
+export type SpeciesId = "goldfish" | "minnow" | "shark";
+export type SpeciesRole = "prey" | "predator";
+
+// 捕食者が近くにいるときの被食者の反応
+export interface PredatorResponse {
+  fleeRadius: number;
+  fleeWeight: number;
+  schoolingBoost: number; // 整列・結束の強さに掛ける倍率
+}
+
+// 捕食者が獲物を追う強さ
+export interface HuntingBehavior {
+  chaseRadius: number;
+  chaseWeight: number;
+}
+
+export interface Species {
+  id: SpeciesId;
+  label: string;
+  role: SpeciesRole;
+  boids: Partial<Record<BoidNumericKey, number>>; // 全体設定への上書き
+  scale: number; // モデルの基本スケールに掛ける倍率
+  modelUrl?: string; // 省略時は fish.glb
+  spawnSpread: number; // クラスター中心からの散らばり
+  appearance: SpeciesAppearance;
+  trail: { emitter: EmitterConfig; spawnChance: number } | null;
+  predatorResponse?: PredatorResponse;
+  hunting?: HuntingBehavior;
+}
+
+export const BASE_SPECIES_ID: SpeciesId = "goldfish";
+
+export const SPECIES: Record<SpeciesId, Species> = {
+  goldfish: {
+    id: "goldfish",
+    label: "Goldfish",
+    role: "prey",
+    boids: {},
+    scale: 1,
+    spawnSpread: 120,
+    appearance: {
+      palette: [
+        new THREE.Color(1.0, 0.45, 0.1), // 橙
+        new THREE.Color(0.9, 0.2, 0.1), // 赤
+        new THREE.Color(1.0, 0.75, 0.2), // 金
+        new THREE.Color(0.95, 0.9, 0.85), // 白
+      ],
+      lightnessJitter: 0.1,
+      patterns: ["solid", "stripes", "gradient"],
+      sizeVariance: 0.2,
+    },
+    trail: { emitter: GOLD_TRAIL, spawnChance: 0.4 },
+    predatorResponse: { fleeRadius: 180, fleeWeight: 2, schoolingBoost: 3 },
+  },
+  minnow: {
+    id: "minnow",
+    label: "Minnow",
+    role: "prey",
+    boids: {
+      separationRadius: 18,
+      alignmentWeight: 0.3,
+      cohesionWeight: 0.06,
+      maxSpeed: 6,
+    },
+    scale: 0.6,
+    spawnSpread: 80,
+    appearance: {
+      palette: [
+        new THREE.Color(0.7, 0.8, 0.9), // 銀
+        new THREE.Color(0.5, 0.7, 0.9), // 青
+      ],
+      lightnessJitter: 0.08,
+      patterns: ["gradient", "stripes"],
+      sizeVariance: 0.1,
+    },
+    trail: {
+      emitter: {
+        ...GOLD_TRAIL,
+        emission: { burst: [1, 2] },
+        offset: -9,
+        palette: [
+          new THREE.Color(0.7, 0.85, 1.0), // 銀青
+          new THREE.Color(0.85, 0.9, 0.95), // 銀
+          new THREE.Color(0.5, 0.75, 1.0), // 水色
+        ],
+        matchSourceColor: true,
+        lightnessJitter: 0.2,
+      },
+      spawnChance: 0.25,
+    },
+    predatorResponse: { fleeRadius: 150, fleeWeight: 2.5, schoolingBoost: 4 },
+  },
+  shark: {
+    id: "shark",
+    label: "Shark",
+    role: "predator",
+    boids: {
+      separationRadius: 120,
+      alignmentWeight: 0,
+      cohesionWeight: 0,
+      mouseAttractionWeight: 0,
+      minSpeed: 0.6,
+      maxSpeed: 3.5,
+    },
+    scale: 2.2,
+    spawnSpread: 600,
+    appearance: {
+      palette: [new THREE.Color(0.45, 0.5, 0.55)], // 灰
+      lightnessJitter: 0.05,
+      patterns: ["gradient"],
+      sizeVariance: 0.15,
+    },
+    trail: null,
+    hunting: { chaseRadius: 300, chaseWeight: 0.12 },
+  },
+};
+
+export const SPECIES_IDS = Object.keys(SPECIES) as SpeciesId[];
+
+// 基本種以外の種（匹数を個別に設定するもの）
+export const EXTRA_SPECIES_IDS = SPECIES_IDS.filter(
+  (id) => id !== BASE_SPECIES_ID,
+);
+
+// toString など継承したキーは種にしない
+export const isSpeciesId = (value: string): value is SpeciesId =>
+  Object.hasOwn(SPECIES, value);
+
+export const getSpecies = (id: SpeciesId): Species =>
+  SPECIES[id] ?? SPECIES[BASE_SPECIES_ID];
+
+// 種ごとの上書きを適用した群れの設定
+export const resolveSpeciesConfig = (
+  species: Species,
+  config: BoidConfig,
+): BoidConfig => ({ ...config, ...species.boids });
+
+// 捕食者が近くにいるときは群れを密にする
+export const panicConfig = (
+  config: BoidConfig,
+  response: PredatorResponse,
+): BoidConfig => ({
+  ...config,
+  alignmentWeight: config.alignmentWeight * response.schoolingBoost,
+  cohesionWeight: config.cohesionWeight * response.schoolingBoost,
+});
+
+// 種ごとの匹数（基本種は fishCount）
+export const speciesCount = (config: BoidConfig, id: SpeciesId): number =>
+  id === BASE_SPECIES_ID ? config.fishCount : (config.speciesCounts[id] ?? 0);
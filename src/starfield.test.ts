@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import {
+  DEFAULT_STARFIELD_APPEARANCE,
+  Starfield,
+  STAR_LAYERS,
+} from "./starfield";
+import { random } from "./random";
+
+beforeEach(() => {
+  random.reseed(5);
+});
+
+const layerMeshes = (starfield: Starfield) =>
+  starfield.object.children.slice(
+    0,
+    STAR_LAYERS.length,
+  ) as THREE.InstancedMesh[];
+
+const starPositions = (mesh: THREE.InstancedMesh) => {
+  const matrix = new THREE.Matrix4();
+  return Array.from({ length: mesh.count }, (_, i) => {
+    mesh.getMatrixAt(i, matrix);
+    return new THREE.Vector3().setFromMatrixPosition(matrix);
+  });
+};
+
+describe("Starfield", () => {
+  test("places every layer behind the fish", () => {
+    const starfield = new Starfield({ width: 800, height: 600 });
+    expect(starfield.starCount).toBe(
+      STAR_LAYERS.reduce((total, { count }) => total + count, 0),
+    );
+    layerMeshes(starfield).forEach((mesh) =>
+      expect(mesh.position.z).toBeLessThan(-100),
+    );
+  });
+
+  test("spreads stars over the whole screen again after a resize", () => {
+    const starfield = new Starfield({ width: 400, height: 300 });
+    starfield.resize({ width: 1600, height: 1200 });
+
+    const positions = starPositions(layerMeshes(starfield)[0]);
+    const xs = positions.map(({ x }) => x);
+    const ys = positions.map(({ y }) => y);
+    expect(Math.max(...xs)).toBeGreaterThan(400);
+    expect(Math.min(...xs)).toBeLessThan(-400);
+    expect(Math.max(...ys)).toBeGreaterThan(300);
+    expect(Math.min(...ys)).toBeLessThan(-300);
+  });
+
+  test("shifts nearer layers further against the pointer", () => {
+    const starfield = new Starfield({ width: 800, height: 600 });
+    for (let i = 0; i < 200; i++) starfield.step({ x: 1, y: 1 }, 0);
+    starfield.render(1);
+
+    const [far, , near] = layerMeshes(starfield);
+    expect(far.position.x).toBeLessThan(0);
+    expect(far.position.y).toBeLessThan(0);
+    expect(near.position.x).toBeLessThan(far.position.x);
+    expect(near.position.x).toBeCloseTo(-STAR_LAYERS[2].parallax, 0);
+
+    // ポインタが無くなると中央に戻る
+    for (let i = 0; i < 200; i++) starfield.step(null, 0);
+    starfield.render(1);
+    expect(near.position.x).toBeCloseTo(0, 0);
+  });
+
+  test("never launches shooting stars when the rate is zero", () => {
+    const starfield = new Starfield({ width: 800, height: 600 });
+    for (let i = 0; i < 1000; i++) starfield.step(null, 0);
+    expect(starfield.shootingStarCount).toBe(0);
+  });
+
+  test("launches shooting stars at the configured rate and retires them", () => {
+    const starfield = new Starfield({ width: 800, height: 600 });
+    let launches = 0;
+    for (let i = 0; i < 3600 * 5; i++) {
+      const before = starfield.shootingStarCount;
+      starfield.step(null, 6);
+      if (starfield.shootingStarCount > before) launches++;
+    }
+    // 1分（3600ステップ）あたり平均6回
+    expect(launches / 5).toBeGreaterThan(3);
+    expect(launches / 5).toBeLessThan(9);
+
+    for (let i = 0; i < 60; i++) starfield.step(null, 0);
+    expect(starfield.shootingStarCount).toBe(0);
+  });
+
+  test("tints the stars and hides them at zero brightness", () => {
+    const starfield = new Starfield({ width: 800, height: 600 });
+    starfield.setAppearance({
+      tint: new THREE.Color(0, 1, 1),
+      brightness: 0.5,
+      shootingStars: false,
+    });
+    for (let i = 0; i < 100; i++) starfield.step(null, 3600);
+    expect(starfield.shootingStarCount).toBe(0);
+
+    const color = new THREE.Color();
+    layerMeshes(starfield)[0].getColorAt(0, color);
+    expect(color.r).toBe(0);
+    expect(color.g).toBeGreaterThan(0);
+    expect(color.g).toBeLessThan(0.3);
+
+    starfield.setAppearance({ ...DEFAULT_STARFIELD_APPEARANCE, brightness: 0 });
+    expect(starfield.object.visible).toBe(false);
+  });
+
+  test("stops twinkling and shooting stars in calm mode", () => {
+    const starfield = new Starfield({ width: 800, height: 600 });
+    starfield.setCalm(true);
+    const mesh = layerMeshes(starfield)[0];
+    const before = new THREE.Color();
+    const after = new THREE.Color();
+    starfield.step(null, 3600);
+    mesh.getColorAt(0, before);
+    for (let i = 0; i < 100; i++) starfield.step(null, 3600);
+    mesh.getColorAt(0, after);
+    expect(after.equals(before)).toBe(true);
+    expect(starfield.shootingStarCount).toBe(0);
+  });
+
+  test("draws only the shooting stars in flight", () => {
+    const starfield = new Starfield({ width: 800, height: 600 });
+    starfield.step(null, 3600 * 2);
+    starfield.step(null, 3600 * 2);
+    starfield.render(0.5);
+
+    const tails = starfield.object.children.at(-1) as THREE.InstancedMesh;
+    expect(tails.count).toBe(starfield.shootingStarCount);
+    expect(tails.count).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,370 @@
+import * as THREE from "three";
+import { random } from "./random";
+import { createSpriteTexture } from "./particle-sprite";
+import type { Viewport } from "./simulation";
+
+/**
+ * 魚の奥に広がる星空。奥行きの違う層ごとに1つの InstancedMesh で描き、
+ * ポインタに合わせて層ごとに少しずつずらして奥行きを出す（手前の層ほど大きく動く）。
+ * 星の位置は画面に対する割合で持つので、画面の大きさが変わっても全体に散らばったまま。
+ * ときどき流れ星が横切る。
+ */
+
+export interface StarLayerConfig {
+  count: number;
+  depth: number; // z 座標（魚より奥）
+  size: [number, number]; // 星の直径（px）
+  brightness: [number, number];
+  parallax: number; // ポインタが画面の端にあるときのずれ（px）
+}
+
+export const STAR_LAYERS: StarLayerConfig[] = [
+  {
+    count: 50,
+    depth: -400,
+    size: [1.5, 2.5],
+    brightness: [0.2, 0.4],
+    parallax: 4,
+  },
+  {
+    count: 24,
+    depth: -350,
+    size: [2, 3.5],
+    brightness: [0.3, 0.5],
+    parallax: 10,
+  },
+  { count: 8, depth: -300, size: [3, 5], brightness: [0.4, 0.6], parallax: 18 },
+];
+
+// テーマで変える星の色と明るさ
+export interface StarfieldAppearance {
+  tint: THREE.Color;
+  brightness: number; // 0 なら星を出さない
+  shootingStars: boolean;
+}
+
+export const DEFAULT_STARFIELD_APPEARANCE: StarfieldAppearance = {
+  tint: new THREE.Color(1, 1, 1),
+  brightness: 1,
+  shootingStars: true,
+};
+
+const TWINKLE_SPEED = 0.02;
+const TWINKLE_AMOUNT = 0.1;
+const PARALLAX_EASING = 0.05; // 1ステップでずれの目標にどれだけ近づくか
+
+// 流れ星
+const MAX_SHOOTING_STARS = 4;
+const SHOOTING_STAR_DEPTH = -250;
+const SHOOTING_STAR_STEPS = 45;
+const SHOOTING_STAR_SPEED: [number, number] = [12, 18]; // px/ステップ
+const SHOOTING_STAR_LENGTH: [number, number] = [80, 140];
+const SHOOTING_STAR_THICKNESS = 2;
+const STEPS_PER_MINUTE = 60 * 60;
+
+interface StarLayer {
+  config: StarLayerConfig;
+  mesh: THREE.InstancedMesh;
+  placement: Float32Array; // 画面に対する位置（0〜1）と大きさ
+  twinkle: Float32Array; // 明るさの基準と位相
+  offset: THREE.Vector2;
+  previousOffset: THREE.Vector2;
+}
+
+interface ShootingStar {
+  active: boolean;
+  age: number;
+  origin: THREE.Vector2;
+  velocity: THREE.Vector2;
+  length: number;
+}
+
+const matrix = new THREE.Matrix4();
+const rotation = new THREE.Quaternion();
+const scale = new THREE.Vector3();
+const translation = new THREE.Vector3();
+const color = new THREE.Color();
+const head = new THREE.Vector2();
+const direction = new THREE.Vector2();
+const FORWARD = new THREE.Vector3(0, 0, 1);
+const UPRIGHT = new THREE.Quaternion();
+
+// 右端が明るく左へ薄れる流れ星の尾
+const createTailTexture = (): THREE.DataTexture => {
+  const width = 64;
+  const height = 8;
+  const data = new Uint8Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const across = 1 - Math.abs(((row + 0.5) / height) * 2 - 1);
+    for (let column = 0; column < width; column++) {
+      const along = (column + 0.5) / width;
+      const offset = (row * width + column) * 4;
+      data.fill(255, offset, offset + 3);
+      data[offset + 3] = Math.round(along * along * across * 255);
+    }
+  }
+  const texture = new THREE.DataTexture(data, width, height);
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+const createGlowMaterial = (map: THREE.Texture) =>
+  new THREE.MeshBasicMaterial({
+    map,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+  });
+
+export class Starfield {
+  readonly object = new THREE.Group();
+  private readonly geometry = new THREE.PlaneGeometry(1, 1);
+  private readonly starTexture = createSpriteTexture({
+    shape: "glow",
+    softness: 0.5,
+  });
+  private readonly tailTexture = createTailTexture();
+  private readonly starMaterial = createGlowMaterial(this.starTexture);
+  private readonly tailMaterial = createGlowMaterial(this.tailTexture);
+  private readonly layers: StarLayer[];
+  private readonly shootingMesh: THREE.InstancedMesh;
+  private readonly shootingStars: ShootingStar[];
+  private viewport: Viewport;
+  private appearance = DEFAULT_STARFIELD_APPEARANCE;
+  private calm = false; // 瞬きと流れ星を止める（動きを減らす設定のとき）
+
+  constructor(viewport: Viewport, layers: StarLayerConfig[] = STAR_LAYERS) {
+    this.viewport = viewport;
+    this.layers = layers.map((config) => this.createLayer(config));
+
+    this.shootingMesh = new THREE.InstancedMesh(
+      this.geometry,
+      this.tailMaterial,
+      MAX_SHOOTING_STARS,
+    );
+    this.shootingMesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    this.shootingMesh.instanceColor = new THREE.InstancedBufferAttribute(
+      new Float32Array(MAX_SHOOTING_STARS * 3),
+      3,
+    );
+    this.shootingMesh.count = 0;
+    this.shootingMesh.frustumCulled = false;
+    this.shootingMesh.position.z = SHOOTING_STAR_DEPTH;
+    this.shootingStars = Array.from({ length: MAX_SHOOTING_STARS }, () => ({
+      active: false,
+      age: 0,
+      origin: new THREE.Vector2(),
+      velocity: new THREE.Vector2(),
+      length: 0,
+    }));
+
+    // 奥の層から描く
+    this.layers.forEach(({ mesh }) => this.object.add(mesh));
+    this.object.add(this.shootingMesh);
+    this.object.renderOrder = -1;
+    this.resize(viewport);
+  }
+
+  get starCount(): number {
+    return this.layers.reduce((total, layer) => total + layer.mesh.count, 0);
+  }
+
+  get shootingStarCount(): number {
+    return this.shootingStars.reduce(
+      (total, star) => total + (star.active ? 1 : 0),
+      0,
+    );
+  }
+
+  // 画面の大きさに合わせて星を並べ直す
+  resize(viewport: Viewport): void {
+    this.viewport = viewport;
+    const { width, height } = viewport;
+    this.layers.forEach(({ config, mesh, placement }) => {
+      // ずらしても端が空かないように、ずれの分だけ広く散らす
+      const spanX = width + config.parallax * 2;
+      const spanY = height + config.parallax * 2;
+      for (let i = 0; i < mesh.count; i++) {
+        const size = placement[i * 3 + 2];
+        translation.set(
+          (placement[i * 3] - 0.5) * spanX,
+          (placement[i * 3 + 1] - 0.5) * spanY,
+          0,
+        );
+        scale.set(size, size, 1);
+        mesh.setMatrixAt(i, matrix.compose(translation, UPRIGHT, scale));
+      }
+      mesh.instanceMatrix.needsUpdate = true;
+    });
+  }
+
+  // 色と明るさを変える（次のステップから反映）
+  setAppearance(appearance: StarfieldAppearance): void {
+    this.appearance = appearance;
+    this.object.visible = appearance.brightness > 0;
+    if (!appearance.shootingStars) {
+      this.shootingStars.forEach((star) => (star.active = false));
+    }
+  }
+
+  setCalm(calm: boolean): void {
+    this.calm = calm;
+    if (calm) this.shootingStars.forEach((star) => (star.active = false));
+  }
+
+  /**
+   * 固定タイムステップ1回分の更新。
+   * pointer は画面中央を 0、右上を (1, 1) とした位置（無ければ中央に戻す）。
+   * 層はポインタと逆向きにずれる。
+   */
+  step(
+    pointer: { x: number; y: number } | null,
+    shootingStarsPerMinute: number,
+  ): void {
+    const { tint, brightness: scale, shootingStars } = this.appearance;
+    this.layers.forEach((layer) => {
+      const { config, mesh, twinkle, offset, previousOffset } = layer;
+      previousOffset.copy(offset);
+      offset.x +=
+        (-(pointer?.x ?? 0) * config.parallax - offset.x) * PARALLAX_EASING;
+      offset.y +=
+        (-(pointer?.y ?? 0) * config.parallax - offset.y) * PARALLAX_EASING;
+
+      // 加算合成なので色の明るさで瞬かせる
+      for (let i = 0; i < mesh.count; i++) {
+        if (!this.calm) twinkle[i * 2 + 1] += TWINKLE_SPEED;
+        const brightness =
+          twinkle[i * 2] +
+          (this.calm ? 0 : Math.sin(twinkle[i * 2 + 1]) * TWINKLE_AMOUNT);
+        mesh.setColorAt(i, color.copy(tint).multiplyScalar(brightness * scale));
+      }
+      mesh.instanceColor!.needsUpdate = true;
+    });
+
+    this.shootingStars.forEach((star) => {
+      if (star.active && ++star.age >= SHOOTING_STAR_STEPS) star.active = false;
+    });
+    if (
+      shootingStars &&
+      !this.calm &&
+      shootingStarsPerMinute > 0 &&
+      random.next() < shootingStarsPerMinute / STEPS_PER_MINUTE
+    ) {
+      this.launchShootingStar();
+    }
+  }
+
+  // 前ステップと現ステップの間を alpha で補間して描く
+  render(alpha: number): void {
+    this.layers.forEach(({ mesh, offset, previousOffset }) => {
+      mesh.position.set(
+        previousOffset.x + (offset.x - previousOffset.x) * alpha,
+        previousOffset.y + (offset.y - previousOffset.y) * alpha,
+        mesh.position.z,
+      );
+    });
+
+    let count = 0;
+    this.shootingStars.forEach((star) => {
+      if (!star.active) return;
+      const age = star.age - 1 + alpha;
+      head.copy(star.origin).addScaledVector(star.velocity, age);
+      direction.copy(star.velocity).normalize();
+      // 尾の中心は頭から長さの半分だけ後ろ
+      translation.set(
+        head.x - (direction.x * star.length) / 2,
+        head.y - (direction.y * star.length) / 2,
+        0,
+      );
+      rotation.setFromAxisAngle(
+        FORWARD,
+        Math.atan2(star.velocity.y, star.velocity.x),
+      );
+      scale.set(star.length, SHOOTING_STAR_THICKNESS, 1);
+      this.shootingMesh.setMatrixAt(
+        count,
+        matrix.compose(translation, rotation, scale),
+      );
+      // 現れてすぐ明るくなり、消える前に薄れる
+      const t = age / SHOOTING_STAR_STEPS;
+      this.shootingMesh.setColorAt(
+        count,
+        color
+          .copy(this.appearance.tint)
+          .multiplyScalar(Math.max(0, Math.min(1, t * 6, (1 - t) * 3))),
+      );
+      count++;
+    });
+    this.shootingMesh.count = count;
+    this.shootingMesh.instanceMatrix.needsUpdate = true;
+    this.shootingMesh.instanceColor!.needsUpdate = true;
+  }
+
+  dispose(): void {
+    this.object.removeFromParent();
+    this.layers.forEach(({ mesh }) => mesh.dispose());
+    this.shootingMesh.dispose();
+    this.geometry.dispose();
+    this.starTexture.dispose();
+    this.tailTexture.dispose();
+    this.starMaterial.dispose();
+    this.tailMaterial.dispose();
+  }
+
+  private createLayer(config: StarLayerConfig): StarLayer {
+    const mesh = new THREE.InstancedMesh(
+      this.geometry,
+      this.starMaterial,
+      config.count,
+    );
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(
+      new Float32Array(config.count * 3),
+      3,
+    );
+    mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    mesh.position.z = config.depth;
+    mesh.frustumCulled = false;
+
+    const placement = new Float32Array(config.count * 3);
+    const twinkle = new Float32Array(config.count * 2);
+    for (let i = 0; i < config.count; i++) {
+      placement[i * 3] = random.next();
+      placement[i * 3 + 1] = random.next();
+      placement[i * 3 + 2] = random.range(config.size[0], config.size[1]);
+      twinkle[i * 2] = random.range(config.brightness[0], config.brightness[1]);
+      twinkle[i * 2 + 1] = random.next() * Math.PI * 2;
+    }
+    return {
+      config,
+      mesh,
+      placement,
+      twinkle,
+      offset: new THREE.Vector2(),
+      previousOffset: new THREE.Vector2(),
+    };
+  }
+
+  // 画面の上の方から斜め下へ流す
+  private launchShootingStar(): void {
+    const star = this.shootingStars.find(({ active }) => !active);
+    if (!star) return;
+
+    const { width, height } = this.viewport;
+    const direction = random.next() < 0.5 ? -1 : 1;
+    const angle = random.range(Math.PI / 9, Math.PI / 4.5);
+    const speed = random.range(SHOOTING_STAR_SPEED[0], SHOOTING_STAR_SPEED[1]);
+    star.active = true;
+    star.age = 0;
+    star.origin.set(random.spread(width), random.range(0, height / 2));
+    star.velocity.set(
+      Math.cos(angle) * speed * direction,
+      -Math.sin(angle) * speed,
+    );
+    star.length = random.range(
+      SHOOTING_STAR_LENGTH[0],
+      SHOOTING_STAR_LENGTH[1],
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import {
+  bankingRoll,
+  bendOffset,
+  advanceSwimPhase,
+  bakeSwimParts,
+  headingChange,
+  swimParameters,
+  swimPoseIndex,
+  SWIM_AMPLITUDE_LEVELS,
+  SWIM_POSE_COUNT,
+  SWIM_POSE_FRAMES,
+} from "./swim-animation";
+
+const createBoxFish = () => {
+  const geometry = new THREE.BoxGeometry(10, 2, 2, 10, 1, 1);
+  const group = new THREE.Group();
+  group.add(new THREE.Mesh(geometry, new THREE.MeshBasicMaterial()));
+  return { group, geometry };
+};
+
+describe("swimParameters", () => {
+  test("beats faster and wider with speed, up to a cap", () => {
+    const slow = swimParameters(0.5);
+    const fast = swimParameters(4);
+    expect(fast.frequency).toBeGreaterThan(slow.frequency);
+    expect(fast.amplitude).toBeGreaterThan(slow.amplitude);
+    expect(swimParameters(100).amplitude).toBe(swimParameters(50).amplitude);
+  });
+
+  test("bends the tail but not the head", () => {
+    expect(bendOffset(0, Math.PI / 2, 0.1)).toBe(0);
+    expect(Math.abs(bendOffset(1, Math.PI / 2, 0.1))).toBeGreaterThan(0);
+  });
+});
+
+describe("banking", () => {
+  test("measures signed heading changes in the xy plane", () => {
+    const east = new THREE.Vector3(1, 0, 0);
+    expect(headingChange(east, new THREE.Vector3(0, 1, 0))).toBeCloseTo(
+      Math.PI / 2,
+    );
+    expect(headingChange(east, new THREE.Vector3(0, -1, 0))).toBeCloseTo(
+      -Math.PI / 2,
+    );
+    expect(headingChange(east, east)).toBe(0);
+  });
+
+  test("rolls into a turn gradually and is capped", () => {
+    const first = bankingRoll(0, 2, 1 / 60);
+    expect(first).toBeLessThan(0);
+
+    let roll = first;
+    for (let i = 0; i < 600; i++) roll = bankingRoll(roll, 100, 1 / 60);
+    expect(roll).toBeCloseTo(-Math.PI / 5);
+
+    for (let i = 0; i < 600; i++) roll = bankingRoll(roll, 0, 1 / 60);
+    expect(roll).toBeCloseTo(0);
+  });
+});
+
+describe("swim poses", () => {
+  test("cycles through the frames faster when swimming faster", () => {
+    const slow = advanceSwimPhase(0, 0.5, 0.1);
+    const fast = advanceSwimPhase(0, 4, 0.1);
+    expect(fast).toBeGreaterThan(slow);
+    expect(advanceSwimPhase(0.9, 4, 1)).toBeLessThan(1);
+  });
+
+  test("picks stronger amplitude levels at higher speeds", () => {
+    const level = (speed: number) =>
+      Math.floor(swimPoseIndex(0, speed) / SWIM_POSE_FRAMES);
+    expect(level(0)).toBe(0);
+    expect(level(100)).toBe(SWIM_AMPLITUDE_LEVELS - 1);
+    expect(swimPoseIndex(0.99, 100)).toBe(SWIM_POSE_COUNT - 1);
+  });
+
+  test("bakes procedurally bent poses without touching the model", () => {
+    const { group, geometry } = createBoxFish();
+    const original = Float32Array.from(geometry.getAttribute("position").array);
+
+    const [part] = bakeSwimParts(group);
+    expect(part.geometry).toBe(geometry);
+    expect(part.poses).toHaveLength(SWIM_POSE_COUNT);
+    expect(geometry.getAttribute("position").array).toEqual(original);
+
+    // 尾（-X側）の頂点だけ横（z）にずれ、振れ幅の段階が上がるほど大きい
+    const tailShift = (poseIndex: number) => {
+      const pose = part.poses[poseIndex];
+      let head = 0;
+      let tail = 0;
+      for (let i = 0; i < pose.count; i++) {
+        const shift = Math.abs(pose.getZ(i) - original[i * 3 + 2]);
+        if (pose.getX(i) === 5) head = Math.max(head, shift);
+        if (pose.getX(i) === -5) tail = Math.max(tail, shift);
+      }
+      expect(head).toBe(0);
+      return tail;
+    };
+    const frame = 2;
+    expect(tailShift(frame)).toBeGreaterThan(0);
+    expect(tailShift(SWIM_POSE_FRAMES + frame)).toBeGreaterThan(
+      tailShift(frame),
+    );
+  });
+
+  test("samples animation clips when the model has them", () => {
+    const { group, geometry } = createBoxFish();
+    group.animations = [
+      new THREE.AnimationClip("swim", 1, [
+        new THREE.NumberKeyframeTrack(
+          ".children[0].position[y]",
+          [0, 0.5, 1],
+          [0, 2, 0],
+        ),
+      ]),
+    ];
+
+    const [part] = bakeSwimParts(group);
+    const rest = geometry.getAttribute("position");
+    // 最大振れ幅・クリップ中央のコマでは全体が y に 2 ずれている
+    const pose = part.poses[(SWIM_AMPLITUDE_LEVELS - 1) * SWIM_POSE_FRAMES + 4];
+    expect(pose.getY(0) - rest.getY(0)).toBeCloseTo(2);
+    expect((group.children[0] as THREE.Mesh).position.y).toBe(0);
+  });
+});
@@ -0,0 +1,235 @@
+import * as THREE from "three";
+import { clone as cloneSkinned } from "three/examples/jsm/utils/SkeletonUtils.js";
+
+/**
+ * 泳ぎのアニメーション（尾びれと体のうねり、旋回時の傾き）。
+ * GLBにアニメーションクリップがあればそれを、無ければ頂点を曲げた手続き的なうねりを
+ * ポーズとして焼き込み、速度に応じて速く・大きく切り替える。
+ * モデルは +X が頭、-X が尾の向き（FishRenderer の rotateY(-π/2) に合わせる）。
+ */
+
+export interface SwimParameters {
+  frequency: number; // 1秒あたりの尾の振り回数
+  amplitude: number; // 体長に対する振れ幅
+}
+
+export const MIN_FREQUENCY = 0.8;
+export const FREQUENCY_PER_SPEED = 0.6;
+export const MIN_AMPLITUDE = 0.03;
+export const AMPLITUDE_PER_SPEED = 0.02;
+export const MAX_AMPLITUDE = 0.15;
+
+// 体に乗る波の数（頭から尾までの位相のずれ）
+export const WAVE_NUMBER = Math.PI;
+
+export const MAX_BANK = Math.PI / 5;
+export const BANK_PER_TURN_RATE = 0.25; // 旋回角速度(rad/s)あたりの傾き
+export const BANK_SMOOTHING = 6; // 目標の傾きに近づく速さ(1/s)
+
+export const swimParameters = (speed: number): SwimParameters => ({
+  frequency: MIN_FREQUENCY + speed * FREQUENCY_PER_SPEED,
+  amplitude: Math.min(
+    MAX_AMPLITUDE,
+    MIN_AMPLITUDE + speed * AMPLITUDE_PER_SPEED,
+  ),
+});
+
+// 頭(t=0)から尾(t=1)に向かって大きくなる横方向のずれ（体長比）
+export const bendOffset = (
+  t: number,
+  phase: number,
+  amplitude: number,
+): number => amplitude * t * t * Math.sin(phase - t * WAVE_NUMBER);
+
+// xy平面での進行方向の変化（左回りが正）
+export const headingChange = (
+  previous: THREE.Vector3,
+  current: THREE.Vector3,
+): number => {
+  if (previous.lengthSq() === 0 || current.lengthSq() === 0) return 0;
+  const cross = previous.x * current.y - previous.y * current.x;
+  const dot = previous.x * current.x + previous.y * current.y;
+  return Math.atan2(cross, dot);
+};
+
+/**
+ * 旋回の速さから傾き（進行方向まわりのロール）を求める。
+ * いきなり傾かないよう、前フレームの傾きから滑らかに近づける。
+ */
+export const bankingRoll = (
+  currentRoll: number,
+  turnRate: number,
+  deltaSeconds: number,
+): number => {
+  const target = Math.max(
+    -MAX_BANK,
+    Math.min(MAX_BANK, -turnRate * BANK_PER_TURN_RATE),
+  );
+  const blend = 1 - Math.exp(-BANK_SMOOTHING * deltaSeconds);
+  return currentRoll + (target - currentRoll) * blend;
+};
+
+// 1周期を何コマ、振れ幅を何段階で焼き込むか
+export const SWIM_POSE_FRAMES = 8;
+export const SWIM_AMPLITUDE_LEVELS = 3;
+export const SWIM_POSE_COUNT = SWIM_POSE_FRAMES * SWIM_AMPLITUDE_LEVELS;
+
+/**
+ * モデルの1つのサブメッシュと、泳ぎの各ポーズに曲げた頂点位置。
+ * インスタンス描画では魚ごとにジオメトリを変えられないので、
+ * 少数のポーズを事前に焼き込み、魚ごとに今のポーズのメッシュへ振り分ける。
+ */
+export interface SwimPart {
+  geometry: THREE.BufferGeometry; // 元のジオメトリ（静止ポーズ）
+  material: THREE.Material | THREE.Material[];
+  matrix: THREE.Matrix4; // モデルのルートからの変換
+  poses: THREE.BufferAttribute[]; // [振れ幅の段階 * SWIM_POSE_FRAMES + コマ]
+}
+
+// 1周期を位相（0〜1）で表し、速いほど速く進める
+export const advanceSwimPhase = (
+  phase: number,
+  speed: number,
+  deltaSeconds: number,
+): number => (phase + swimParameters(speed).frequency * deltaSeconds) % 1;
+
+// 位相と速度から使うポーズの番号を決める
+export const swimPoseIndex = (phase: number, speed: number): number => {
+  const frame = Math.floor(phase * SWIM_POSE_FRAMES) % SWIM_POSE_FRAMES;
+  const { amplitude } = swimParameters(speed);
+  const level = Math.min(
+    SWIM_AMPLITUDE_LEVELS - 1,
+    Math.max(
+      0,
+      Math.round((amplitude / MAX_AMPLITUDE) * SWIM_AMPLITUDE_LEVELS) - 1,
+    ),
+  );
+  return level * SWIM_POSE_FRAMES + frame;
+};
+
+// 振れ幅が最大のときの各コマの頂点位置を、静止ポーズとの差から段階ごとに縮めて並べる
+const buildPoses = (
+  rest: THREE.BufferAttribute,
+  fullFrames: Float32Array[],
+): THREE.BufferAttribute[] => {
+  const poses: THREE.BufferAttribute[] = [];
+  for (let level = 0; level < SWIM_AMPLITUDE_LEVELS; level++) {
+    const fraction = (level + 1) / SWIM_AMPLITUDE_LEVELS;
+    fullFrames.forEach((full) => {
+      const positions = new Float32Array(rest.count * 3);
+      for (let i = 0; i < rest.count; i++) {
+        positions[i * 3] =
+          rest.getX(i) + (full[i * 3] - rest.getX(i)) * fraction;
+        positions[i * 3 + 1] =
+          rest.getY(i) + (full[i * 3 + 1] - rest.getY(i)) * fraction;
+        positions[i * 3 + 2] =
+          rest.getZ(i) + (full[i * 3 + 2] - rest.getZ(i)) * fraction;
+      }
+      poses.push(new THREE.BufferAttribute(positions, 3));
+    });
+  }
+  return poses;
+};
+
+// 頂点を横方向（z）に曲げてうねらせたコマ（頭は +X、尾は -X）
+const bendFrames = (geometry: THREE.BufferGeometry): Float32Array[] => {
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const { min, max } = geometry.boundingBox!;
+  const length = max.x - min.x;
+  const rest = geometry.getAttribute("position");
+
+  return Array.from({ length: SWIM_POSE_FRAMES }, (_, frame) => {
+    const phase = (frame / SWIM_POSE_FRAMES) * Math.PI * 2;
+    const positions = new Float32Array(rest.count * 3);
+    for (let i = 0; i < rest.count; i++) {
+      const t = length > 0 ? (max.x - rest.getX(i)) / length : 0;
+      positions[i * 3] = rest.getX(i);
+      positions[i * 3 + 1] = rest.getY(i);
+      positions[i * 3 + 2] =
+        rest.getZ(i) + bendOffset(t, phase, MAX_AMPLITUDE) * length;
+    }
+    return positions;
+  });
+};
+
+const vertex = new THREE.Vector3();
+const delta = new THREE.Matrix4();
+
+/**
+ * GLBのアニメーションクリップを1周期分サンプリングしたコマ。
+ * スキンメッシュはボーン変形後、ノードのアニメーションは静止ポーズとの差分を
+ * 各サブメッシュのローカル座標に焼き込む。
+ */
+const clipFrames = (
+  model: THREE.Object3D,
+  clip: THREE.AnimationClip,
+): Float32Array[][] => {
+  // 元のモデルを動かさないよう複製の上で再生する
+  const posed = cloneSkinned(model);
+  posed.updateMatrixWorld(true);
+  const meshes: THREE.Mesh[] = [];
+  posed.traverse((object) => {
+    if (object instanceof THREE.Mesh) meshes.push(object);
+  });
+  const restInverse = meshes.map((mesh) => mesh.matrixWorld.clone().invert());
+
+  const mixer = new THREE.AnimationMixer(posed);
+  mixer.clipAction(clip).play();
+
+  const frames: Float32Array[][] = meshes.map(() => []);
+  for (let frame = 0; frame < SWIM_POSE_FRAMES; frame++) {
+    mixer.setTime((frame / SWIM_POSE_FRAMES) * clip.duration);
+    posed.updateMatrixWorld(true);
+
+    meshes.forEach((mesh, index) => {
+      if (mesh instanceof THREE.SkinnedMesh) mesh.skeleton.update();
+      delta.multiplyMatrices(restInverse[index], mesh.matrixWorld);
+
+      const rest = mesh.geometry.getAttribute("position");
+      const positions = new Float32Array(rest.count * 3);
+      for (let i = 0; i < rest.count; i++) {
+        mesh.getVertexPosition(i, vertex).applyMatrix4(delta);
+        vertex.toArray(positions, i * 3);
+      }
+      frames[index].push(positions);
+    });
+  }
+
+  mixer.stopAllAction();
+  mixer.uncacheRoot(posed);
+  return frames;
+};
+
+/**
+ * モデルの各サブメッシュについて泳ぎのポーズを焼き込む。
+ * クリップがあればそれを、無ければ手続き的なうねりを使う。
+ */
+export const bakeSwimParts = (model: THREE.Object3D): SwimPart[] => {
+  model.updateMatrixWorld(true);
+  const clip = model.animations[0];
+  // 複製は traverse の順序が同じなので、順番でサブメッシュを対応させる
+  const sampled = clip ? clipFrames(model, clip) : null;
+
+  const parts: SwimPart[] = [];
+  let meshIndex = 0;
+  model.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return;
+    const geometry = object.geometry as THREE.BufferGeometry;
+    const rest = geometry.getAttribute("position") as THREE.BufferAttribute;
+    const frames = sampled ? sampled[meshIndex] : bendFrames(geometry);
+    meshIndex++;
+
+    parts.push({
+      geometry,
+      material: object.material,
+      matrix: object.matrixWorld.clone(),
+      poses: buildPoses(rest, frames),
+    });
+  });
+
+  return parts;
+};
+
+// 魚ごとに決まった開始位相（乱数を使わないのでシミュレーションの再現性に影響しない）
+export const swimPhaseOffset = (id: number): number =>
+  (id * 0.618033988749895) % 1;
@@ -0,0 +1,18 @@
+import * as THREE from "three";
+import { Fish } from "./types";
+
+// テストで使う単色の金魚（種などは必要なテストで上書きする）
+export const makeFish = (
+  position: [number, number, number],
+  velocity: [number, number, number] = [0, 0, 0],
+  id: number = 0,
+): Fish => ({
+  id,
+  species: "goldfish",
+  position: new THREE.Vector3(...position),
+  previousPosition: new THREE.Vector3(...position),
+  velocity: new THREE.Vector3(...velocity),
+  color: new THREE.Color(),
+  appearance: { pattern: "solid", size: 1 },
+  opacity: 1,
+});
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import {
+  createBackgroundTexture,
+  fadeColor,
+  loadThemePreference,
+  resolveTheme,
+  saveThemePreference,
+  THEME_IDS,
+  themeForTime,
+  THEMES,
+} from "./theme";
+
+const at = (hour: number) => new Date(2024, 5, 1, hour, 30);
+
+describe("theme selection", () => {
+  test("follows the time of day", () => {
+    expect(themeForTime(at(12))).toBe("dayReef");
+    expect(themeForTime(at(6))).toBe("deepOcean");
+    expect(themeForTime(at(18))).toBe("deepOcean");
+    expect(themeForTime(at(23))).toBe("nightSky");
+    expect(themeForTime(at(2))).toBe("nightSky");
+  });
+
+  test("resolves automatic and fixed preferences", () => {
+    expect(resolveTheme("time", at(12), true)).toBe("dayReef");
+    expect(resolveTheme("system", at(12), true)).toBe("nightSky");
+    expect(resolveTheme("system", at(23), false)).toBe("dayReef");
+    expect(resolveTheme("deepOcean", at(12), false)).toBe("deepOcean");
+  });
+
+  test("remembers the preference and ignores unknown values", () => {
+    const items = new Map<string, string>();
+    const storage = {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+    };
+    expect(loadThemePreference(storage)).toBe("time");
+
+    saveThemePreference("dayReef", storage);
+    expect(loadThemePreference(storage)).toBe("dayReef");
+
+    items.set("fish-theme", "sunset");
+    expect(loadThemePreference(storage)).toBe("time");
+  });
+});
+
+describe("themes", () => {
+  test("paints the background from the bottom color up to the top color", () => {
+    THEME_IDS.forEach((id) => {
+      const texture = createBackgroundTexture(THEMES[id]);
+      const data = texture.image.data as Uint8Array;
+      const last = data.length - 4;
+      const hex = (offset: number) =>
+        "#" +
+        Array.from(data.subarray(offset, offset + 3), (value) =>
+          value.toString(16).padStart(2, "0"),
+        ).join("");
+      expect(hex(0)).toBe(THEMES[id].background.bottom);
+      expect(hex(last)).toBe(THEMES[id].background.top);
+      texture.dispose();
+    });
+  });
+
+  test("fades fish in from the middle of the background, not from black", () => {
+    const { r, g, b } = fadeColor(THEMES.dayReef).getRGB(
+      { r: 0, g: 0, b: 0 },
+      THREE.SRGBColorSpace,
+    );
+    // #3fa9d6 と #0e4f7a の中間
+    expect(r * 255).toBeCloseTo((0x3f + 0x0e) / 2, 1);
+    expect(g * 255).toBeCloseTo((0xa9 + 0x4f) / 2, 1);
+    expect(b * 255).toBeCloseTo((0xd6 + 0x7a) / 2, 1);
+  });
+});
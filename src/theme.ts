@@ -0,0 +1,235 @@
+import * as THREE from "three";
+import type { CausticsLook } from "./post-processing";
+import type { StarfieldAppearance } from "./starfield";
+
+/**
+ * シーンの見た目のまとまり（背景・照明・星・水中の光・パーティクルの色・タイトルの色）。
+ * 時刻か OS のライト／ダークの設定で自動に切り替えるか、手で選んだものに固定する。
+ */
+
+export type ThemeId = "nightSky" | "deepOcean" | "dayReef";
+
+export const THEME_IDS: readonly ThemeId[] = [
+  "nightSky",
+  "deepOcean",
+  "dayReef",
+];
+
+export interface LightSetting {
+  color: THREE.Color;
+  intensity: number;
+}
+
+export interface Theme {
+  label: string;
+  background: { top: string; bottom: string }; // CSS の色（上から下へのグラデーション）
+  lighting: { ambient: LightSetting; directional: LightSetting };
+  stars: StarfieldAppearance;
+  caustics: CausticsLook;
+  // 差し替えるパーティクルの色（無ければプリセットの色のまま）
+  particles: { trail?: THREE.Color[]; sparkle?: THREE.Color[] };
+  title: string; // タイトルのグラデーション（Tailwind のクラス）
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  nightSky: {
+    label: "Night sky",
+    background: { top: "#0b0820", bottom: "#000000" },
+    lighting: {
+      ambient: { color: new THREE.Color(0xffffff), intensity: 2.5 },
+      directional: { color: new THREE.Color(0xffffff), intensity: 3.5 },
+    },
+    stars: {
+      tint: new THREE.Color(0xffffff),
+      brightness: 1,
+      shootingStars: true,
+    },
+    caustics: { tint: new THREE.Color(0.45, 0.75, 1), strength: 0.6 },
+    particles: {},
+    title: "from-blue-400 via-purple-500 to-pink-500",
+  },
+  deepOcean: {
+    label: "Deep ocean",
+    background: { top: "#0a2a4a", bottom: "#01060f" },
+    lighting: {
+      ambient: { color: new THREE.Color(0x6fa8dc), intensity: 1.8 },
+      directional: { color: new THREE.Color(0x9fd3ff), intensity: 2.5 },
+    },
+    // 星の代わりに光るプランクトンが漂う
+    stars: {
+      tint: new THREE.Color(0x7fd8ff),
+      brightness: 0.6,
+      shootingStars: false,
+    },
+    caustics: { tint: new THREE.Color(0.3, 0.7, 1), strength: 1 },
+    particles: {
+      trail: [
+        new THREE.Color(0.3, 0.9, 1.0), // 青緑の発光
+        new THREE.Color(0.2, 0.7, 1.0), // 水色
+        new THREE.Color(0.5, 1.0, 0.9), // 薄緑
+        new THREE.Color(0.4, 0.8, 0.95), // 淡い青
+      ],
+      sparkle: [new THREE.Color(0.7, 1.0, 1.0), new THREE.Color(0.4, 0.8, 1.0)],
+    },
+    title: "from-cyan-300 via-sky-500 to-blue-700",
+  },
+  dayReef: {
+    label: "Daytime reef",
+    background: { top: "#3fa9d6", bottom: "#0e4f7a" },
+    lighting: {
+      ambient: { color: new THREE.Color(0xffffff), intensity: 3 },
+      directional: { color: new THREE.Color(0xfff2d6), intensity: 4.5 },
+    },
+    stars: {
+      tint: new THREE.Color(0xffffff),
+      brightness: 0,
+      shootingStars: false,
+    },
+    caustics: { tint: new THREE.Color(1, 0.95, 0.75), strength: 1.6 },
+    particles: {
+      trail: [
+        new THREE.Color(1.0, 0.5, 0.4), // 珊瑚色
+        new THREE.Color(1.0, 0.7, 0.3), // 橙
+        new THREE.Color(1.0, 0.4, 0.6), // 桃色
+        new THREE.Color(0.9, 0.9, 0.5), // 黄
+      ],
+      sparkle: [new THREE.Color(1.0, 1.0, 0.9), new THREE.Color(1.0, 0.8, 0.6)],
+    },
+    title: "from-yellow-300 via-orange-400 to-pink-500",
+  },
+};
+
+// 自動で選ぶ方法（時刻か OS の設定）か、固定するテーマ
+export type ThemePreference = "time" | "system" | ThemeId;
+
+export const THEME_PREFERENCE_LABELS: Record<ThemePreference, string> = {
+  time: "Auto (time of day)",
+  system: "Auto (system)",
+  nightSky: THEMES.nightSky.label,
+  deepOcean: THEMES.deepOcean.label,
+  dayReef: THEMES.dayReef.label,
+};
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  value === "time" ||
+  value === "system" ||
+  THEME_IDS.includes(value as ThemeId);
+
+// 昼はサンゴ礁、朝夕は深い海、夜は星空
+export const themeForTime = (date: Date): ThemeId => {
+  const hour = date.getHours();
+  if (hour >= 7 && hour < 17) return "dayReef";
+  if (hour >= 5 && hour < 20) return "deepOcean";
+  return "nightSky";
+};
+
+export const themeForColorScheme = (prefersDark: boolean): ThemeId =>
+  prefersDark ? "nightSky" : "dayReef";
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+const prefersDarkScheme = (): boolean =>
+  globalThis.matchMedia?.(DARK_SCHEME_QUERY).matches ?? true;
+
+export const resolveTheme = (
+  preference: ThemePreference,
+  now: Date = new Date(),
+  prefersDark: boolean = prefersDarkScheme(),
+): ThemeId => {
+  if (preference === "time") return themeForTime(now);
+  if (preference === "system") return themeForColorScheme(prefersDark);
+  return preference;
+};
+
+const TIME_CHECK_MS = 60 * 1000;
+
+// 自動のとき、時刻や OS の設定が変わったら選び直したテーマを渡す
+export const watchThemePreference = (
+  preference: ThemePreference,
+  onChange: (theme: ThemeId) => void,
+): (() => void) => {
+  if (preference === "time") {
+    const timer = setInterval(
+      () => onChange(resolveTheme(preference)),
+      TIME_CHECK_MS,
+    );
+    return () => clearInterval(timer);
+  }
+  if (preference === "system" && globalThis.matchMedia) {
+    const query = globalThis.matchMedia(DARK_SCHEME_QUERY);
+    const handleChange = () => onChange(resolveTheme(preference));
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }
+  return () => {};
+};
+
+// 背景のグラデーションの上端と下端（CSS のグラデーションと同じく sRGB の値のまま混ぜる）
+const backgroundStops = ({ background }: Theme) => {
+  const srgb = (color: string) =>
+    new THREE.Color(color).getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+  return { top: srgb(background.top), bottom: srgb(background.bottom) };
+};
+
+// 背景の縦のグラデーション（シーンの背景に敷くので後処理も同じ色の上に掛かる）
+export const createBackgroundTexture = (theme: Theme): THREE.DataTexture => {
+  const height = 64;
+  const { top, bottom } = backgroundStops(theme);
+  const data = new Uint8Array(height * 4);
+  // 1行目が画面の下
+  for (let row = 0; row < height; row++) {
+    const t = row / (height - 1);
+    data[row * 4] = Math.round((bottom.r + (top.r - bottom.r) * t) * 255);
+    data[row * 4 + 1] = Math.round((bottom.g + (top.g - bottom.g) * t) * 255);
+    data[row * 4 + 2] = Math.round((bottom.b + (top.b - bottom.b) * t) * 255);
+    data[row * 4 + 3] = 255;
+  }
+  const texture = new THREE.DataTexture(data, 1, height);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.LinearFilter;
+  texture.minFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// 魚がフェードインするときに溶け込ませる色（背景のグラデーションの中ほど）
+export const fadeColor = (
+  theme: Theme,
+  target: THREE.Color = new THREE.Color(),
+): THREE.Color => {
+  const { top, bottom } = backgroundStops(theme);
+  return target.setRGB(
+    (top.r + bottom.r) / 2,
+    (top.g + bottom.g) / 2,
+    (top.b + bottom.b) / 2,
+    THREE.SRGBColorSpace,
+  );
+};
+
+// CSS で描く背景（キャンバスが出るまでの間とキャンバスの外）
+export const backgroundStyle = ({ background }: Theme): string =>
+  `linear-gradient(to bottom, ${background.top}, ${background.bottom})`;
+
+const THEME_STORAGE_KEY = "fish-theme";
+
+export const loadThemePreference = (
+  storage: Pick<Storage, "getItem"> | undefined = globalThis.localStorage,
+): ThemePreference => {
+  try {
+    const stored = storage?.getItem(THEME_STORAGE_KEY);
+    return isThemePreference(stored) ? stored : "time";
+  } catch {
+    return "time";
+  }
+};
+
+export const saveThemePreference = (
+  preference: ThemePreference,
+  storage: Pick<Storage, "setItem"> | undefined = globalThis.localStorage,
+): void => {
+  try {
+    storage?.setItem(THEME_STORAGE_KEY, preference);
+  } catch {
+    // 保存できなくても動作は続ける
+  }
+};
@@ -1,28 +1,14 @@
 import * as THREE from "three";
+import type { SpeciesId } from "./species";
+import type { FishAppearance } from "./fish-appearance";
 
 export interface Fish {
   id: number;
+  species: SpeciesId;
   position: THREE.Vector3;
+  previousPosition: THREE.Vector3; // 描画補間用の前ステップ位置
   velocity: THREE.Vector3;
-  mesh: THREE.Group | null;
   color: THREE.Color;
-}
-
-export interface Star {
-  x: number;
-  y: number;
-  opacity: number;
-  baseOpacity: number;
-  twinklePhase: number;
-}
-
-export interface Particle {
-  id: number;
-  position: THREE.Vector3;
-  velocity: THREE.Vector3;
-  life: number;
-  maxLife: number;
-  size: number;
-  color: THREE.Color;
-  mesh: THREE.Mesh | null;
+  appearance: FishAppearance;
+  opacity: number; // 反対側に現れた直後は 0 から 1 へフェードイン
 }
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { WaterCurrents } from "./water-currents";
+
+describe("WaterCurrents", () => {
+  test("flows in the drag direction, strongest at the drag point", () => {
+    const currents = new WaterCurrents({ radius: 100 });
+    currents.addCurrent(new THREE.Vector3(0, 0, 0), new THREE.Vector3(5, 0, 0));
+
+    const center = currents.sample(new THREE.Vector3(0, 0, 0));
+    const aside = currents.sample(new THREE.Vector3(0, 100, 0));
+    expect(center.x).toBeCloseTo(5);
+    expect(aside.x).toBeCloseTo(5 * Math.exp(-1));
+    expect(currents.sample(new THREE.Vector3(0, 500, 0)).length()).toBe(0);
+  });
+
+  test("decays every step until the water is calm", () => {
+    const currents = new WaterCurrents({ decay: 0.5 });
+    currents.addCurrent(new THREE.Vector3(), new THREE.Vector3(4, 0, 0));
+
+    currents.step();
+    expect(currents.sample(new THREE.Vector3()).x).toBeCloseTo(2);
+
+    for (let i = 0; i < 10; i++) currents.step();
+    expect(currents.isCalm).toBe(true);
+  });
+
+  test("caps the combined flow speed", () => {
+    const currents = new WaterCurrents({ maxFlowSpeed: 10 });
+    for (let i = 0; i < 5; i++) {
+      currents.addCurrent(new THREE.Vector3(), new THREE.Vector3(0, 8, 0));
+    }
+    expect(currents.sample(new THREE.Vector3()).length()).toBeCloseTo(10);
+  });
+
+  test("shockwaves push outward at the expanding front", () => {
+    const currents = new WaterCurrents({
+      shockwaveSpeed: 10,
+      shockwaveThickness: 20,
+      shockwaveLifetime: 30,
+    });
+    currents.addShockwave(new THREE.Vector3(0, 0, 0));
+
+    // 最初のステップでは波面は半径 10
+    expect(currents.shockwaveAt(new THREE.Vector3(10, 0, 0)).x).toBeCloseTo(1);
+    expect(currents.shockwaveAt(new THREE.Vector3(0, -10, 0)).y).toBeCloseTo(
+      -1,
+    );
+    expect(currents.shockwaveAt(new THREE.Vector3(100, 0, 0)).length()).toBe(0);
+
+    for (let i = 0; i < 9; i++) currents.step();
+    const later = currents.shockwaveAt(new THREE.Vector3(100, 0, 0));
+    expect(later.x).toBeCloseTo(1 - 9 / 30);
+
+    for (let i = 0; i < 30; i++) currents.step();
+    expect(currents.isCalm).toBe(true);
+  });
+
+  test("packs the newest currents and shockwaves for the GPU", () => {
+    const currents = new WaterCurrents({
+      decay: 0.5,
+      shockwaveSpeed: 10,
+      shockwaveLifetime: 20,
+    });
+    currents.addCurrent(new THREE.Vector3(1, 2, 0), new THREE.Vector3(4, 0, 0));
+    currents.addCurrent(new THREE.Vector3(5, 6, 0), new THREE.Vector3(0, 8, 0));
+    currents.addShockwave(new THREE.Vector3(3, 4, 0));
+    currents.step();
+
+    const packedCurrents = new Float32Array(4);
+    const packedShockwaves = new Float32Array(8);
+    expect(currents.packInto(packedCurrents, packedShockwaves)).toEqual({
+      currentCount: 1,
+      shockwaveCount: 1,
+    });
+    expect(Array.from(packedCurrents)).toEqual([5, 6, 0, 4]);
+    expect(Array.from(packedShockwaves.subarray(0, 3))).toEqual([3, 4, 20]);
+    expect(packedShockwaves[3]).toBeCloseTo(0.95);
+  });
+});
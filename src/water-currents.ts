@@ -0,0 +1,206 @@
+import * as THREE from "three";
+
+/**
+ * ドラッグで起こす水流と、タップで広がる衝撃波。
+ * どちらもワールド座標（xy平面）で持ち、固定タイムステップごとに減衰させる。
+ */
+
+// 位置ごとの水の流れを返すもの（魚やパーティクルを流す）
+export interface FlowField {
+  sample(position: THREE.Vector3, target: THREE.Vector3): THREE.Vector3;
+}
+
+export interface WaterCurrentsOptions {
+  radius?: number; // 1つの流れが届く範囲
+  decay?: number; // 1ステップごとの減衰率
+  maxCurrents?: number; // 溜めておく流れの上限（古いものから捨てる）
+  maxFlowSpeed?: number;
+  shockwaveSpeed?: number; // 衝撃波が1ステップで広がる距離
+  shockwaveThickness?: number;
+  shockwaveLifetime?: number; // ステップ数
+}
+
+interface Current {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  strength: number;
+}
+
+interface Shockwave {
+  x: number;
+  y: number;
+  age: number;
+}
+
+// これより弱くなった流れは消す
+const MIN_STRENGTH = 0.01;
+
+export class WaterCurrents implements FlowField {
+  readonly radius: number;
+  private readonly decay: number;
+  private readonly maxCurrents: number;
+  readonly maxFlowSpeed: number;
+  private readonly shockwaveSpeed: number;
+  readonly shockwaveThickness: number;
+  private readonly shockwaveLifetime: number;
+  private currents: Current[] = [];
+  private shockwaves: Shockwave[] = [];
+
+  constructor({
+    radius = 120,
+    decay = 0.95,
+    maxCurrents = 128,
+    maxFlowSpeed = 20,
+    shockwaveSpeed = 10,
+    shockwaveThickness = 40,
+    shockwaveLifetime = 45,
+  }: WaterCurrentsOptions = {}) {
+    this.radius = radius;
+    this.decay = decay;
+    this.maxCurrents = maxCurrents;
+    this.maxFlowSpeed = maxFlowSpeed;
+    this.shockwaveSpeed = shockwaveSpeed;
+    this.shockwaveThickness = shockwaveThickness;
+    this.shockwaveLifetime = shockwaveLifetime;
+  }
+
+  // 水が静まっていれば true（何も流す必要がない）
+  get isCalm(): boolean {
+    return this.currents.length === 0 && this.shockwaves.length === 0;
+  }
+
+  // ドラッグした位置に、ドラッグの向きと速さの流れを足す
+  addCurrent(position: THREE.Vector3, velocity: THREE.Vector3): void {
+    if (velocity.x === 0 && velocity.y === 0) return;
+    this.currents.push({
+      x: position.x,
+      y: position.y,
+      vx: velocity.x,
+      vy: velocity.y,
+      strength: 1,
+    });
+    if (this.currents.length > this.maxCurrents) {
+      this.currents.shift();
+    }
+  }
+
+  addShockwave(origin: THREE.Vector3): void {
+    this.shockwaves.push({ x: origin.x, y: origin.y, age: 0 });
+  }
+
+  // 固定タイムステップ1回分：流れを弱め、衝撃波を広げる
+  step(): void {
+    let writeIndex = 0;
+    for (let i = 0; i < this.currents.length; i++) {
+      const current = this.currents[i];
+      current.strength *= this.decay;
+      if (current.strength >= MIN_STRENGTH) {
+        this.currents[writeIndex++] = current;
+      }
+    }
+    this.currents.length = writeIndex;
+
+    this.shockwaves.forEach((wave) => wave.age++);
+    this.shockwaves = this.shockwaves.filter(
+      (wave) => wave.age < this.shockwaveLifetime,
+    );
+  }
+
+  // 位置での流れの速度（近い流れほど強く効くガウス分布の重ね合わせ）
+  sample(
+    position: THREE.Vector3,
+    target: THREE.Vector3 = new THREE.Vector3(),
+  ): THREE.Vector3 {
+    target.set(0, 0, 0);
+    const radiusSq = this.radius * this.radius;
+
+    for (let i = 0; i < this.currents.length; i++) {
+      const current = this.currents[i];
+      const dx = position.x - current.x;
+      const dy = position.y - current.y;
+      const distanceSq = dx * dx + dy * dy;
+      if (distanceSq > radiusSq * 4) continue;
+
+      const influence = current.strength * Math.exp(-distanceSq / radiusSq);
+      target.x += current.vx * influence;
+      target.y += current.vy * influence;
+    }
+
+    const speed = Math.sqrt(target.x * target.x + target.y * target.y);
+    if (speed > this.maxFlowSpeed) {
+      target.multiplyScalar(this.maxFlowSpeed / speed);
+    }
+    return target;
+  }
+
+  // 衝撃波の波面付近にいると外向きに押される（強さは 0〜1、時間とともに弱まる）
+  shockwaveAt(
+    position: THREE.Vector3,
+    target: THREE.Vector3 = new THREE.Vector3(),
+  ): THREE.Vector3 {
+    target.set(0, 0, 0);
+
+    for (let i = 0; i < this.shockwaves.length; i++) {
+      const wave = this.shockwaves[i];
+      const dx = position.x - wave.x;
+      const dy = position.y - wave.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance === 0) continue;
+
+      const front = (wave.age + 1) * this.shockwaveSpeed;
+      const offset = Math.abs(distance - front);
+      if (offset >= this.shockwaveThickness) continue;
+
+      const strength =
+        (1 - offset / this.shockwaveThickness) *
+        (1 - wave.age / this.shockwaveLifetime);
+      target.x += (dx / distance) * strength;
+      target.y += (dy / distance) * strength;
+    }
+
+    return target;
+  }
+
+  /**
+   * GPU で同じ計算をするために vec4 の並びに詰める（入りきらなければ新しいものを優先）。
+   * 流れは (x, y, vx, vy) に強さを掛けたもの、衝撃波は (x, y, 波面の半径, 強さ)。
+   */
+  packInto(
+    currents: Float32Array,
+    shockwaves: Float32Array,
+  ): { currentCount: number; shockwaveCount: number } {
+    const currentCount = Math.min(this.currents.length, currents.length / 4);
+    const firstCurrent = this.currents.length - currentCount;
+    for (let i = 0; i < currentCount; i++) {
+      const { x, y, vx, vy, strength } = this.currents[firstCurrent + i];
+      currents.set([x, y, vx * strength, vy * strength], i * 4);
+    }
+
+    const shockwaveCount = Math.min(
+      this.shockwaves.length,
+      shockwaves.length / 4,
+    );
+    const firstShockwave = this.shockwaves.length - shockwaveCount;
+    for (let i = 0; i < shockwaveCount; i++) {
+      const { x, y, age } = this.shockwaves[firstShockwave + i];
+      shockwaves.set(
+        [
+          x,
+          y,
+          (age + 1) * this.shockwaveSpeed,
+          1 - age / this.shockwaveLifetime,
+        ],
+        i * 4,
+      );
+    }
+
+    return { currentCount, shockwaveCount };
+  }
+
+  clear(): void {
+    this.currents = [];
+    this.shockwaves = [];
+  }
+}
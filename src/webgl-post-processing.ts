@@ -0,0 +1,158 @@
+import * as THREE from "three";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { RGBShiftShader } from "three/examples/jsm/shaders/RGBShiftShader.js";
+import {
+  POST_EFFECT_PARAMETERS,
+  type CausticsLook,
+  type PostEffectChain,
+  type PostEffectToggles,
+} from "./post-processing";
+
+/**
+ * WebGL 版の後処理。EffectComposer に
+ * シーン → ブルーム → 水中の光と周辺減光 → 色収差 → 色空間の変換 の順にパスを並べ、
+ * 切った効果のパスは飛ばす。
+ */
+
+// 揺らめく光の網目と斜めに差す光の筋を足し、画面の端を暗くする（WebGPU 版と同じ式）
+const UnderwaterShader = {
+  name: "UnderwaterShader",
+  uniforms: {
+    tDiffuse: { value: null },
+    time: { value: 0 },
+    aspect: { value: 1 },
+    scale: { value: 0 },
+    causticsIntensity: { value: 0 },
+    raysIntensity: { value: 0 },
+    causticsStrength: { value: 1 },
+    tint: { value: new THREE.Color() },
+    vignetteDarkness: { value: 0 },
+    vignetteOffset: { value: 0 },
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4( position, 1.0 );
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float time;
+    uniform float aspect;
+    uniform float scale;
+    uniform float causticsIntensity;
+    uniform float raysIntensity;
+    uniform float causticsStrength;
+    uniform vec3 tint;
+    uniform float vignetteDarkness;
+    uniform float vignetteOffset;
+    varying vec2 vUv;
+
+    // 2つの波の節が重なるところが細く光る
+    float causticLayer( vec2 p, float t ) {
+      float a = sin( p.x + sin( p.y * 0.8 + t ) * 1.5 + t * 0.7 );
+      float b = sin( p.y + sin( p.x * 0.6 - t * 0.8 ) * 1.5 - t * 0.5 );
+      return pow( 1.0 - abs( a * b ), 8.0 );
+    }
+
+    void main() {
+      vec4 color = texture2D( tDiffuse, vUv );
+      vec2 centered = ( vUv - 0.5 ) * vec2( aspect, 1.0 );
+
+      vec2 p = centered * scale;
+      float caustics = causticLayer( p, time ) * 0.6 + causticLayer( p * 1.7 + 3.1, time * 1.3 ) * 0.4;
+      float slant = centered.x + vUv.y * 0.35;
+      float rays = pow( max( 0.0, sin( slant * 9.0 + sin( slant * 3.7 + time * 0.3 ) * 1.5 + time * 0.2 ) ), 12.0 );
+      // 水面に近い上の方ほど明るい
+      float surface = smoothstep( 0.2, 1.0, vUv.y );
+      color.rgb += ( caustics * causticsIntensity + rays * raysIntensity ) * surface * causticsStrength * tint;
+
+      float fromCenter = length( centered ) / length( vec2( aspect, 1.0 ) * 0.5 );
+      color.rgb *= 1.0 - vignetteDarkness * smoothstep( vignetteOffset, 1.0, fromCenter );
+      gl_FragColor = color;
+    }
+  `,
+};
+
+export class ComposerPostEffectChain implements PostEffectChain {
+  private readonly composer: EffectComposer;
+  private readonly bloomPass: UnrealBloomPass;
+  private readonly underwaterPass: ShaderPass;
+  private readonly rgbShiftPass: ShaderPass;
+  private readonly outputPass = new OutputPass();
+
+  constructor(
+    private readonly renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+  ) {
+    const { bloom, caustics, chromaticAberration } = POST_EFFECT_PARAMETERS;
+    this.composer = new EffectComposer(renderer);
+    this.composer.addPass(new RenderPass(scene, camera));
+
+    this.bloomPass = new UnrealBloomPass(
+      renderer.getSize(new THREE.Vector2()),
+      bloom.strength,
+      bloom.radius,
+      bloom.threshold,
+    );
+    this.composer.addPass(this.bloomPass);
+
+    this.underwaterPass = new ShaderPass(UnderwaterShader);
+    this.underwaterPass.uniforms.scale.value = caustics.scale;
+    this.composer.addPass(this.underwaterPass);
+
+    this.rgbShiftPass = new ShaderPass(RGBShiftShader);
+    this.rgbShiftPass.uniforms.amount.value = chromaticAberration.amount;
+    this.rgbShiftPass.uniforms.angle.value = chromaticAberration.angle;
+    this.composer.addPass(this.rgbShiftPass);
+
+    this.composer.addPass(this.outputPass);
+  }
+
+  setEffects(effects: PostEffectToggles): void {
+    const { caustics, vignette } = POST_EFFECT_PARAMETERS;
+    const { uniforms } = this.underwaterPass;
+    this.bloomPass.enabled = effects.bloom;
+    // 水中の光と周辺減光は1つのパスにまとめ、切った方は強さを 0 にする
+    this.underwaterPass.enabled = effects.caustics || effects.vignette;
+    uniforms.causticsIntensity.value = effects.caustics
+      ? caustics.causticsIntensity
+      : 0;
+    uniforms.raysIntensity.value = effects.caustics
+      ? caustics.raysIntensity
+      : 0;
+    uniforms.vignetteDarkness.value = effects.vignette ? vignette.darkness : 0;
+    uniforms.vignetteOffset.value = vignette.offset;
+    this.rgbShiftPass.enabled = effects.chromaticAberration;
+  }
+
+  setCaustics({ tint, strength }: CausticsLook): void {
+    this.underwaterPass.uniforms.tint.value.copy(tint);
+    this.underwaterPass.uniforms.causticsStrength.value = strength;
+  }
+
+  setSize(width: number, height: number): void {
+    this.composer.setPixelRatio(this.renderer.getPixelRatio());
+    this.composer.setSize(width, height);
+    this.underwaterPass.uniforms.aspect.value = width / Math.max(1, height);
+  }
+
+  render(seconds: number): void {
+    this.underwaterPass.uniforms.time.value = seconds;
+    this.composer.render();
+  }
+
+  dispose(): void {
+    this.bloomPass.dispose();
+    this.underwaterPass.dispose();
+    this.rgbShiftPass.dispose();
+    this.outputPass.dispose();
+    this.composer.dispose();
+  }
+}
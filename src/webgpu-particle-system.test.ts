@@ -0,0 +1,284 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { WebGPUParticleSystem } from "./webgpu-particle-system";
+import { GOLD_TRAIL, SPARKLE_BURST } from "./particle-emitter";
+import { random } from "./random";
+import { WaterCurrents } from "./water-currents";
+
+const createSystem = () => {
+  const scene = new THREE.Scene();
+  const system = new WebGPUParticleSystem(null);
+  system.initialize(scene);
+  const mesh = scene.children[0] as THREE.InstancedMesh;
+  return { system, mesh, scene };
+};
+
+const spawn = (system: WebGPUParticleSystem, color: THREE.Color) =>
+  system.spawnParticle(new THREE.Vector3(), new THREE.Vector3(), color);
+
+beforeEach(() => {
+  random.reseed(1);
+});
+
+describe("WebGPUParticleSystem", () => {
+  test("particles live for about 40 steps", () => {
+    const { system } = createSystem();
+    spawn(system, new THREE.Color(1, 1, 1));
+
+    for (let i = 0; i < 39; i++) system.update();
+    expect(system.getActiveParticleCount()).toBe(1);
+
+    for (let i = 0; i < 2; i++) system.update();
+    expect(system.getActiveParticleCount()).toBe(0);
+  });
+
+  test("compacts surviving particles to the front", () => {
+    const { system, mesh } = createSystem();
+    spawn(system, new THREE.Color(1, 0, 0));
+    for (let i = 0; i < 20; i++) system.update();
+    spawn(system, new THREE.Color(0, 1, 0));
+    for (let i = 0; i < 21; i++) system.update();
+
+    expect(system.getActiveParticleCount()).toBe(1);
+
+    system.render(1);
+    const color = new THREE.Color();
+    mesh.getColorAt(0, color);
+    expect(color.toArray()).toEqual([0, 1, 0]);
+  });
+
+  test("hides instances of particles that died", () => {
+    const { system, mesh } = createSystem();
+    spawn(system, new THREE.Color(1, 1, 1));
+    system.render(1);
+    expect(mesh.count).toBe(1);
+    for (let i = 0; i < 41; i++) system.update();
+    system.render(1);
+
+    expect(mesh.count).toBe(0);
+  });
+
+  test("applies gravity and damping while integrating", () => {
+    const { system, mesh } = createSystem();
+    system.spawnParticle(
+      new THREE.Vector3(),
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Color(),
+    );
+    system.update();
+    system.update();
+    system.render(1);
+
+    const matrix = new THREE.Matrix4();
+    mesh.getMatrixAt(0, matrix);
+    const position = new THREE.Vector3().setFromMatrixPosition(matrix);
+    expect(position.x).toBeCloseTo(1 + 0.98);
+    expect(position.y).toBeCloseTo(-0.04);
+  });
+
+  test("is carried along by water currents", () => {
+    const { system, mesh } = createSystem();
+    const currents = new WaterCurrents();
+    currents.addCurrent(new THREE.Vector3(), new THREE.Vector3(10, 0, 0));
+    spawn(system, new THREE.Color());
+    system.update(currents);
+    system.update(currents);
+    system.render(1);
+
+    const matrix = new THREE.Matrix4();
+    mesh.getMatrixAt(0, matrix);
+    const position = new THREE.Vector3().setFromMatrixPosition(matrix);
+    expect(position.x).toBeGreaterThan(0.5);
+  });
+
+  test("grows the pool up to maxParticles and then drops new ones", () => {
+    const { system, scene } = createSystem();
+    const emitter = {
+      ...GOLD_TRAIL,
+      maxParticles: 500,
+      overflow: "drop-new" as const,
+    };
+    for (let i = 0; i < 600; i++) {
+      system.spawnParticle(
+        new THREE.Vector3(),
+        new THREE.Vector3(),
+        new THREE.Color(),
+        emitter,
+      );
+    }
+    system.render(1);
+
+    expect(system.getActiveParticleCount()).toBe(500);
+    expect(system.getOverflowCounts()).toEqual({ dropped: 100, recycled: 0 });
+    // 広げた後のメッシュが古いものと入れ替わっている
+    expect(scene.children).toHaveLength(2);
+    expect((scene.children[1] as THREE.InstancedMesh).count).toBe(500);
+  });
+
+  test("disposes the old mesh and sprite buffer when growing", () => {
+    const { system, mesh } = createSystem();
+    const oldSprite = mesh.geometry.getAttribute("instanceSprite");
+    const disposed: string[] = [];
+    mesh.addEventListener("dispose", () => disposed.push("mesh"));
+    mesh.geometry.addEventListener("dispose", () => disposed.push("geometry"));
+
+    for (let i = 0; i < 65; i++) spawn(system, new THREE.Color());
+
+    expect(disposed).toEqual(["mesh", "geometry"]);
+    expect(mesh.parent).toBeNull();
+    expect(mesh.geometry.getAttribute("instanceSprite")).not.toBe(oldSprite);
+  });
+
+  test("replaces the oldest particles when recycling", () => {
+    const { system, scene } = createSystem();
+    const emitter = {
+      ...GOLD_TRAIL,
+      maxParticles: 4,
+      overflow: "recycle-oldest" as const,
+    };
+    for (let i = 0; i < 6; i++) {
+      system.spawnParticle(
+        new THREE.Vector3(i, 0, 0),
+        new THREE.Vector3(),
+        new THREE.Color(),
+        emitter,
+      );
+    }
+    system.update();
+    system.render(1);
+
+    expect(system.getActiveParticleCount()).toBe(4);
+    expect(system.getOverflowCounts()).toEqual({ dropped: 0, recycled: 2 });
+
+    // 古い順に並び、最初の2つが置き換えられている
+    const mesh = scene.children[1] as THREE.InstancedMesh;
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const xs = [0, 1, 2, 3].map((i) => {
+      mesh.getMatrixAt(i, matrix);
+      return position.setFromMatrixPosition(matrix).x;
+    });
+    expect(xs).toEqual([2, 3, 4, 5]);
+  });
+
+  test("spawns a trail only behind fish that move fast enough", () => {
+    const { system } = createSystem();
+    const color = new THREE.Color();
+
+    system.spawnParticlesFromFish(
+      new THREE.Vector3(),
+      new THREE.Vector3(0.5, 0, 0),
+      color,
+    );
+    expect(system.getActiveParticleCount()).toBe(0);
+
+    system.spawnParticlesFromFish(
+      new THREE.Vector3(),
+      new THREE.Vector3(3, 0, 0),
+      color,
+    );
+    expect(system.getActiveParticleCount()).toBeGreaterThanOrEqual(2);
+    expect(system.getActiveParticleCount()).toBeLessThanOrEqual(5);
+  });
+
+  test("can color the trail like the fish", () => {
+    const { system, scene } = createSystem();
+    system.spawnParticlesFromFish(
+      new THREE.Vector3(),
+      new THREE.Vector3(3, 0, 0),
+      new THREE.Color(0, 0.4, 0),
+      { ...GOLD_TRAIL, matchSourceColor: true, lightnessJitter: 0.2 },
+    );
+    system.render(1);
+
+    // 設定が違うので軌跡の既定の層とは別の層に入る
+    const mesh = scene.children[1] as THREE.InstancedMesh;
+    const color = new THREE.Color();
+    mesh.getColorAt(0, color);
+    expect(color.r).toBeCloseTo(0);
+    expect(color.b).toBeCloseTo(0);
+    expect(color.g).toBeGreaterThan(0);
+  });
+
+  test("takes colors from a replaced palette in the same layer", () => {
+    const { system, mesh } = createSystem();
+    const teal = new THREE.Color(0, 0.5, 0.5);
+    system.setPalette(GOLD_TRAIL, [teal]);
+    system.spawnParticlesFromFish(
+      new THREE.Vector3(),
+      new THREE.Vector3(3, 0, 0),
+      new THREE.Color(),
+    );
+    system.render(1);
+
+    const color = new THREE.Color();
+    mesh.getColorAt(0, color);
+    expect(color.equals(teal)).toBe(true);
+
+    system.setPalette(GOLD_TRAIL, null);
+    system.update();
+    system.spawnParticlesFromFish(
+      new THREE.Vector3(),
+      new THREE.Vector3(3, 0, 0),
+      new THREE.Color(),
+    );
+    system.render(1);
+    mesh.getColorAt(mesh.count - 1, color);
+    // 色は Float32Array に入るので誤差を見込んで比べる
+    const closest = Math.min(
+      ...GOLD_TRAIL.palette.map(
+        (gold) =>
+          Math.abs(gold.r - color.r) +
+          Math.abs(gold.g - color.g) +
+          Math.abs(gold.b - color.b),
+      ),
+    );
+    expect(closest).toBeLessThan(1e-6);
+  });
+
+  test("keeps each emitter in its own layer", () => {
+    const scene = new THREE.Scene();
+    const system = new WebGPUParticleSystem(null);
+    system.initialize(scene);
+    system.emit(SPARKLE_BURST, { position: new THREE.Vector3() });
+
+    expect(scene.children).toHaveLength(2);
+    const sparkles = scene.children[1] as THREE.InstancedMesh;
+    expect((sparkles.material as THREE.Material).blending).toBe(
+      THREE.AdditiveBlending,
+    );
+    expect(system.getActiveParticleCount()).toBeGreaterThanOrEqual(24);
+    expect(system.getActiveParticleCount()).toBeLessThanOrEqual(32);
+  });
+
+  test("draws sprites facing the camera with a per-particle fade", () => {
+    const { system, scene } = createSystem();
+    system.emit(SPARKLE_BURST, { position: new THREE.Vector3() });
+    for (let i = 0; i < 10; i++) system.update();
+    system.render(1);
+
+    const sparkles = scene.children[1] as THREE.InstancedMesh;
+    expect(sparkles.geometry).toBeInstanceOf(THREE.PlaneGeometry);
+    expect((sparkles.material as THREE.MeshBasicMaterial).map).toBeInstanceOf(
+      THREE.DataTexture,
+    );
+
+    const sprites = sparkles.geometry.getAttribute("instanceSprite");
+    for (let i = 0; i < sparkles.count; i++) {
+      expect(sprites.getY(i)).toBeGreaterThan(0);
+      expect(sprites.getY(i)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test("stops spawning at the overall particle limit", () => {
+    const { system } = createSystem();
+    system.setParticleLimit(20);
+    for (let i = 0; i < 10; i++) {
+      system.emit(SPARKLE_BURST, { position: new THREE.Vector3() });
+    }
+    spawn(system, new THREE.Color());
+
+    expect(system.getActiveParticleCount()).toBe(20);
+    expect(system.getOverflowCounts().dropped).toBeGreaterThan(0);
+  });
+});
@@ -1,272 +1,558 @@
 import * as THREE from "three";
-import { Particle } from "./types";
+import {
+  bakeLifeCurve,
+  createParticleSpawn,
+  EmissionSource,
+  emissionCount,
+  EmitterConfig,
+  GOLD_TRAIL,
+  ParticleSpawn,
+  randomLifetime,
+  sampleLifeCurve,
+  sampleLifeOpacity,
+  sampleParticle,
+  sampleSpriteMotion,
+} from "./particle-emitter";
+import {
+  blendingParameters,
+  createSpriteTexture,
+  patchSpriteMaterial,
+  SPRITE_QUAD_SIZE,
+  spriteRotation,
+  spriteTwinkle,
+} from "./particle-sprite";
+import { random } from "./random";
+import type { FlowField } from "./water-currents";
+import { supportsCompute } from "./gpu-compute";
+import type { SceneRenderer } from "./renderer-setup";
+import { GPUParticleStore, ParticleSourceBuffers } from "./gpu-particles";
 
 interface ParticleData {
   position: Float32Array;
+  previousPosition: Float32Array;
   velocity: Float32Array;
-  life: Float32Array;
-  maxLife: Float32Array;
+  age: Float32Array; // 経過ステップ数
+  lifetime: Float32Array;
   size: Float32Array;
   color: Float32Array;
+  phase: Float32Array;
+  spin: Float32Array;
 }
 
-export class WebGPUParticleSystem {
-  private renderer: any;
-  private instancedMesh: THREE.InstancedMesh | null = null;
-  private particleData: ParticleData;
-  private maxParticles: number = 500;
-  private activeParticles: number = 0;
-  private geometry: THREE.SphereGeometry;
-  private material: THREE.MeshBasicMaterial;
-
-  constructor(renderer: any) {
-    this.renderer = renderer;
+// エミッター1つ分のパーティクル（CPU 版と GPU 版で同じ操作）
+interface ParticleLayer {
+  readonly activeCount: number;
+  readonly droppedCount: number; // 上限に達して捨てた数
+  readonly recycledCount: number; // 上限に達して古いものを置き換えた数
+  readonly object: THREE.Object3D;
+  spawn(particle: ParticleSpawn): void;
+  update(flow?: FlowField): void;
+  render(alpha: number): void;
+  dispose(): void;
+}
 
-    // パーティクルデータの初期化
-    this.particleData = {
-      position: new Float32Array(this.maxParticles * 3),
-      velocity: new Float32Array(this.maxParticles * 3),
-      life: new Float32Array(this.maxParticles),
-      maxLife: new Float32Array(this.maxParticles),
-      size: new Float32Array(this.maxParticles),
-      color: new Float32Array(this.maxParticles * 3),
-    };
-
-    // ジオメトリとマテリアルを作成
-    this.geometry = new THREE.SphereGeometry(1, 6, 4);
+export const CPU_MAX_PARTICLES = 8192;
+const MIN_CAPACITY = 64;
+
+const samplePosition = new THREE.Vector3();
+const sampledFlow = new THREE.Vector3();
+const curveColor = new THREE.Color();
+
+const createParticleData = (capacity: number): ParticleData => ({
+  position: new Float32Array(capacity * 3),
+  previousPosition: new Float32Array(capacity * 3),
+  velocity: new Float32Array(capacity * 3),
+  age: new Float32Array(capacity),
+  lifetime: new Float32Array(capacity),
+  size: new Float32Array(capacity),
+  color: new Float32Array(capacity * 3),
+  phase: new Float32Array(capacity),
+  spin: new Float32Array(capacity),
+});
+
+/**
+ * CPU で動かすエミッター1つ分のパーティクル（WebGL 用）。
+ * 生まれた順に並ぶリングに持ち、死んだものを詰めながら更新する。
+ * 足りなくなったら上限まで倍々に広げ、描画は InstancedMesh.count で生きている分だけにする。
+ * 毎ステップ・毎フレームの処理ではオブジェクトを作らない。
+ * sprite があればカメラに向けた板に、無ければ小さな球に描く。
+ */
+class CPUParticleLayer implements ParticleLayer {
+  private readonly config: EmitterConfig;
+  private readonly lifeCurve: Float32Array;
+  private readonly maxParticles: number;
+  private readonly geometry: THREE.BufferGeometry;
+  private readonly material: THREE.MeshBasicMaterial;
+  private instancedMesh: THREE.InstancedMesh;
+  private spriteAttribute!: THREE.InstancedBufferAttribute; // 回転と不透明度
+  private particleData: ParticleData;
+  private capacity = 0;
+  private head = 0; // いちばん古いパーティクルの位置
+  private activeParticles = 0;
+  private dropped = 0;
+  private recycled = 0;
+
+  constructor(config: EmitterConfig) {
+    this.config = config;
+    this.lifeCurve = bakeLifeCurve(config);
+    this.maxParticles = Math.max(1, config.maxParticles ?? CPU_MAX_PARTICLES);
+    this.geometry = config.sprite
+      ? new THREE.PlaneGeometry(SPRITE_QUAD_SIZE, SPRITE_QUAD_SIZE)
+      : new THREE.SphereGeometry(1, 6, 4);
     this.material = new THREE.MeshBasicMaterial({
       transparent: true,
-      opacity: 0.9,
+      opacity: config.opacity,
       color: 0xffffff,
+      map: config.sprite ? createSpriteTexture(config.sprite) : null,
+      ...blendingParameters(config),
     });
-  }
+    patchSpriteMaterial(this.material, config.sprite !== undefined);
 
-  initialize(scene: THREE.Scene): void {
-    // インスタンシングメッシュを作成
-    this.instancedMesh = new THREE.InstancedMesh(
-      this.geometry,
-      this.material,
-      this.maxParticles,
-    );
+    const capacity = Math.min(MIN_CAPACITY, this.maxParticles);
+    this.particleData = createParticleData(capacity);
+    this.instancedMesh = this.createMesh(capacity);
+    this.capacity = capacity;
+  }
 
-    // 色の設定を有効にする
-    this.instancedMesh.instanceColor = new THREE.InstancedBufferAttribute(
-      new Float32Array(this.maxParticles * 3),
-      3,
-    );
+  get activeCount(): number {
+    return this.activeParticles;
+  }
 
-    // 初期状態では全て非表示
-    for (let i = 0; i < this.maxParticles; i++) {
-      const matrix = new THREE.Matrix4();
-      matrix.makeScale(0, 0, 0); // サイズ0で非表示
-      this.instancedMesh.setMatrixAt(i, matrix);
+  get droppedCount(): number {
+    return this.dropped;
+  }
 
-      // 初期色も設定
-      this.instancedMesh.setColorAt(i, new THREE.Color(1, 1, 1));
-    }
+  get recycledCount(): number {
+    return this.recycled;
+  }
 
-    this.instancedMesh.instanceMatrix.needsUpdate = true;
-    if (this.instancedMesh.instanceColor) {
-      this.instancedMesh.instanceColor.needsUpdate = true;
-    }
-    scene.add(this.instancedMesh);
+  get object(): THREE.Object3D {
+    return this.instancedMesh;
   }
 
-  spawnParticle(
-    position: THREE.Vector3,
-    velocity: THREE.Vector3,
-    color: THREE.Color,
-  ): void {
-    if (this.activeParticles >= this.maxParticles) return;
+  spawn({
+    position,
+    velocity,
+    color,
+    size,
+    lifetime,
+    phase,
+    spin,
+  }: ParticleSpawn): void {
+    if (this.activeParticles >= this.capacity) {
+      if (this.capacity < this.maxParticles) {
+        this.grow(Math.min(this.capacity * 2, this.maxParticles));
+      } else if (this.config.overflow === "recycle-oldest") {
+        this.head = this.slot(1);
+        this.activeParticles--;
+        this.recycled++;
+      } else {
+        this.dropped++;
+        return;
+      }
+    }
 
-    const index = this.activeParticles;
+    const index = this.slot(this.activeParticles);
 
     // 位置
-    this.particleData.position[index * 3] = position.x;
-    this.particleData.position[index * 3 + 1] = position.y;
-    this.particleData.position[index * 3 + 2] = position.z;
+    position.toArray(this.particleData.position, index * 3);
+    position.toArray(this.particleData.previousPosition, index * 3);
 
     // 速度
-    this.particleData.velocity[index * 3] = velocity.x;
-    this.particleData.velocity[index * 3 + 1] = velocity.y;
-    this.particleData.velocity[index * 3 + 2] = velocity.z;
+    velocity.toArray(this.particleData.velocity, index * 3);
 
-    // ライフ
-    this.particleData.life[index] = 1.0;
-    this.particleData.maxLife[index] = 1.0;
-
-    // サイズ
-    this.particleData.size[index] = Math.random() * 1.2 + 0.8;
+    // 寿命と大きさ
+    this.particleData.age[index] = 0;
+    this.particleData.lifetime[index] = lifetime;
+    this.particleData.size[index] = size;
 
     // 色
-    this.particleData.color[index * 3] = color.r;
-    this.particleData.color[index * 3 + 1] = color.g;
-    this.particleData.color[index * 3 + 2] = color.b;
+    color.toArray(this.particleData.color, index * 3);
+
+    // 板の向きと回転
+    this.particleData.phase[index] = phase;
+    this.particleData.spin[index] = spin;
 
     this.activeParticles++;
   }
 
-  spawnParticlesFromFish(
-    fishPosition: THREE.Vector3,
-    fishVelocity: THREE.Vector3,
-    fishColor: THREE.Color,
-  ): void {
-    if (fishVelocity.length() < 0.8) return;
-
-    const particleCount = Math.floor(Math.random() * 4) + 2;
-
-    for (let i = 0; i < particleCount; i++) {
-      // 魚の後ろの位置を計算
-      const backwardDirection = fishVelocity
-        .clone()
-        .normalize()
-        .multiplyScalar(-15);
-      const particlePosition = fishPosition.clone().add(backwardDirection);
-
-      // ランダムな散らばりを追加
-      particlePosition.add(
-        new THREE.Vector3(
-          (Math.random() - 0.5) * 10,
-          (Math.random() - 0.5) * 10,
-          (Math.random() - 0.5) * 5,
-        ),
-      );
+  // 固定タイムステップ1回分の更新（描画は render で行う）
+  update(flow?: FlowField): void {
+    const { gravity, drag, flowCarry } = this.config;
+    const { position, previousPosition, velocity, age, lifetime } =
+      this.particleData;
+    let writeCount = 0;
+
+    // アクティブなパーティクルを古い順に更新
+    for (let n = 0; n < this.activeParticles; n++) {
+      const i = this.slot(n);
+      age[i]++;
+      if (age[i] >= lifetime[i]) continue;
+
+      // 補間用に前ステップの位置を保存
+      previousPosition[i * 3] = position[i * 3];
+      previousPosition[i * 3 + 1] = position[i * 3 + 1];
+      previousPosition[i * 3 + 2] = position[i * 3 + 2];
+
+      // 生きているパーティクル - 位置を更新
+      position[i * 3] += velocity[i * 3];
+      position[i * 3 + 1] += velocity[i * 3 + 1];
+      position[i * 3 + 2] += velocity[i * 3 + 2];
+
+      // 速度に減衰を適用
+      velocity[i * 3] *= 1 - drag;
+      velocity[i * 3 + 1] *= 1 - drag;
+      velocity[i * 3 + 2] *= 1 - drag;
+
+      // 重力
+      velocity[i * 3 + 1] -= gravity;
+
+      // 水流に流される
+      if (flow) {
+        samplePosition.fromArray(position, i * 3);
+        flow.sample(samplePosition, sampledFlow);
+        velocity[i * 3] += sampledFlow.x * flowCarry;
+        velocity[i * 3 + 1] += sampledFlow.y * flowCarry;
+      }
 
-      // パーティクルの初期速度
-      const particleVelocity = new THREE.Vector3(
-        fishVelocity.x * -0.2 + (Math.random() - 0.5) * 0.3,
-        fishVelocity.y * -0.2 + (Math.random() - 0.5) * 0.3,
-        fishVelocity.z * -0.2 + (Math.random() - 0.5) * 0.1,
-      );
+      // データを前に詰める（生きているパーティクル）
+      if (writeCount !== n) {
+        this.copyParticleData(i, this.slot(writeCount));
+      }
 
-      // カラフルな金砂の色
-      const goldColors = [
-        new THREE.Color(1.0, 0.8, 0.2), // ゴールド
-        new THREE.Color(1.0, 0.6, 0.1), // オレンジゴールド
-        new THREE.Color(0.9, 0.7, 0.3), // 薄いゴールド
-        new THREE.Color(1.0, 0.9, 0.4), // 明るいゴールド
-        new THREE.Color(0.8, 0.5, 0.2), // 銅色
-        new THREE.Color(1.0, 0.7, 0.5), // ピーチゴールド
-      ];
-      const particleColor =
-        goldColors[Math.floor(Math.random() * goldColors.length)];
-
-      this.spawnParticle(particlePosition, particleVelocity, particleColor);
+      writeCount++;
     }
+
+    this.activeParticles = writeCount;
   }
 
-  update(): void {
-    if (!this.instancedMesh) return;
-
-    let writeIndex = 0;
-
-    // アクティブなパーティクルを更新
-    for (let i = 0; i < this.activeParticles; i++) {
-      // ライフを減らす
-      this.particleData.life[i] -= 0.025;
-
-      if (this.particleData.life[i] > 0) {
-        // 生きているパーティクル - 位置を更新
-        this.particleData.position[i * 3] += this.particleData.velocity[i * 3];
-        this.particleData.position[i * 3 + 1] +=
-          this.particleData.velocity[i * 3 + 1];
-        this.particleData.position[i * 3 + 2] +=
-          this.particleData.velocity[i * 3 + 2];
-
-        // 速度に減衰を適用
-        this.particleData.velocity[i * 3] *= 0.98;
-        this.particleData.velocity[i * 3 + 1] *= 0.98;
-        this.particleData.velocity[i * 3 + 2] *= 0.98;
-
-        // 重力（金砂が落ちる感じ）
-        this.particleData.velocity[i * 3 + 1] -= 0.04;
-
-        // データを前に詰める（生きているパーティクル）
-        if (writeIndex !== i) {
-          this.copyParticleData(i, writeIndex);
-        }
-
-        // マトリックスを更新
-        const lifeRatio =
-          this.particleData.life[writeIndex] /
-          this.particleData.maxLife[writeIndex];
-        const scale = this.particleData.size[writeIndex] * lifeRatio;
-
-        const matrix = new THREE.Matrix4();
-        matrix.makeTranslation(
-          this.particleData.position[writeIndex * 3],
-          this.particleData.position[writeIndex * 3 + 1],
-          this.particleData.position[writeIndex * 3 + 2],
-        );
-        matrix.scale(new THREE.Vector3(scale, scale, scale));
-
-        this.instancedMesh.setMatrixAt(writeIndex, matrix);
-        this.instancedMesh.setColorAt(
-          writeIndex,
-          new THREE.Color(
-            this.particleData.color[writeIndex * 3],
-            this.particleData.color[writeIndex * 3 + 1],
-            this.particleData.color[writeIndex * 3 + 2],
-          ),
-        );
-
-        writeIndex++;
-      }
+  // 前ステップと現ステップの間を alpha で補間してインスタンスの配列に直接書き込む
+  render(alpha: number): void {
+    const {
+      position,
+      previousPosition,
+      age,
+      lifetime,
+      size,
+      color,
+      phase,
+      spin,
+    } = this.particleData;
+    const { sprite } = this.config;
+    const mesh = this.instancedMesh;
+    const matrices = mesh.instanceMatrix.array as Float32Array;
+    const colors = mesh.instanceColor!.array as Float32Array;
+    const sprites = this.spriteAttribute.array as Float32Array;
+
+    for (let n = 0; n < this.activeParticles; n++) {
+      const i = this.slot(n);
+
+      // 寿命に応じた色・大きさ・不透明度
+      const t = age[i] / lifetime[i];
+      const scale = size[i] * sampleLifeCurve(this.lifeCurve, t, curveColor);
+      sprites[n * 2] = spriteRotation(phase[i], spin[i], age[i]);
+      sprites[n * 2 + 1] =
+        sampleLifeOpacity(this.lifeCurve, t) *
+        spriteTwinkle(sprite, phase[i], age[i]);
+
+      // 拡大と平行移動だけの行列（回転の成分は常に 0）
+      const m = n * 16;
+      matrices[m] = scale;
+      matrices[m + 5] = scale;
+      matrices[m + 10] = scale;
+      matrices[m + 12] =
+        previousPosition[i * 3] +
+        (position[i * 3] - previousPosition[i * 3]) * alpha;
+      matrices[m + 13] =
+        previousPosition[i * 3 + 1] +
+        (position[i * 3 + 1] - previousPosition[i * 3 + 1]) * alpha;
+      matrices[m + 14] =
+        previousPosition[i * 3 + 2] +
+        (position[i * 3 + 2] - previousPosition[i * 3 + 2]) * alpha;
+
+      colors[n * 3] = color[i * 3] * curveColor.r;
+      colors[n * 3 + 1] = color[i * 3 + 1] * curveColor.g;
+      colors[n * 3 + 2] = color[i * 3 + 2] * curveColor.b;
     }
 
-    // 残りのインスタンスを非表示に
-    for (let i = writeIndex; i < this.activeParticles; i++) {
-      const matrix = new THREE.Matrix4();
-      matrix.makeScale(0, 0, 0);
-      this.instancedMesh.setMatrixAt(i, matrix);
-    }
+    // 生きている分だけを描き、送る
+    mesh.count = this.activeParticles;
+    mesh.instanceMatrix.clearUpdateRanges();
+    mesh.instanceMatrix.addUpdateRange(0, this.activeParticles * 16);
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.instanceColor!.clearUpdateRanges();
+    mesh.instanceColor!.addUpdateRange(0, this.activeParticles * 3);
+    mesh.instanceColor!.needsUpdate = true;
+    this.spriteAttribute.clearUpdateRanges();
+    this.spriteAttribute.addUpdateRange(0, this.activeParticles * 2);
+    this.spriteAttribute.needsUpdate = true;
+  }
 
-    this.activeParticles = writeIndex;
-    this.instancedMesh.instanceMatrix.needsUpdate = true;
+  dispose(): void {
+    this.instancedMesh.removeFromParent();
+    this.instancedMesh.dispose();
+    this.geometry.dispose();
+    this.material.map?.dispose();
+    this.material.dispose();
+  }
 
-    if (this.instancedMesh.instanceColor) {
-      this.instancedMesh.instanceColor.needsUpdate = true;
+  // 古い方から n 番目のパーティクルが入っている位置
+  private slot(n: number): number {
+    const index = this.head + n;
+    return index >= this.capacity ? index - this.capacity : index;
+  }
+
+  // 配列とインスタンスメッシュを作り直し、古い順に先頭から並べ直す
+  private grow(capacity: number): void {
+    const previous = this.particleData;
+    const next = createParticleData(capacity);
+    for (let n = 0; n < this.activeParticles; n++) {
+      const from = this.slot(n);
+      next.position.set(
+        previous.position.subarray(from * 3, from * 3 + 3),
+        n * 3,
+      );
+      next.previousPosition.set(
+        previous.previousPosition.subarray(from * 3, from * 3 + 3),
+        n * 3,
+      );
+      next.velocity.set(
+        previous.velocity.subarray(from * 3, from * 3 + 3),
+        n * 3,
+      );
+      next.age[n] = previous.age[from];
+      next.lifetime[n] = previous.lifetime[from];
+      next.size[n] = previous.size[from];
+      next.color.set(previous.color.subarray(from * 3, from * 3 + 3), n * 3);
+      next.phase[n] = previous.phase[from];
+      next.spin[n] = previous.spin[from];
     }
+    this.particleData = next;
+    this.head = 0;
+    this.capacity = capacity;
+
+    // 差し替える前に古いメッシュと、形状に付けた回転と不透明度の属性の GPU バッファを解放する
+    // （形状を dispose しても板の頂点は次に描くときに送り直される）
+    const oldMesh = this.instancedMesh;
+    const parent = oldMesh.parent;
+    oldMesh.removeFromParent();
+    oldMesh.dispose();
+    this.geometry.dispose();
+    this.instancedMesh = this.createMesh(capacity);
+    parent?.add(this.instancedMesh);
+  }
+
+  private createMesh(capacity: number): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(
+      this.geometry,
+      this.material,
+      capacity,
+    );
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(
+      new Float32Array(capacity * 3),
+      3,
+    );
+    mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    // 回転と不透明度（形状は広げる前後のメッシュで共有するので属性ごと差し替える）
+    this.spriteAttribute = new THREE.InstancedBufferAttribute(
+      new Float32Array(capacity * 2),
+      2,
+    );
+    this.spriteAttribute.setUsage(THREE.DynamicDrawUsage);
+    this.geometry.setAttribute("instanceSprite", this.spriteAttribute);
+    mesh.count = 0;
+    // インスタンスが毎フレーム動くので境界球によるカリングはしない
+    mesh.frustumCulled = false;
+    return mesh;
   }
 
   private copyParticleData(from: number, to: number): void {
-    // 位置
-    this.particleData.position[to * 3] = this.particleData.position[from * 3];
-    this.particleData.position[to * 3 + 1] =
-      this.particleData.position[from * 3 + 1];
-    this.particleData.position[to * 3 + 2] =
-      this.particleData.position[from * 3 + 2];
+    const {
+      position,
+      previousPosition,
+      velocity,
+      age,
+      lifetime,
+      size,
+      color,
+      phase,
+      spin,
+    } = this.particleData;
+    position.copyWithin(to * 3, from * 3, from * 3 + 3);
+    previousPosition.copyWithin(to * 3, from * 3, from * 3 + 3);
+    velocity.copyWithin(to * 3, from * 3, from * 3 + 3);
+    age[to] = age[from];
+    lifetime[to] = lifetime[from];
+    size[to] = size[from];
+    color.copyWithin(to * 3, from * 3, from * 3 + 3);
+    phase[to] = phase[from];
+    spin[to] = spin[from];
+  }
+}
 
-    // 速度
-    this.particleData.velocity[to * 3] = this.particleData.velocity[from * 3];
-    this.particleData.velocity[to * 3 + 1] =
-      this.particleData.velocity[from * 3 + 1];
-    this.particleData.velocity[to * 3 + 2] =
-      this.particleData.velocity[from * 3 + 2];
+const spawnScratch = createParticleSpawn();
+const sourceOrigin = new THREE.Vector3();
+
+/**
+ * 魚の軌跡・きらめきなどのパーティクル。
+ * エミッターの設定（EmitterConfig）ごとに1つの層を持ち、最初に使われたときに作る。
+ * WebGPU バックエンドでは各層を GPU で動かし、それ以外（WebGL）は CPU で動かす。
+ */
+export class WebGPUParticleSystem {
+  private readonly renderer: SceneRenderer | null;
+  private scene: THREE.Scene | null = null;
+  private layers = new Map<EmitterConfig, ParticleLayer>();
+  private palettes = new Map<EmitterConfig, THREE.Color[]>(); // テーマで差し替えた色
+  private particleLimit = Infinity; // 全層を合わせた上限（品質で変わる）
+  private limited = 0; // 上限のために出さなかった数
+
+  // renderer が null なら常に CPU で動かす
+  constructor(renderer: SceneRenderer | null) {
+    this.renderer = renderer;
+  }
 
-    // その他
-    this.particleData.life[to] = this.particleData.life[from];
-    this.particleData.maxLife[to] = this.particleData.maxLife[from];
-    this.particleData.size[to] = this.particleData.size[from];
+  // よく使う軌跡の層は最初から用意しておく
+  initialize(scene: THREE.Scene): void {
+    this.scene = scene;
+    this.layerFor(GOLD_TRAIL);
+  }
 
-    // 色
-    this.particleData.color[to * 3] = this.particleData.color[from * 3];
-    this.particleData.color[to * 3 + 1] = this.particleData.color[from * 3 + 1];
-    this.particleData.color[to * 3 + 2] = this.particleData.color[from * 3 + 2];
+  // エミッターの設定に従って1回分（burst ならまとめて、rate なら1ステップ分）出す
+  emit(emitter: EmitterConfig, source: EmissionSource): void {
+    if ((source.velocity?.length() ?? 0) < emitter.minSourceSpeed) return;
+
+    const count = this.withinLimit(emissionCount(emitter.emission));
+    const layer = this.layerFor(emitter);
+    const palette = this.palettes.get(emitter);
+    for (let i = 0; i < count; i++) {
+      layer.spawn(sampleParticle(emitter, source, spawnScratch, palette));
+    }
+  }
+
+  // エミッターの色を差し替える（null で元に戻す、すでにいる粒はそのまま）
+  setPalette(emitter: EmitterConfig, palette: THREE.Color[] | null): void {
+    if (palette) this.palettes.set(emitter, palette);
+    else this.palettes.delete(emitter);
+  }
+
+  // 位置・速度・色を指定して1粒だけ出す（大きさと寿命はエミッターの設定から選ぶ）
+  spawnParticle(
+    position: THREE.Vector3,
+    velocity: THREE.Vector3,
+    color: THREE.Color,
+    emitter: EmitterConfig = GOLD_TRAIL,
+  ): void {
+    if (this.withinLimit(1) === 0) return;
+    spawnScratch.position.copy(position);
+    spawnScratch.velocity.copy(velocity);
+    spawnScratch.color.copy(color);
+    spawnScratch.lifetime = randomLifetime(emitter.lifetime);
+    spawnScratch.size = random.range(emitter.size[0], emitter.size[1]);
+    sampleSpriteMotion(emitter, spawnScratch);
+    this.layerFor(emitter).spawn(spawnScratch);
+  }
+
+  // 魚の後ろに軌跡を出す（軌跡もエミッターのプリセットの1つ）
+  spawnParticlesFromFish(
+    fishPosition: THREE.Vector3,
+    fishVelocity: THREE.Vector3,
+    fishColor: THREE.Color,
+    emitter: EmitterConfig = GOLD_TRAIL,
+  ): void {
+    this.emit(emitter, {
+      position: fishPosition,
+      velocity: fishVelocity,
+      color: fishColor,
+    });
+  }
+
+  /**
+   * GPU で泳ぐ魚の後ろに軌跡を出す。魚の位置と速度は読み戻さず、GPU 上で source から読む。
+   * 魚が minFishSpeed 以下の速さなら GPU 側で捨てる（CPU で動かす層には出せない）。
+   */
+  spawnParticlesFromGpuFish(
+    source: ParticleSourceBuffers,
+    fishIndex: number,
+    fishColor: THREE.Color,
+    emitter: EmitterConfig = GOLD_TRAIL,
+    minFishSpeed: number = 0,
+  ): void {
+    const layer = this.layerFor(emitter);
+    if (!(layer instanceof GPUParticleStore)) return;
+
+    const count = this.withinLimit(emissionCount(emitter.emission));
+    const palette = this.palettes.get(emitter);
+    const minSpeed = Math.max(emitter.minSourceSpeed, minFishSpeed);
+    // 速度を渡さなければ位置と速度には放出元からのずれだけが入る
+    const fish = { position: sourceOrigin, color: fishColor };
+    for (let i = 0; i < count; i++) {
+      layer.spawnFrom(
+        source,
+        fishIndex,
+        minSpeed,
+        sampleParticle(emitter, fish, spawnScratch, palette),
+      );
+    }
+  }
+
+  // 固定タイムステップ1回分の更新（描画は render で行う）
+  update(flow?: FlowField): void {
+    this.layers.forEach((layer) => layer.update(flow));
+  }
+
+  // 前ステップと現ステップの間を alpha で補間して描く
+  render(alpha: number = 1): void {
+    this.layers.forEach((layer) => layer.render(alpha));
+  }
+
+  // 全層を合わせて同時に存在できる数を決める（すでにいる分は寿命まで残す）
+  setParticleLimit(limit: number): void {
+    this.particleLimit = Math.max(0, limit);
   }
 
   getActiveParticleCount(): number {
-    return this.activeParticles;
+    let count = 0;
+    this.layers.forEach((layer) => (count += layer.activeCount));
+    return count;
+  }
+
+  // 上限に達して捨てた数と、古いものを置き換えた数（全層の合計）
+  getOverflowCounts(): { dropped: number; recycled: number } {
+    const counts = { dropped: this.limited, recycled: 0 };
+    this.layers.forEach((layer) => {
+      counts.dropped += layer.droppedCount;
+      counts.recycled += layer.recycledCount;
+    });
+    return counts;
   }
 
   dispose(): void {
-    if (this.instancedMesh) {
-      this.instancedMesh.geometry.dispose();
-      if (Array.isArray(this.instancedMesh.material)) {
-        this.instancedMesh.material.forEach((material) => material.dispose());
-      } else {
-        this.instancedMesh.material.dispose();
-      }
+    this.layers.forEach((layer) => layer.dispose());
+    this.layers.clear();
+  }
+
+  // 上限までに出せる数（出せなかった分は dropped に数える）
+  private withinLimit(count: number): number {
+    if (this.particleLimit === Infinity) return count;
+    const room = Math.max(
+      0,
+      this.particleLimit - this.getActiveParticleCount(),
+    );
+    const allowed = Math.min(count, room);
+    this.limited += count - allowed;
+    return allowed;
+  }
+
+  private layerFor(emitter: EmitterConfig): ParticleLayer {
+    let layer = this.layers.get(emitter);
+    if (!layer) {
+      layer = supportsCompute(this.renderer)
+        ? new GPUParticleStore(this.renderer, emitter)
+        : new CPUParticleLayer(emitter);
+      this.scene?.add(layer.object);
+      this.layers.set(emitter, layer);
     }
+    return layer;
   }
 }
@@ -0,0 +1,182 @@
+import * as THREE from "three";
+import { PostProcessing, WebGPURenderer, type RTTNode } from "three/webgpu";
+import {
+  abs,
+  float,
+  length,
+  max,
+  oneMinus,
+  pass,
+  pow,
+  rtt,
+  sin,
+  smoothstep,
+  uniform,
+  uv,
+  vec2,
+  vec4,
+  type ShaderNodeObject,
+} from "three/tsl";
+import { bloom } from "three/examples/jsm/tsl/display/BloomNode.js";
+import { rgbShift } from "three/examples/jsm/tsl/display/RGBShiftNode.js";
+import type { FloatUniform, ShaderNode } from "./gpu-compute";
+import {
+  POST_EFFECT_PARAMETERS,
+  POST_EFFECTS,
+  type CausticsLook,
+  type PostEffectChain,
+  type PostEffectToggles,
+} from "./post-processing";
+
+/**
+ * WebGPU 版の後処理。シーンを1度描いたテクスチャにノードで効果を重ねる。
+ * 効果の組み合わせごとに出力のノードを作って取っておき、切り替えでは差し替えるだけにする。
+ */
+
+// 2つの波の節が重なるところが細く光る（WebGL 版の causticLayer と同じ式）
+const causticLayer = (
+  p: ShaderNode,
+  t: FloatUniform | ShaderNode,
+): ShaderNode => {
+  const a = sin(p.x.add(sin(p.y.mul(0.8).add(t)).mul(1.5)).add(t.mul(0.7)));
+  const b = sin(
+    p.y.add(sin(p.x.mul(0.6).sub(t.mul(0.8))).mul(1.5)).sub(t.mul(0.5)),
+  );
+  return pow(float(1).sub(abs(a.mul(b))), 8);
+};
+
+export class NodePostEffectChain implements PostEffectChain {
+  private readonly postProcessing: PostProcessing;
+  private readonly scenePass;
+  private readonly bloomNode;
+  private readonly time = uniform(0);
+  private readonly aspect = uniform(1);
+  private readonly causticsTint = uniform(new THREE.Color());
+  private readonly causticsStrength = uniform(1);
+  private readonly outputs = new Map<string, ShaderNode>();
+  private readonly textures: ShaderNodeObject<RTTNode>[] = [];
+
+  constructor(
+    renderer: WebGPURenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+  ) {
+    const { strength, radius, threshold } = POST_EFFECT_PARAMETERS.bloom;
+    this.scenePass = pass(scene, camera);
+    this.bloomNode = bloom(
+      this.scenePass.getTextureNode("output"),
+      strength,
+      radius,
+      threshold,
+    );
+    this.postProcessing = new PostProcessing(renderer);
+  }
+
+  setEffects(effects: PostEffectToggles): void {
+    const key = POST_EFFECTS.map((effect) => (effects[effect] ? 1 : 0)).join(
+      "",
+    );
+    let output = this.outputs.get(key);
+    if (!output) {
+      output = this.buildOutput(effects);
+      this.outputs.set(key, output);
+    }
+    if (this.postProcessing.outputNode !== output) {
+      this.postProcessing.outputNode = output;
+      this.postProcessing.needsUpdate = true;
+    }
+  }
+
+  setCaustics({ tint, strength }: CausticsLook): void {
+    this.causticsTint.value.copy(tint);
+    this.causticsStrength.value = strength;
+  }
+
+  setSize(width: number, height: number): void {
+    // 描く大きさはレンダラーに合わせて自動で変わるので、縦横比だけ覚える
+    this.aspect.value = width / Math.max(1, height);
+  }
+
+  render(seconds: number): void {
+    this.time.value = seconds;
+    this.postProcessing.render();
+  }
+
+  dispose(): void {
+    this.textures.forEach((texture) => texture.renderTarget?.dispose());
+    this.bloomNode.dispose();
+    this.scenePass.dispose();
+    this.postProcessing.dispose();
+  }
+
+  // シーン → ブルーム → 水中の光と周辺減光 → 色収差 の順に重ねる
+  private buildOutput(effects: PostEffectToggles): ShaderNode {
+    let output: ShaderNode = vec4(this.scenePass.getTextureNode("output"));
+    if (effects.bloom) {
+      output = output.add(this.bloomNode);
+    }
+    if (effects.caustics || effects.vignette) {
+      output = this.underwater(output, effects);
+    }
+    if (effects.chromaticAberration) {
+      const { amount, angle } = POST_EFFECT_PARAMETERS.chromaticAberration;
+      // ずらして読むために一度テクスチャに描く
+      const texture = rtt(output);
+      this.textures.push(texture);
+      output = rgbShift(texture, amount, angle);
+    }
+    return output;
+  }
+
+  private underwater(
+    input: ShaderNode,
+    effects: PostEffectToggles,
+  ): ShaderNode {
+    const { caustics, vignette } = POST_EFFECT_PARAMETERS;
+    // この四角形の uv は上が 0 なので、下を 0 に直す
+    const screen = vec2(uv().x, oneMinus(uv().y));
+    const centered = screen.sub(0.5).mul(vec2(this.aspect, 1));
+    let rgb: ShaderNode = input.xyz;
+
+    if (effects.caustics) {
+      const p = centered.mul(caustics.scale);
+      const pattern = causticLayer(p, this.time)
+        .mul(0.6)
+        .add(causticLayer(p.mul(1.7).add(3.1), this.time.mul(1.3)).mul(0.4));
+      const slant = centered.x.add(screen.y.mul(0.35));
+      const rays = pow(
+        max(
+          0,
+          sin(
+            slant
+              .mul(9)
+              .add(sin(slant.mul(3.7).add(this.time.mul(0.3))).mul(1.5))
+              .add(this.time.mul(0.2)),
+          ),
+        ),
+        12,
+      );
+      // 水面に近い上の方ほど明るい
+      const surface = smoothstep(0.2, 1, screen.y);
+      rgb = rgb.add(
+        pattern
+          .mul(caustics.causticsIntensity)
+          .add(rays.mul(caustics.raysIntensity))
+          .mul(surface)
+          .mul(this.causticsStrength)
+          .mul(this.causticsTint),
+      );
+    }
+    if (effects.vignette) {
+      const fromCenter = length(centered).div(
+        length(vec2(this.aspect, 1).mul(0.5)),
+      );
+      rgb = rgb.mul(
+        float(1).sub(
+          smoothstep(vignette.offset, 1, fromCenter).mul(vignette.darkness),
+        ),
+      );
+    }
+    return vec4(rgb, input.w);
+  }
+}
@@ -1,10 +1,10 @@
 export interface WebGPUSupport {
   supported: boolean;
   adapter?: GPUAdapter;
-  device?: GPUDevice;
   reason?: string;
 }
 
+// アダプターがあるかだけを調べる（デバイスはレンダラーに渡す1つだけを作る）
 export async function checkWebGPUSupport(): Promise<WebGPUSupport> {
   if (!navigator.gpu) {
     return {
@@ -22,11 +22,9 @@ export async function checkWebGPUSupport(): Promise<WebGPUSupport> {
       };
     }
 
-    const device = await adapter.requestDevice();
     return {
       supported: true,
       adapter,
-      device,
     };
   } catch (error) {
     return {
@@ -36,6 +34,12 @@ export async function checkWebGPUSupport(): Promise<WebGPUSupport> {
   }
 }
 
+// アダプターが持つ機能をすべて有効にしたデバイスを作る
+export const requestWebGPUDevice = (adapter: GPUAdapter): Promise<GPUDevice> =>
+  adapter.requestDevice({
+    requiredFeatures: Array.from(adapter.features) as GPUFeatureName[],
+  });
+
 export function logWebGPUCapabilities(adapter: GPUAdapter, device: GPUDevice) {
   console.log("WebGPU Adapter Info:", {
     vendor: adapter.info?.vendor,
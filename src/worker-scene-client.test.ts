@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { getSceneThreadOverride, pickSceneThread } from "./worker-scene-client";
+
+describe("getSceneThreadOverride", () => {
+  test("reads the forced thread from the query string", () => {
+    expect(getSceneThreadOverride("?thread=main")).toBe("main");
+    expect(getSceneThreadOverride("?seed=4&thread=worker")).toBe("worker");
+  });
+
+  test("ignores missing or unknown values", () => {
+    expect(getSceneThreadOverride("")).toBeNull();
+    expect(getSceneThreadOverride("?thread=gpu")).toBeNull();
+  });
+});
+
+describe("pickSceneThread", () => {
+  test("uses a worker wherever OffscreenCanvas is supported", () => {
+    expect(pickSceneThread(null, true)).toBe("worker");
+    expect(pickSceneThread(null, false)).toBe("main");
+  });
+
+  test("can be forced onto the main thread but not into an unsupported worker", () => {
+    expect(pickSceneThread("main", true)).toBe("main");
+    expect(pickSceneThread("worker", false)).toBe("main");
+  });
+});
@@ -0,0 +1,181 @@
+import type {
+  FishSceneEvents,
+  FishSceneOptions,
+  SceneController,
+  SceneViewport,
+} from "./fish-scene";
+import type { BoidConfig } from "./boid-config";
+import type { Obstacle } from "./obstacles";
+import type { ScreenPoint } from "./pointer-gestures";
+import type { PostEffectToggles } from "./post-processing";
+import type { QualityLevel } from "./quality-governor";
+import { SCENE_WORKER_FILE } from "./scene-protocol";
+import type { SceneCommand, SceneEvent } from "./scene-protocol";
+import type { ThemeId } from "./theme";
+
+export type SceneThread = "main" | "worker";
+
+// ワーカーで描くのに要るもの（OffscreenCanvas とキャンバスの受け渡し）
+export const supportsWorkerScene = (): boolean =>
+  typeof Worker !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined" &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  "transferControlToOffscreen" in HTMLCanvasElement.prototype;
+
+// ?thread=main|worker でシーンを動かすスレッドを決め打ちする（比べたり不具合を切り分けたりするため）
+export const getSceneThreadOverride = (
+  search: string = globalThis.location?.search ?? "",
+): SceneThread | null => {
+  const value = new URLSearchParams(search).get("thread");
+  return value === "main" || value === "worker" ? value : null;
+};
+
+// 指定が無ければ使えるときだけワーカーにする（使えない環境では指定されてもメインスレッド）
+export const pickSceneThread = (
+  override: SceneThread | null,
+  workerSupported: boolean,
+): SceneThread => (workerSupported && override !== "main" ? "worker" : "main");
+
+/**
+ * ワーカーで動く FishScene をメインスレッドから操作する。
+ * キャンバスを作って OffscreenCanvas として渡し、ワーカーからの知らせを events に流す。
+ * ワーカーで始められなかったら onFailed を呼ぶので、呼んだ側はメインスレッドで動かし直す。
+ */
+export class WorkerSceneClient implements SceneController {
+  private readonly worker: Worker;
+  private canvas: HTMLCanvasElement | null = null;
+  private disposed = false;
+
+  constructor(
+    private readonly mount: HTMLElement,
+    options: FishSceneOptions,
+    private readonly events: FishSceneEvents,
+    private readonly onFailed: (reason: string) => void,
+  ) {
+    this.worker = new Worker(new URL(SCENE_WORKER_FILE, document.baseURI), {
+      type: "module",
+    });
+    this.worker.addEventListener("message", this.handleMessage);
+    this.worker.addEventListener("error", this.handleError);
+
+    const canvas = this.createCanvas();
+    this.post({ type: "init", canvas, options }, [canvas]);
+  }
+
+  setConfig(config: BoidConfig): void {
+    this.post({ type: "config", config });
+  }
+
+  setPostEffects(effects: PostEffectToggles): void {
+    this.post({ type: "postEffects", effects });
+  }
+
+  setTheme(themeId: ThemeId): void {
+    this.post({ type: "theme", themeId });
+  }
+
+  setQualityPin(level: QualityLevel | null): void {
+    this.post({ type: "qualityPin", level });
+  }
+
+  setReducedMotion(reduced: boolean): void {
+    this.post({ type: "reducedMotion", reduced });
+  }
+
+  setStopped(stopped: boolean): void {
+    this.post({ type: "stopped", stopped });
+  }
+
+  setVisible(visible: boolean): void {
+    this.post({ type: "visible", visible });
+  }
+
+  setLowPower(lowPower: boolean): void {
+    this.post({ type: "lowPower", lowPower });
+  }
+
+  resize(viewport: SceneViewport): void {
+    this.post({ type: "resize", viewport });
+  }
+
+  hover(point: ScreenPoint): void {
+    this.post({ type: "hover", point });
+  }
+
+  drag(point: ScreenPoint, delta: ScreenPoint): void {
+    this.post({ type: "drag", point, delta });
+  }
+
+  tap(point: ScreenPoint): void {
+    this.post({ type: "tap", point });
+  }
+
+  setObstacles(obstacles: Obstacle[]): void {
+    this.post({ type: "obstacles", obstacles });
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.post({ type: "dispose" });
+    this.disposed = true;
+    this.worker.removeEventListener("message", this.handleMessage);
+    this.worker.removeEventListener("error", this.handleError);
+    // 後片付けの間だけ待ってから止める（GPU デバイスを解放させるため）
+    setTimeout(() => this.worker.terminate(), 1000);
+    this.canvas?.remove();
+    this.canvas = null;
+  }
+
+  private post(command: SceneCommand, transfer: Transferable[] = []): void {
+    if (!this.disposed) this.worker.postMessage(command, transfer);
+  }
+
+  // 前のキャンバスと入れ替え、描き先をワーカーに渡す（大きさは CSS で画面に合わせる）
+  private createCanvas(): OffscreenCanvas {
+    const canvas = document.createElement("canvas");
+    canvas.className = "block w-full h-full";
+    this.canvas?.remove();
+    this.mount.appendChild(canvas);
+    this.canvas = canvas;
+    return canvas.transferControlToOffscreen();
+  }
+
+  private fail(reason: string): void {
+    if (this.disposed) return;
+    console.warn("⚠️ Scene worker failed, using the main thread:", reason);
+    this.dispose();
+    this.onFailed(reason);
+  }
+
+  private handleMessage = ({ data }: MessageEvent<SceneEvent>): void => {
+    switch (data.type) {
+      case "quality":
+        this.events.onQualityChange(data.level, data.pinned);
+        break;
+      case "backend":
+        this.events.onBackendReady(data.backend);
+        break;
+      case "incident":
+        this.events.onIncident(data.incident);
+        break;
+      case "frames":
+        data.timings.forEach((timing) =>
+          this.events.diagnostics?.recordFrame(timing, data.counts),
+        );
+        break;
+      case "requestCanvas": {
+        const canvas = this.createCanvas();
+        this.post({ type: "canvas", canvas }, [canvas]);
+        break;
+      }
+      case "failed":
+        this.fail(data.message);
+        break;
+    }
+  };
+
+  private handleError = (event: ErrorEvent): void => {
+    event.preventDefault();
+    this.fail(event.message || "Worker error");
+  };
+}